@@ -0,0 +1,700 @@
+// Generated from src/schemas.ts by `npm run cli -- generate-types`. Do not edit.
+
+export interface ApiError {
+  success: false;
+  error: string;
+  details?: ValidationErrorDetail[];
+}
+
+export interface ValidationErrorDetail {
+  field: string;
+  message: string;
+}
+
+export interface Message {
+  success: true;
+  message: string;
+}
+
+export interface Pagination {
+  total: number;
+  limit: number;
+  offset: number;
+  sort?: string;
+  hasMore: boolean;
+  // Cursor of the next page
+  next?: string | null;
+  // Cursor of the previous page
+  prev?: string | null;
+}
+
+export interface ContactPhone {
+  field: "phone" | "phone1" | "phone2";
+  // The number as stored
+  raw: string;
+  // The number in E.164 format, null when it cannot be parsed
+  e164: string | null;
+  // ISO 3166 country code
+  country: string | null;
+  // MOBILE, FIXED_LINE, ...
+  type: string | null;
+  valid: boolean;
+  primary: boolean;
+  whatsapp: boolean;
+  telLink: string | null;
+  whatsappLink: string | null;
+}
+
+export interface Contact {
+  id: string;
+  name: string;
+  location: string;
+  phone: string;
+  phone1: string;
+  phone2: string;
+  phones: ContactPhone[];
+  // WhatsApp number in international format without +
+  whatsapp: string;
+  rank: string;
+  province: string;
+  state: string;
+  categoryType: "location" | "mk" | "md" | "muas" | "nrt" | "field" | "medical" | "service" | null;
+  categoryId: number | null;
+  // Relevance, only with searchMode=ranked
+  score?: number;
+  // Left out for anonymous callers; only returned to staff
+  hideFromPublic?: boolean;
+  // Visible to pilgrims; only returned to staff
+  helpDesk?: boolean;
+}
+
+export interface ContactInput {
+  name?: string;
+  phone?: string;
+  phone1?: string;
+  phone2?: string;
+  rank?: string;
+  province?: string;
+  state?: string;
+  location?: string;
+  categoryType?: "location" | "mk" | "md" | "muas" | "nrt" | "field" | "medical" | "service";
+  categoryId?: number;
+  hideFromPublic?: boolean;
+  helpDesk?: boolean;
+}
+
+export interface Category {
+  group: "location" | "mk" | "md" | "muas" | "nrt" | "field" | "medical" | "service";
+  id: number;
+  label: string;
+}
+
+export interface Province {
+  province_id: number;
+  province: string;
+}
+
+export interface State {
+  state_id: number;
+  state_name: string;
+}
+
+export interface DirectoryLocation {
+  group: "location" | "mk" | "md" | "muas" | "nrt" | "field" | "medical" | "service" | null;
+  id: number | null;
+  label: string;
+  count: number;
+}
+
+export interface DirectoryState {
+  // null for contacts without a known state
+  id: number | null;
+  name: string;
+  count: number;
+  locations: DirectoryLocation[];
+}
+
+export interface DirectoryProvince {
+  // null for contacts without a known province
+  id: number | null;
+  name: string;
+  count: number;
+  states: DirectoryState[];
+}
+
+export interface DirectoryTree {
+  total: number;
+  provinces: DirectoryProvince[];
+}
+
+export interface LookupCount {
+  // null counts the contacts without a known one
+  id: number | null;
+  name: string;
+  count: number;
+}
+
+export interface DirectoryStats {
+  total: number;
+  byProvince: LookupCount[];
+  byState: LookupCount[];
+  byCategoryGroup: {
+    group: "location" | "mk" | "md" | "muas" | "nrt" | "field" | "medical" | "service" | null;
+    count: number;
+  }[];
+  byCategory: {
+    group: "location" | "mk" | "md" | "muas" | "nrt" | "field" | "medical" | "service";
+    id: number;
+    label: string;
+    count: number;
+  }[];
+  byRank: {
+    rank: string | null;
+    count: number;
+  }[];
+}
+
+export interface QualityIssue {
+  recordId: number;
+  name: string;
+  issue: "no_phone" | "invalid_phone" | "missing_name" | "unknown_province" | "unknown_state" | "unknown_category";
+  // The offending column, for issues about one field
+  field: string | null;
+  value: string | null;
+}
+
+export interface LookupEntry {
+  id: number;
+  name: string;
+}
+
+export interface SyncContact {
+  id: string;
+  name: string;
+  rank: string;
+  // As stored; the client parses the numbers and builds the links
+  phone: string;
+  phone1: string;
+  phone2: string;
+  provinceId: number | null;
+  stateId: number | null;
+  categoryType: "location" | "mk" | "md" | "muas" | "nrt" | "field" | "medical" | "service" | null;
+  categoryId: number | null;
+  hideFromPublic: boolean;
+  helpDesk: boolean;
+}
+
+export interface SyncResponse {
+  // Pass as since on the next call
+  token: string;
+  // True for a full snapshot: replace everything stored locally
+  full: boolean;
+  // More changes are waiting, call again with the new token
+  hasMore: boolean;
+  contacts: {
+    upserted: SyncContact[];
+    deleted: string[];
+  };
+  provinces: {
+    upserted: LookupEntry[];
+    deleted: number[];
+  };
+  states: {
+    upserted: LookupEntry[];
+    deleted: number[];
+  };
+  categories: {
+    upserted: Category[];
+    deleted: {
+      group: "location" | "mk" | "md" | "muas" | "nrt" | "field" | "medical" | "service";
+      id: number;
+    }[];
+  };
+}
+
+export interface DuplicateGroup {
+  confidence: number;
+  reasons: ("name" | "phone")[];
+  sharedPhones: string[];
+  contacts: Contact[];
+}
+
+export interface MergeInput {
+  // Record that is kept
+  survivorId: number | string;
+  mergeIds: (number | string)[];
+  // For each field, the id of the record to take it from (default: the survivor)
+  fields?: {
+    name?: number | string;
+    rank?: number | string;
+    province?: number | string;
+    state?: number | string;
+    location?: number | string;
+  };
+  // Numbers to keep, when the records have more than fit on one record
+  phones?: string[];
+}
+
+export interface AuditEntry {
+  id: string;
+  table: string;
+  recordId: number;
+  action: "create" | "update" | "delete" | "restore" | "merge" | "import";
+  actor: string;
+  requestId: string | null;
+  at: string;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  changes: {
+    field: string;
+    before: unknown;
+    after: unknown;
+  }[];
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  committed: boolean;
+  summary: {
+    total: number;
+    ok: number;
+    errors: number;
+    duplicates: number;
+    imported: number;
+  };
+  unknownNames: {
+    province: string[];
+    state: string[];
+    location: string[];
+  };
+  rows: {
+    row: number;
+    status: "ok" | "error" | "duplicate";
+    name: string;
+    errors: string[];
+    unknown: {
+      field: string;
+      value: string;
+    }[];
+    duplicates: {
+      source: "file" | "database";
+      row?: number;
+      id?: string;
+      reason: string;
+    }[];
+  }[];
+}
+
+export interface AuthContext {
+  type: "user" | "api_key";
+  id: number;
+  name: string;
+  role: "pilgrim" | "viewer" | "editor" | "admin";
+}
+
+export interface LoginInput {
+  username: string;
+  password: string;
+}
+
+export interface LoginResult {
+  token: string;
+  expiresAt: string;
+  user: {
+    id: number;
+    username: string;
+    role: "pilgrim" | "viewer" | "editor" | "admin";
+  };
+}
+
+export interface UserInput {
+  username: string;
+  password: string;
+  role: "pilgrim" | "viewer" | "editor" | "admin";
+}
+
+export interface ApiKeyInput {
+  name: string;
+  role: "pilgrim" | "viewer" | "editor" | "admin";
+}
+
+export interface GraphQLRequest {
+  query: string;
+  variables?: Record<string, unknown> | null;
+  operationName?: string | null;
+}
+
+export interface GraphQLResult {
+  data?: Record<string, unknown> | null;
+  errors?: {
+    message: string;
+    path?: unknown[];
+    locations?: unknown[];
+  }[];
+}
+
+// POST /api/auth/login
+export type LoginBody = LoginInput;
+export type LoginResponse = {
+  success: true;
+  data: LoginResult;
+};
+
+// GET /api/auth/me
+export type GetCurrentUserResponse = {
+  success: true;
+  data: AuthContext;
+};
+
+// GET /api/users
+export type ListUsersResponse = {
+  success: true;
+  data: Record<string, unknown>[];
+};
+
+// POST /api/users
+export type CreateUserBody = UserInput;
+export type CreateUserResponse = {
+  success: true;
+  data: Record<string, unknown>;
+};
+
+// GET /api/api-keys
+export type ListApiKeysResponse = {
+  success: true;
+  data: Record<string, unknown>[];
+};
+
+// POST /api/api-keys
+export type CreateApiKeyBody = ApiKeyInput;
+export type CreateApiKeyResponse = {
+  success: true;
+  data: Record<string, unknown>;
+};
+
+// DELETE /api/api-keys/:id
+export type RevokeApiKeyParams = {
+  id: number;
+};
+export type RevokeApiKeyResponse = Message;
+
+// GET /api/contacts
+export type ListContactsQuery = {
+  // Name or phone number, in any format
+  search?: string;
+  location?: string;
+  province?: string;
+  state?: string;
+  // A category group (medical) or group and id (medical:12)
+  category?: string;
+  searchMode?: "like" | "ranked";
+  // name sorts by first and last name; state and province by id, keeping the contacts of each together
+  sort?: "id" | "name" | "rank" | "state" | "province" | "updated";
+  // next or prev cursor of a previous page
+  cursor?: string;
+  // Page size
+  limit?: number;
+  offset?: number;
+};
+export type ListContactsResponse = {
+  success: true;
+  data: Contact[];
+  pagination: Pagination;
+};
+
+// GET /api/contacts-alt
+export type ListContactsAltQuery = {
+  // Name or phone number, in any format
+  search?: string;
+  location?: string;
+  province?: string;
+  state?: string;
+  // A category group (medical) or group and id (medical:12)
+  category?: string;
+  // Page size
+  limit?: number;
+  offset?: number;
+};
+export type ListContactsAltResponse = {
+  success: true;
+  data: Contact[];
+  pagination: Pagination;
+};
+
+// GET /api/contacts/export
+export type ExportContactsQuery = {
+  // Name or phone number, in any format
+  search?: string;
+  location?: string;
+  province?: string;
+  state?: string;
+  // A category group (medical) or group and id (medical:12)
+  category?: string;
+  format?: "vcf" | "csv";
+  // vCard version
+  version?: "3.0" | "4.0";
+};
+
+// POST /api/contacts/import
+export type ImportContactsQuery = {
+  dryRun?: boolean;
+  allowDuplicates?: boolean;
+  format?: "csv" | "xlsx";
+};
+export type ImportContactsResponse = {
+  success: true;
+  data: ImportReport;
+};
+
+// GET /api/contacts/duplicates
+export type FindDuplicateContactsQuery = {
+  minConfidence?: number;
+  limit?: number;
+  offset?: number;
+};
+export type FindDuplicateContactsResponse = {
+  success: true;
+  data: DuplicateGroup[];
+  pagination: Pagination;
+};
+
+// POST /api/contacts/merge
+export type MergeContactsBody = MergeInput;
+export type MergeContactsResponse = {
+  success: true;
+  data: Contact;
+  mergedIds: string[];
+};
+
+// GET /api/contacts/:id/vcard
+export type GetContactVCardParams = {
+  id: number;
+};
+export type GetContactVCardQuery = {
+  version?: "3.0" | "4.0";
+};
+
+// GET /api/contacts/:id/history
+export type GetContactHistoryParams = {
+  id: number;
+};
+export type GetContactHistoryResponse = {
+  success: true;
+  data: AuditEntry[];
+};
+
+// GET /api/contacts/:id
+export type GetContactParams = {
+  id: number;
+};
+export type GetContactResponse = {
+  success: true;
+  data: Contact;
+  // The id asked for, when it was merged into this contact
+  mergedFrom?: string;
+};
+
+// POST /api/contacts
+export type CreateContactBody = ContactInput;
+export type CreateContactResponse = {
+  success: true;
+  data: Contact;
+};
+
+// PATCH /api/contacts/:id
+export type UpdateContactParams = {
+  id: number;
+};
+export type UpdateContactBody = ContactInput;
+export type UpdateContactResponse = {
+  success: true;
+  data: Contact;
+};
+
+// DELETE /api/contacts/:id
+export type DeleteContactParams = {
+  id: number;
+};
+export type DeleteContactResponse = {
+  success: true;
+  message: string;
+  data: {
+    id: string;
+  };
+};
+
+// POST /api/contacts/:id/restore
+export type RestoreContactParams = {
+  id: number;
+};
+export type RestoreContactResponse = {
+  success: true;
+  data: Contact;
+};
+
+// GET /api/sync
+export type SyncDirectoryQuery = {
+  // token of the previous sync
+  since?: string;
+};
+export type SyncDirectoryResponse = {
+  success: true;
+  data: SyncResponse;
+};
+
+// GET /api/audit
+export type ListAuditEntriesQuery = {
+  table?: "phone_record" | "province_info" | "state_info" | "location" | "mk_cat_info" | "md_cat_info" | "muas_cat_info" | "nrt_cat_info" | "field_cat_info" | "medical_cat_info" | "service_cat_info";
+  recordId?: number;
+  // e.g. user:amina or api_key:mobile-app
+  actor?: string;
+  action?: string;
+  requestId?: string;
+  // Date or date-time
+  from?: string;
+  // Date or date-time
+  to?: string;
+  limit?: number;
+  offset?: number;
+};
+export type ListAuditEntriesResponse = {
+  success: true;
+  data: AuditEntry[];
+  pagination: Pagination;
+};
+
+// GET /api/categories
+export type ListCategoriesQuery = {
+  group?: "location" | "mk" | "md" | "muas" | "nrt" | "field" | "medical" | "service";
+};
+export type ListCategoriesResponse = {
+  success: true;
+  data: Category[];
+};
+
+// GET /api/categories/stats
+export type GetCategoryStatsResponse = {
+  success: true;
+  data: Record<string, unknown>;
+};
+
+// POST /api/categories/refresh
+export type RefreshCategoriesResponse = {
+  success: true;
+  data: Record<string, unknown>;
+};
+
+// GET /api/search/stats
+export type GetSearchStatsResponse = {
+  success: true;
+  data: Record<string, unknown>;
+};
+
+// POST /api/search/rebuild
+export type RebuildSearchIndexResponse = {
+  success: true;
+  data: Record<string, unknown>;
+};
+
+// GET /api/locations
+export type ListLocationsResponse = {
+  success: true;
+  data: string[];
+};
+
+// GET /api/provinces
+export type ListProvincesResponse = {
+  success: true;
+  data: Province[];
+};
+
+// GET /api/states
+export type ListStatesResponse = {
+  success: true;
+  data: State[];
+};
+
+// GET /api/directory/tree
+export type GetDirectoryTreeResponse = {
+  success: true;
+  data: DirectoryTree;
+};
+
+// GET /api/provinces/:id/states
+export type ListProvinceStatesParams = {
+  id: number;
+};
+export type ListProvinceStatesResponse = {
+  success: true;
+  data: DirectoryState[];
+};
+
+// GET /api/states/:id/contacts
+export type ListStateContactsParams = {
+  id: number;
+};
+export type ListStateContactsQuery = {
+  provinceId?: number;
+  // A category group (medical) or group and id (medical:12)
+  category?: string;
+  // Page size
+  limit?: number;
+  offset?: number;
+};
+export type ListStateContactsResponse = {
+  success: true;
+  data: Contact[];
+  pagination: Pagination;
+};
+
+// GET /api/stats
+export type GetDirectoryStatsQuery = {
+  format?: "json" | "csv";
+};
+export type GetDirectoryStatsResponse = {
+  success: true;
+  data: DirectoryStats;
+};
+
+// GET /api/data-quality
+export type GetDataQualityQuery = {
+  type?: "no_phone" | "invalid_phone" | "missing_name" | "unknown_province" | "unknown_state" | "unknown_category";
+  format?: "json" | "csv";
+  limit?: number;
+  offset?: number;
+};
+export type GetDataQualityResponse = {
+  success: true;
+  data: QualityIssue[];
+  summary: {
+    checked: number;
+    issues: {
+      no_phone: number;
+      invalid_phone: number;
+      missing_name: number;
+      unknown_province: number;
+      unknown_state: number;
+      unknown_category: number;
+    };
+  };
+  pagination: Pagination;
+};
+
+// GET /api/test-data
+export type GetTestDataResponse = Record<string, unknown>;
+
+// GET /api/health
+export type GetHealthResponse = Record<string, unknown>;
+
+// POST /graphql
+export type GraphqlQueryBody = GraphQLRequest;
+export type GraphqlQueryResponse = GraphQLResult;
+
+// GET /graphql
+export type GraphqlQueryGetQuery = {
+  query: string;
+  // JSON object
+  variables?: string;
+  operationName?: string;
+};
+export type GraphqlQueryGetResponse = GraphQLResult;
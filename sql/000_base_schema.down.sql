@@ -0,0 +1,12 @@
+-- Drops the directory tables and everything in them. Only for development databases.
+DROP TABLE IF EXISTS phone_record;
+DROP TABLE IF EXISTS service_cat_info;
+DROP TABLE IF EXISTS medical_cat_info;
+DROP TABLE IF EXISTS field_cat_info;
+DROP TABLE IF EXISTS nrt_cat_info;
+DROP TABLE IF EXISTS muas_cat_info;
+DROP TABLE IF EXISTS md_cat_info;
+DROP TABLE IF EXISTS mk_cat_info;
+DROP TABLE IF EXISTS location;
+DROP TABLE IF EXISTS state_info;
+DROP TABLE IF EXISTS province_info;
@@ -0,0 +1,95 @@
+-- The directory tables the API was written against: contacts (phone_record), the
+-- province and state lookups, and the eight lookup tables a contact's location comes from.
+-- IF NOT EXISTS lets a database that already has them (e.g. a copy of last year's) adopt
+-- the migrations; mark the later migrations it already has with the baseline command.
+CREATE TABLE IF NOT EXISTS province_info (
+  province_id INT UNSIGNED NOT NULL AUTO_INCREMENT,
+  province VARCHAR(100) NOT NULL,
+  PRIMARY KEY (province_id)
+) DEFAULT CHARSET = utf8mb4;
+
+CREATE TABLE IF NOT EXISTS state_info (
+  state_id INT UNSIGNED NOT NULL AUTO_INCREMENT,
+  state_name VARCHAR(100) NOT NULL,
+  PRIMARY KEY (state_id)
+) DEFAULT CHARSET = utf8mb4;
+
+CREATE TABLE IF NOT EXISTS location (
+  location_id INT UNSIGNED NOT NULL AUTO_INCREMENT,
+  location VARCHAR(150) NOT NULL,
+  PRIMARY KEY (location_id)
+) DEFAULT CHARSET = utf8mb4;
+
+CREATE TABLE IF NOT EXISTS mk_cat_info (
+  mk_cat_id INT UNSIGNED NOT NULL AUTO_INCREMENT,
+  mk_category VARCHAR(150) NOT NULL,
+  PRIMARY KEY (mk_cat_id)
+) DEFAULT CHARSET = utf8mb4;
+
+CREATE TABLE IF NOT EXISTS md_cat_info (
+  md_cat_id INT UNSIGNED NOT NULL AUTO_INCREMENT,
+  md_category VARCHAR(150) NOT NULL,
+  PRIMARY KEY (md_cat_id)
+) DEFAULT CHARSET = utf8mb4;
+
+CREATE TABLE IF NOT EXISTS muas_cat_info (
+  muas_cat_id INT UNSIGNED NOT NULL AUTO_INCREMENT,
+  muas_category VARCHAR(150) NOT NULL,
+  PRIMARY KEY (muas_cat_id)
+) DEFAULT CHARSET = utf8mb4;
+
+CREATE TABLE IF NOT EXISTS nrt_cat_info (
+  nrt_cat_id INT UNSIGNED NOT NULL AUTO_INCREMENT,
+  nrt_category VARCHAR(150) NOT NULL,
+  PRIMARY KEY (nrt_cat_id)
+) DEFAULT CHARSET = utf8mb4;
+
+CREATE TABLE IF NOT EXISTS field_cat_info (
+  field_cat_id INT UNSIGNED NOT NULL AUTO_INCREMENT,
+  field_category VARCHAR(150) NOT NULL,
+  PRIMARY KEY (field_cat_id)
+) DEFAULT CHARSET = utf8mb4;
+
+CREATE TABLE IF NOT EXISTS medical_cat_info (
+  medical_cat_id INT UNSIGNED NOT NULL AUTO_INCREMENT,
+  medical_category VARCHAR(150) NOT NULL,
+  PRIMARY KEY (medical_cat_id)
+) DEFAULT CHARSET = utf8mb4;
+
+CREATE TABLE IF NOT EXISTS service_cat_info (
+  service_cat_id INT UNSIGNED NOT NULL AUTO_INCREMENT,
+  service_category VARCHAR(150) NOT NULL,
+  PRIMARY KEY (service_cat_id)
+) DEFAULT CHARSET = utf8mb4;
+
+-- The *_cat_id columns are 0 when unused, the first non-zero one is the contact's location
+CREATE TABLE IF NOT EXISTS phone_record (
+  record_id INT UNSIGNED NOT NULL AUTO_INCREMENT,
+  `rank` VARCHAR(100) NULL,
+  f_name VARCHAR(100) NULL,
+  l_name VARCHAR(100) NULL,
+  phone VARCHAR(30) NULL,
+  phone1 VARCHAR(30) NULL,
+  phone2 VARCHAR(30) NULL,
+  location_id INT UNSIGNED NOT NULL DEFAULT 0,
+  mk_cat_id INT UNSIGNED NOT NULL DEFAULT 0,
+  md_cat_id INT UNSIGNED NOT NULL DEFAULT 0,
+  muas_cat_id INT UNSIGNED NOT NULL DEFAULT 0,
+  nrt_cat_id INT UNSIGNED NOT NULL DEFAULT 0,
+  field_cat_id INT UNSIGNED NOT NULL DEFAULT 0,
+  medical_cat_id INT UNSIGNED NOT NULL DEFAULT 0,
+  service_cat_id INT UNSIGNED NOT NULL DEFAULT 0,
+  province_id INT UNSIGNED NULL,
+  state_id INT UNSIGNED NULL,
+  PRIMARY KEY (record_id),
+  KEY idx_phone_record_province_id (province_id),
+  KEY idx_phone_record_state_id (state_id),
+  KEY idx_phone_record_location_id (location_id),
+  KEY idx_phone_record_mk_cat_id (mk_cat_id),
+  KEY idx_phone_record_md_cat_id (md_cat_id),
+  KEY idx_phone_record_muas_cat_id (muas_cat_id),
+  KEY idx_phone_record_nrt_cat_id (nrt_cat_id),
+  KEY idx_phone_record_field_cat_id (field_cat_id),
+  KEY idx_phone_record_medical_cat_id (medical_cat_id),
+  KEY idx_phone_record_service_cat_id (service_cat_id)
+) DEFAULT CHARSET = utf8mb4;
@@ -0,0 +1,3 @@
+ALTER TABLE phone_record
+  DROP INDEX idx_phone_record_deleted_at,
+  DROP COLUMN deleted_at;
@@ -0,0 +1,6 @@
+-- Soft delete support for phone_record.
+-- DELETE /api/contacts/:id sets deleted_at instead of removing the row,
+-- POST /api/contacts/:id/restore clears it again.
+ALTER TABLE phone_record
+  ADD COLUMN deleted_at DATETIME NULL DEFAULT NULL,
+  ADD INDEX idx_phone_record_deleted_at (deleted_at);
@@ -0,0 +1,26 @@
+-- User logins and API keys for the contacts API.
+-- role is one of pilgrim, viewer, editor, admin (ROLES in src/auth.ts), lowest first.
+CREATE TABLE users (
+  user_id INT UNSIGNED NOT NULL AUTO_INCREMENT,
+  username VARCHAR(50) NOT NULL,
+  password_hash VARCHAR(255) NOT NULL,
+  role VARCHAR(20) NOT NULL DEFAULT 'viewer',
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  disabled_at DATETIME NULL DEFAULT NULL,
+  PRIMARY KEY (user_id),
+  UNIQUE KEY uq_users_username (username)
+);
+
+-- Only a sha256 hash of each key is stored; key_prefix helps identify a key in listings.
+CREATE TABLE api_keys (
+  api_key_id INT UNSIGNED NOT NULL AUTO_INCREMENT,
+  name VARCHAR(100) NOT NULL,
+  key_hash CHAR(64) NOT NULL,
+  key_prefix VARCHAR(8) NOT NULL,
+  role VARCHAR(20) NOT NULL DEFAULT 'viewer',
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  last_used_at DATETIME NULL DEFAULT NULL,
+  revoked_at DATETIME NULL DEFAULT NULL,
+  PRIMARY KEY (api_key_id),
+  UNIQUE KEY uq_api_keys_key_hash (key_hash)
+);
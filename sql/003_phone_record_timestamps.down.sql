@@ -0,0 +1,4 @@
+ALTER TABLE phone_record
+  DROP INDEX idx_phone_record_updated_at,
+  DROP COLUMN updated_at,
+  DROP COLUMN created_at;
@@ -0,0 +1,7 @@
+-- Creation and modification times on phone_record.
+-- updated_at drives sort=updated on /api/contacts; the index lets cursor pages on it
+-- (and on record_id, via the primary key) seek straight to the next row instead of scanning.
+ALTER TABLE phone_record
+  ADD COLUMN created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  ADD COLUMN updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  ADD INDEX idx_phone_record_updated_at (updated_at, record_id);
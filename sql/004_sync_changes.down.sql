@@ -0,0 +1,37 @@
+-- Drops the sync change log along with the triggers that write it; clients holding a
+-- sync token will have to start again from a snapshot
+DROP TRIGGER IF EXISTS trg_service_cat_info_sync_delete;
+DROP TRIGGER IF EXISTS trg_service_cat_info_sync_update;
+DROP TRIGGER IF EXISTS trg_service_cat_info_sync_insert;
+DROP TRIGGER IF EXISTS trg_medical_cat_info_sync_delete;
+DROP TRIGGER IF EXISTS trg_medical_cat_info_sync_update;
+DROP TRIGGER IF EXISTS trg_medical_cat_info_sync_insert;
+DROP TRIGGER IF EXISTS trg_field_cat_info_sync_delete;
+DROP TRIGGER IF EXISTS trg_field_cat_info_sync_update;
+DROP TRIGGER IF EXISTS trg_field_cat_info_sync_insert;
+DROP TRIGGER IF EXISTS trg_nrt_cat_info_sync_delete;
+DROP TRIGGER IF EXISTS trg_nrt_cat_info_sync_update;
+DROP TRIGGER IF EXISTS trg_nrt_cat_info_sync_insert;
+DROP TRIGGER IF EXISTS trg_muas_cat_info_sync_delete;
+DROP TRIGGER IF EXISTS trg_muas_cat_info_sync_update;
+DROP TRIGGER IF EXISTS trg_muas_cat_info_sync_insert;
+DROP TRIGGER IF EXISTS trg_md_cat_info_sync_delete;
+DROP TRIGGER IF EXISTS trg_md_cat_info_sync_update;
+DROP TRIGGER IF EXISTS trg_md_cat_info_sync_insert;
+DROP TRIGGER IF EXISTS trg_mk_cat_info_sync_delete;
+DROP TRIGGER IF EXISTS trg_mk_cat_info_sync_update;
+DROP TRIGGER IF EXISTS trg_mk_cat_info_sync_insert;
+DROP TRIGGER IF EXISTS trg_location_sync_delete;
+DROP TRIGGER IF EXISTS trg_location_sync_update;
+DROP TRIGGER IF EXISTS trg_location_sync_insert;
+DROP TRIGGER IF EXISTS trg_state_info_sync_delete;
+DROP TRIGGER IF EXISTS trg_state_info_sync_update;
+DROP TRIGGER IF EXISTS trg_state_info_sync_insert;
+DROP TRIGGER IF EXISTS trg_province_info_sync_delete;
+DROP TRIGGER IF EXISTS trg_province_info_sync_update;
+DROP TRIGGER IF EXISTS trg_province_info_sync_insert;
+DROP TRIGGER IF EXISTS trg_phone_record_sync_delete;
+DROP TRIGGER IF EXISTS trg_phone_record_sync_update;
+DROP TRIGGER IF EXISTS trg_phone_record_sync_insert;
+
+DROP TABLE sync_changes;
@@ -0,0 +1,115 @@
+-- Change tracking for the offline sync endpoint (GET /api/sync).
+-- Triggers append a row to sync_changes for every change to phone_record and the lookup
+-- tables, so edits made directly in MySQL are picked up too. A sync token is the last
+-- change_id a client has seen. Soft deletes of contacts are recorded as deletes.
+CREATE TABLE sync_changes (
+  change_id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+  table_name VARCHAR(64) NOT NULL,
+  row_id INT UNSIGNED NOT NULL,
+  operation ENUM('upsert', 'delete') NOT NULL,
+  changed_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (change_id),
+  KEY idx_sync_changes_changed_at (changed_at)
+);
+
+CREATE TRIGGER trg_phone_record_sync_insert AFTER INSERT ON phone_record FOR EACH ROW
+  INSERT INTO sync_changes (table_name, row_id, operation)
+  VALUES ('phone_record', NEW.record_id, IF(NEW.deleted_at IS NULL, 'upsert', 'delete'));
+
+CREATE TRIGGER trg_phone_record_sync_update AFTER UPDATE ON phone_record FOR EACH ROW
+  INSERT INTO sync_changes (table_name, row_id, operation)
+  VALUES ('phone_record', NEW.record_id, IF(NEW.deleted_at IS NULL, 'upsert', 'delete'));
+
+CREATE TRIGGER trg_phone_record_sync_delete AFTER DELETE ON phone_record FOR EACH ROW
+  INSERT INTO sync_changes (table_name, row_id, operation)
+  VALUES ('phone_record', OLD.record_id, 'delete');
+
+CREATE TRIGGER trg_province_info_sync_insert AFTER INSERT ON province_info FOR EACH ROW
+  INSERT INTO sync_changes (table_name, row_id, operation) VALUES ('province_info', NEW.province_id, 'upsert');
+
+CREATE TRIGGER trg_province_info_sync_update AFTER UPDATE ON province_info FOR EACH ROW
+  INSERT INTO sync_changes (table_name, row_id, operation) VALUES ('province_info', NEW.province_id, 'upsert');
+
+CREATE TRIGGER trg_province_info_sync_delete AFTER DELETE ON province_info FOR EACH ROW
+  INSERT INTO sync_changes (table_name, row_id, operation) VALUES ('province_info', OLD.province_id, 'delete');
+
+CREATE TRIGGER trg_state_info_sync_insert AFTER INSERT ON state_info FOR EACH ROW
+  INSERT INTO sync_changes (table_name, row_id, operation) VALUES ('state_info', NEW.state_id, 'upsert');
+
+CREATE TRIGGER trg_state_info_sync_update AFTER UPDATE ON state_info FOR EACH ROW
+  INSERT INTO sync_changes (table_name, row_id, operation) VALUES ('state_info', NEW.state_id, 'upsert');
+
+CREATE TRIGGER trg_state_info_sync_delete AFTER DELETE ON state_info FOR EACH ROW
+  INSERT INTO sync_changes (table_name, row_id, operation) VALUES ('state_info', OLD.state_id, 'delete');
+
+CREATE TRIGGER trg_location_sync_insert AFTER INSERT ON location FOR EACH ROW
+  INSERT INTO sync_changes (table_name, row_id, operation) VALUES ('location', NEW.location_id, 'upsert');
+
+CREATE TRIGGER trg_location_sync_update AFTER UPDATE ON location FOR EACH ROW
+  INSERT INTO sync_changes (table_name, row_id, operation) VALUES ('location', NEW.location_id, 'upsert');
+
+CREATE TRIGGER trg_location_sync_delete AFTER DELETE ON location FOR EACH ROW
+  INSERT INTO sync_changes (table_name, row_id, operation) VALUES ('location', OLD.location_id, 'delete');
+
+CREATE TRIGGER trg_mk_cat_info_sync_insert AFTER INSERT ON mk_cat_info FOR EACH ROW
+  INSERT INTO sync_changes (table_name, row_id, operation) VALUES ('mk_cat_info', NEW.mk_cat_id, 'upsert');
+
+CREATE TRIGGER trg_mk_cat_info_sync_update AFTER UPDATE ON mk_cat_info FOR EACH ROW
+  INSERT INTO sync_changes (table_name, row_id, operation) VALUES ('mk_cat_info', NEW.mk_cat_id, 'upsert');
+
+CREATE TRIGGER trg_mk_cat_info_sync_delete AFTER DELETE ON mk_cat_info FOR EACH ROW
+  INSERT INTO sync_changes (table_name, row_id, operation) VALUES ('mk_cat_info', OLD.mk_cat_id, 'delete');
+
+CREATE TRIGGER trg_md_cat_info_sync_insert AFTER INSERT ON md_cat_info FOR EACH ROW
+  INSERT INTO sync_changes (table_name, row_id, operation) VALUES ('md_cat_info', NEW.md_cat_id, 'upsert');
+
+CREATE TRIGGER trg_md_cat_info_sync_update AFTER UPDATE ON md_cat_info FOR EACH ROW
+  INSERT INTO sync_changes (table_name, row_id, operation) VALUES ('md_cat_info', NEW.md_cat_id, 'upsert');
+
+CREATE TRIGGER trg_md_cat_info_sync_delete AFTER DELETE ON md_cat_info FOR EACH ROW
+  INSERT INTO sync_changes (table_name, row_id, operation) VALUES ('md_cat_info', OLD.md_cat_id, 'delete');
+
+CREATE TRIGGER trg_muas_cat_info_sync_insert AFTER INSERT ON muas_cat_info FOR EACH ROW
+  INSERT INTO sync_changes (table_name, row_id, operation) VALUES ('muas_cat_info', NEW.muas_cat_id, 'upsert');
+
+CREATE TRIGGER trg_muas_cat_info_sync_update AFTER UPDATE ON muas_cat_info FOR EACH ROW
+  INSERT INTO sync_changes (table_name, row_id, operation) VALUES ('muas_cat_info', NEW.muas_cat_id, 'upsert');
+
+CREATE TRIGGER trg_muas_cat_info_sync_delete AFTER DELETE ON muas_cat_info FOR EACH ROW
+  INSERT INTO sync_changes (table_name, row_id, operation) VALUES ('muas_cat_info', OLD.muas_cat_id, 'delete');
+
+CREATE TRIGGER trg_nrt_cat_info_sync_insert AFTER INSERT ON nrt_cat_info FOR EACH ROW
+  INSERT INTO sync_changes (table_name, row_id, operation) VALUES ('nrt_cat_info', NEW.nrt_cat_id, 'upsert');
+
+CREATE TRIGGER trg_nrt_cat_info_sync_update AFTER UPDATE ON nrt_cat_info FOR EACH ROW
+  INSERT INTO sync_changes (table_name, row_id, operation) VALUES ('nrt_cat_info', NEW.nrt_cat_id, 'upsert');
+
+CREATE TRIGGER trg_nrt_cat_info_sync_delete AFTER DELETE ON nrt_cat_info FOR EACH ROW
+  INSERT INTO sync_changes (table_name, row_id, operation) VALUES ('nrt_cat_info', OLD.nrt_cat_id, 'delete');
+
+CREATE TRIGGER trg_field_cat_info_sync_insert AFTER INSERT ON field_cat_info FOR EACH ROW
+  INSERT INTO sync_changes (table_name, row_id, operation) VALUES ('field_cat_info', NEW.field_cat_id, 'upsert');
+
+CREATE TRIGGER trg_field_cat_info_sync_update AFTER UPDATE ON field_cat_info FOR EACH ROW
+  INSERT INTO sync_changes (table_name, row_id, operation) VALUES ('field_cat_info', NEW.field_cat_id, 'upsert');
+
+CREATE TRIGGER trg_field_cat_info_sync_delete AFTER DELETE ON field_cat_info FOR EACH ROW
+  INSERT INTO sync_changes (table_name, row_id, operation) VALUES ('field_cat_info', OLD.field_cat_id, 'delete');
+
+CREATE TRIGGER trg_medical_cat_info_sync_insert AFTER INSERT ON medical_cat_info FOR EACH ROW
+  INSERT INTO sync_changes (table_name, row_id, operation) VALUES ('medical_cat_info', NEW.medical_cat_id, 'upsert');
+
+CREATE TRIGGER trg_medical_cat_info_sync_update AFTER UPDATE ON medical_cat_info FOR EACH ROW
+  INSERT INTO sync_changes (table_name, row_id, operation) VALUES ('medical_cat_info', NEW.medical_cat_id, 'upsert');
+
+CREATE TRIGGER trg_medical_cat_info_sync_delete AFTER DELETE ON medical_cat_info FOR EACH ROW
+  INSERT INTO sync_changes (table_name, row_id, operation) VALUES ('medical_cat_info', OLD.medical_cat_id, 'delete');
+
+CREATE TRIGGER trg_service_cat_info_sync_insert AFTER INSERT ON service_cat_info FOR EACH ROW
+  INSERT INTO sync_changes (table_name, row_id, operation) VALUES ('service_cat_info', NEW.service_cat_id, 'upsert');
+
+CREATE TRIGGER trg_service_cat_info_sync_update AFTER UPDATE ON service_cat_info FOR EACH ROW
+  INSERT INTO sync_changes (table_name, row_id, operation) VALUES ('service_cat_info', NEW.service_cat_id, 'upsert');
+
+CREATE TRIGGER trg_service_cat_info_sync_delete AFTER DELETE ON service_cat_info FOR EACH ROW
+  INSERT INTO sync_changes (table_name, row_id, operation) VALUES ('service_cat_info', OLD.service_cat_id, 'delete');
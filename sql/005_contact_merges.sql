@@ -0,0 +1,11 @@
+-- Records merged into another record by POST /api/contacts/merge.
+-- The merged rows are soft-deleted; this table lets their old ids resolve to the survivor.
+-- Chains are flattened on merge, so survivor_id always points at a record that wasn't merged.
+CREATE TABLE contact_merges (
+  merged_id INT UNSIGNED NOT NULL,
+  survivor_id INT UNSIGNED NOT NULL,
+  merged_by VARCHAR(100) NOT NULL,
+  merged_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (merged_id),
+  KEY idx_contact_merges_survivor (survivor_id)
+);
@@ -0,0 +1,38 @@
+-- Drops the audit trail along with the triggers that write it
+DROP TRIGGER IF EXISTS trg_service_cat_info_audit_delete;
+DROP TRIGGER IF EXISTS trg_service_cat_info_audit_update;
+DROP TRIGGER IF EXISTS trg_service_cat_info_audit_insert;
+DROP TRIGGER IF EXISTS trg_medical_cat_info_audit_delete;
+DROP TRIGGER IF EXISTS trg_medical_cat_info_audit_update;
+DROP TRIGGER IF EXISTS trg_medical_cat_info_audit_insert;
+DROP TRIGGER IF EXISTS trg_field_cat_info_audit_delete;
+DROP TRIGGER IF EXISTS trg_field_cat_info_audit_update;
+DROP TRIGGER IF EXISTS trg_field_cat_info_audit_insert;
+DROP TRIGGER IF EXISTS trg_nrt_cat_info_audit_delete;
+DROP TRIGGER IF EXISTS trg_nrt_cat_info_audit_update;
+DROP TRIGGER IF EXISTS trg_nrt_cat_info_audit_insert;
+DROP TRIGGER IF EXISTS trg_muas_cat_info_audit_delete;
+DROP TRIGGER IF EXISTS trg_muas_cat_info_audit_update;
+DROP TRIGGER IF EXISTS trg_muas_cat_info_audit_insert;
+DROP TRIGGER IF EXISTS trg_md_cat_info_audit_delete;
+DROP TRIGGER IF EXISTS trg_md_cat_info_audit_update;
+DROP TRIGGER IF EXISTS trg_md_cat_info_audit_insert;
+DROP TRIGGER IF EXISTS trg_mk_cat_info_audit_delete;
+DROP TRIGGER IF EXISTS trg_mk_cat_info_audit_update;
+DROP TRIGGER IF EXISTS trg_mk_cat_info_audit_insert;
+DROP TRIGGER IF EXISTS trg_location_audit_delete;
+DROP TRIGGER IF EXISTS trg_location_audit_update;
+DROP TRIGGER IF EXISTS trg_location_audit_insert;
+DROP TRIGGER IF EXISTS trg_state_info_audit_delete;
+DROP TRIGGER IF EXISTS trg_state_info_audit_update;
+DROP TRIGGER IF EXISTS trg_state_info_audit_insert;
+DROP TRIGGER IF EXISTS trg_province_info_audit_delete;
+DROP TRIGGER IF EXISTS trg_province_info_audit_update;
+DROP TRIGGER IF EXISTS trg_province_info_audit_insert;
+DROP TRIGGER IF EXISTS trg_phone_record_audit_delete;
+DROP TRIGGER IF EXISTS trg_phone_record_audit_update;
+DROP TRIGGER IF EXISTS trg_phone_record_audit_insert;
+DROP TRIGGER IF EXISTS trg_audit_log_no_delete;
+DROP TRIGGER IF EXISTS trg_audit_log_no_update;
+
+DROP TABLE audit_log;
@@ -0,0 +1,221 @@
+-- Append-only audit log of every change to contacts and the lookup tables.
+-- Written by triggers so changes made directly in MySQL are logged too. The API sets
+-- @audit_actor, @audit_request_id and (for merges and imports) @audit_action on its
+-- connection before writing; without them the MySQL account is logged as the actor.
+CREATE TABLE audit_log (
+  audit_id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+  table_name VARCHAR(64) NOT NULL,
+  row_id INT UNSIGNED NOT NULL,
+  action VARCHAR(20) NOT NULL,
+  actor VARCHAR(150) NOT NULL,
+  request_id VARCHAR(100) NULL,
+  before_values JSON NULL,
+  after_values JSON NULL,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (audit_id),
+  KEY idx_audit_log_row (table_name, row_id, audit_id),
+  KEY idx_audit_log_actor (actor, audit_id),
+  KEY idx_audit_log_created_at (created_at)
+);
+
+-- Entries can't be changed or removed
+CREATE TRIGGER trg_audit_log_no_update BEFORE UPDATE ON audit_log FOR EACH ROW
+  SIGNAL SQLSTATE '45000' SET MESSAGE_TEXT = 'audit_log is append-only';
+
+CREATE TRIGGER trg_audit_log_no_delete BEFORE DELETE ON audit_log FOR EACH ROW
+  SIGNAL SQLSTATE '45000' SET MESSAGE_TEXT = 'audit_log is append-only';
+
+CREATE TRIGGER trg_phone_record_audit_insert AFTER INSERT ON phone_record FOR EACH ROW
+  INSERT INTO audit_log (table_name, row_id, action, actor, request_id, before_values, after_values)
+  VALUES ('phone_record', NEW.record_id, COALESCE(@audit_action, 'create'), COALESCE(@audit_actor, CONCAT('mysql:', CURRENT_USER())), @audit_request_id,
+    NULL, JSON_OBJECT('record_id', NEW.record_id, 'rank', NEW.`rank`, 'f_name', NEW.f_name, 'l_name', NEW.l_name, 'phone', NEW.phone, 'phone1', NEW.phone1, 'phone2', NEW.phone2, 'location_id', NEW.location_id, 'mk_cat_id', NEW.mk_cat_id, 'md_cat_id', NEW.md_cat_id, 'muas_cat_id', NEW.muas_cat_id, 'nrt_cat_id', NEW.nrt_cat_id, 'field_cat_id', NEW.field_cat_id, 'medical_cat_id', NEW.medical_cat_id, 'service_cat_id', NEW.service_cat_id, 'province_id', NEW.province_id, 'state_id', NEW.state_id, 'deleted_at', NEW.deleted_at));
+
+-- Setting or clearing deleted_at is logged as a delete or restore
+CREATE TRIGGER trg_phone_record_audit_update AFTER UPDATE ON phone_record FOR EACH ROW
+  INSERT INTO audit_log (table_name, row_id, action, actor, request_id, before_values, after_values)
+  SELECT 'phone_record', NEW.record_id,
+    COALESCE(@audit_action, CASE
+      WHEN OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL THEN 'delete'
+      WHEN OLD.deleted_at IS NOT NULL AND NEW.deleted_at IS NULL THEN 'restore'
+      ELSE 'update'
+    END),
+    COALESCE(@audit_actor, CONCAT('mysql:', CURRENT_USER())), @audit_request_id,
+    JSON_OBJECT('record_id', OLD.record_id, 'rank', OLD.`rank`, 'f_name', OLD.f_name, 'l_name', OLD.l_name, 'phone', OLD.phone, 'phone1', OLD.phone1, 'phone2', OLD.phone2, 'location_id', OLD.location_id, 'mk_cat_id', OLD.mk_cat_id, 'md_cat_id', OLD.md_cat_id, 'muas_cat_id', OLD.muas_cat_id, 'nrt_cat_id', OLD.nrt_cat_id, 'field_cat_id', OLD.field_cat_id, 'medical_cat_id', OLD.medical_cat_id, 'service_cat_id', OLD.service_cat_id, 'province_id', OLD.province_id, 'state_id', OLD.state_id, 'deleted_at', OLD.deleted_at),
+    JSON_OBJECT('record_id', NEW.record_id, 'rank', NEW.`rank`, 'f_name', NEW.f_name, 'l_name', NEW.l_name, 'phone', NEW.phone, 'phone1', NEW.phone1, 'phone2', NEW.phone2, 'location_id', NEW.location_id, 'mk_cat_id', NEW.mk_cat_id, 'md_cat_id', NEW.md_cat_id, 'muas_cat_id', NEW.muas_cat_id, 'nrt_cat_id', NEW.nrt_cat_id, 'field_cat_id', NEW.field_cat_id, 'medical_cat_id', NEW.medical_cat_id, 'service_cat_id', NEW.service_cat_id, 'province_id', NEW.province_id, 'state_id', NEW.state_id, 'deleted_at', NEW.deleted_at)
+  FROM DUAL
+  WHERE NOT (OLD.record_id <=> NEW.record_id AND OLD.`rank` <=> NEW.`rank` AND OLD.f_name <=> NEW.f_name AND OLD.l_name <=> NEW.l_name AND OLD.phone <=> NEW.phone AND OLD.phone1 <=> NEW.phone1 AND OLD.phone2 <=> NEW.phone2 AND OLD.location_id <=> NEW.location_id AND OLD.mk_cat_id <=> NEW.mk_cat_id AND OLD.md_cat_id <=> NEW.md_cat_id AND OLD.muas_cat_id <=> NEW.muas_cat_id AND OLD.nrt_cat_id <=> NEW.nrt_cat_id AND OLD.field_cat_id <=> NEW.field_cat_id AND OLD.medical_cat_id <=> NEW.medical_cat_id AND OLD.service_cat_id <=> NEW.service_cat_id AND OLD.province_id <=> NEW.province_id AND OLD.state_id <=> NEW.state_id AND OLD.deleted_at <=> NEW.deleted_at);
+
+CREATE TRIGGER trg_phone_record_audit_delete AFTER DELETE ON phone_record FOR EACH ROW
+  INSERT INTO audit_log (table_name, row_id, action, actor, request_id, before_values, after_values)
+  VALUES ('phone_record', OLD.record_id, COALESCE(@audit_action, 'delete'), COALESCE(@audit_actor, CONCAT('mysql:', CURRENT_USER())), @audit_request_id,
+    JSON_OBJECT('record_id', OLD.record_id, 'rank', OLD.`rank`, 'f_name', OLD.f_name, 'l_name', OLD.l_name, 'phone', OLD.phone, 'phone1', OLD.phone1, 'phone2', OLD.phone2, 'location_id', OLD.location_id, 'mk_cat_id', OLD.mk_cat_id, 'md_cat_id', OLD.md_cat_id, 'muas_cat_id', OLD.muas_cat_id, 'nrt_cat_id', OLD.nrt_cat_id, 'field_cat_id', OLD.field_cat_id, 'medical_cat_id', OLD.medical_cat_id, 'service_cat_id', OLD.service_cat_id, 'province_id', OLD.province_id, 'state_id', OLD.state_id, 'deleted_at', OLD.deleted_at), NULL);
+
+CREATE TRIGGER trg_province_info_audit_insert AFTER INSERT ON province_info FOR EACH ROW
+  INSERT INTO audit_log (table_name, row_id, action, actor, request_id, before_values, after_values)
+  VALUES ('province_info', NEW.province_id, COALESCE(@audit_action, 'create'), COALESCE(@audit_actor, CONCAT('mysql:', CURRENT_USER())), @audit_request_id,
+    NULL, JSON_OBJECT('province_id', NEW.province_id, 'province', NEW.province));
+
+CREATE TRIGGER trg_province_info_audit_update AFTER UPDATE ON province_info FOR EACH ROW
+  INSERT INTO audit_log (table_name, row_id, action, actor, request_id, before_values, after_values)
+  SELECT 'province_info', NEW.province_id, COALESCE(@audit_action, 'update'), COALESCE(@audit_actor, CONCAT('mysql:', CURRENT_USER())), @audit_request_id,
+    JSON_OBJECT('province_id', OLD.province_id, 'province', OLD.province), JSON_OBJECT('province_id', NEW.province_id, 'province', NEW.province)
+  FROM DUAL
+  WHERE NOT (OLD.province_id <=> NEW.province_id AND OLD.province <=> NEW.province);
+
+CREATE TRIGGER trg_province_info_audit_delete AFTER DELETE ON province_info FOR EACH ROW
+  INSERT INTO audit_log (table_name, row_id, action, actor, request_id, before_values, after_values)
+  VALUES ('province_info', OLD.province_id, COALESCE(@audit_action, 'delete'), COALESCE(@audit_actor, CONCAT('mysql:', CURRENT_USER())), @audit_request_id,
+    JSON_OBJECT('province_id', OLD.province_id, 'province', OLD.province), NULL);
+
+CREATE TRIGGER trg_state_info_audit_insert AFTER INSERT ON state_info FOR EACH ROW
+  INSERT INTO audit_log (table_name, row_id, action, actor, request_id, before_values, after_values)
+  VALUES ('state_info', NEW.state_id, COALESCE(@audit_action, 'create'), COALESCE(@audit_actor, CONCAT('mysql:', CURRENT_USER())), @audit_request_id,
+    NULL, JSON_OBJECT('state_id', NEW.state_id, 'state_name', NEW.state_name));
+
+CREATE TRIGGER trg_state_info_audit_update AFTER UPDATE ON state_info FOR EACH ROW
+  INSERT INTO audit_log (table_name, row_id, action, actor, request_id, before_values, after_values)
+  SELECT 'state_info', NEW.state_id, COALESCE(@audit_action, 'update'), COALESCE(@audit_actor, CONCAT('mysql:', CURRENT_USER())), @audit_request_id,
+    JSON_OBJECT('state_id', OLD.state_id, 'state_name', OLD.state_name), JSON_OBJECT('state_id', NEW.state_id, 'state_name', NEW.state_name)
+  FROM DUAL
+  WHERE NOT (OLD.state_id <=> NEW.state_id AND OLD.state_name <=> NEW.state_name);
+
+CREATE TRIGGER trg_state_info_audit_delete AFTER DELETE ON state_info FOR EACH ROW
+  INSERT INTO audit_log (table_name, row_id, action, actor, request_id, before_values, after_values)
+  VALUES ('state_info', OLD.state_id, COALESCE(@audit_action, 'delete'), COALESCE(@audit_actor, CONCAT('mysql:', CURRENT_USER())), @audit_request_id,
+    JSON_OBJECT('state_id', OLD.state_id, 'state_name', OLD.state_name), NULL);
+
+CREATE TRIGGER trg_location_audit_insert AFTER INSERT ON location FOR EACH ROW
+  INSERT INTO audit_log (table_name, row_id, action, actor, request_id, before_values, after_values)
+  VALUES ('location', NEW.location_id, COALESCE(@audit_action, 'create'), COALESCE(@audit_actor, CONCAT('mysql:', CURRENT_USER())), @audit_request_id,
+    NULL, JSON_OBJECT('location_id', NEW.location_id, 'location', NEW.location));
+
+CREATE TRIGGER trg_location_audit_update AFTER UPDATE ON location FOR EACH ROW
+  INSERT INTO audit_log (table_name, row_id, action, actor, request_id, before_values, after_values)
+  SELECT 'location', NEW.location_id, COALESCE(@audit_action, 'update'), COALESCE(@audit_actor, CONCAT('mysql:', CURRENT_USER())), @audit_request_id,
+    JSON_OBJECT('location_id', OLD.location_id, 'location', OLD.location), JSON_OBJECT('location_id', NEW.location_id, 'location', NEW.location)
+  FROM DUAL
+  WHERE NOT (OLD.location_id <=> NEW.location_id AND OLD.location <=> NEW.location);
+
+CREATE TRIGGER trg_location_audit_delete AFTER DELETE ON location FOR EACH ROW
+  INSERT INTO audit_log (table_name, row_id, action, actor, request_id, before_values, after_values)
+  VALUES ('location', OLD.location_id, COALESCE(@audit_action, 'delete'), COALESCE(@audit_actor, CONCAT('mysql:', CURRENT_USER())), @audit_request_id,
+    JSON_OBJECT('location_id', OLD.location_id, 'location', OLD.location), NULL);
+
+CREATE TRIGGER trg_mk_cat_info_audit_insert AFTER INSERT ON mk_cat_info FOR EACH ROW
+  INSERT INTO audit_log (table_name, row_id, action, actor, request_id, before_values, after_values)
+  VALUES ('mk_cat_info', NEW.mk_cat_id, COALESCE(@audit_action, 'create'), COALESCE(@audit_actor, CONCAT('mysql:', CURRENT_USER())), @audit_request_id,
+    NULL, JSON_OBJECT('mk_cat_id', NEW.mk_cat_id, 'mk_category', NEW.mk_category));
+
+CREATE TRIGGER trg_mk_cat_info_audit_update AFTER UPDATE ON mk_cat_info FOR EACH ROW
+  INSERT INTO audit_log (table_name, row_id, action, actor, request_id, before_values, after_values)
+  SELECT 'mk_cat_info', NEW.mk_cat_id, COALESCE(@audit_action, 'update'), COALESCE(@audit_actor, CONCAT('mysql:', CURRENT_USER())), @audit_request_id,
+    JSON_OBJECT('mk_cat_id', OLD.mk_cat_id, 'mk_category', OLD.mk_category), JSON_OBJECT('mk_cat_id', NEW.mk_cat_id, 'mk_category', NEW.mk_category)
+  FROM DUAL
+  WHERE NOT (OLD.mk_cat_id <=> NEW.mk_cat_id AND OLD.mk_category <=> NEW.mk_category);
+
+CREATE TRIGGER trg_mk_cat_info_audit_delete AFTER DELETE ON mk_cat_info FOR EACH ROW
+  INSERT INTO audit_log (table_name, row_id, action, actor, request_id, before_values, after_values)
+  VALUES ('mk_cat_info', OLD.mk_cat_id, COALESCE(@audit_action, 'delete'), COALESCE(@audit_actor, CONCAT('mysql:', CURRENT_USER())), @audit_request_id,
+    JSON_OBJECT('mk_cat_id', OLD.mk_cat_id, 'mk_category', OLD.mk_category), NULL);
+
+CREATE TRIGGER trg_md_cat_info_audit_insert AFTER INSERT ON md_cat_info FOR EACH ROW
+  INSERT INTO audit_log (table_name, row_id, action, actor, request_id, before_values, after_values)
+  VALUES ('md_cat_info', NEW.md_cat_id, COALESCE(@audit_action, 'create'), COALESCE(@audit_actor, CONCAT('mysql:', CURRENT_USER())), @audit_request_id,
+    NULL, JSON_OBJECT('md_cat_id', NEW.md_cat_id, 'md_category', NEW.md_category));
+
+CREATE TRIGGER trg_md_cat_info_audit_update AFTER UPDATE ON md_cat_info FOR EACH ROW
+  INSERT INTO audit_log (table_name, row_id, action, actor, request_id, before_values, after_values)
+  SELECT 'md_cat_info', NEW.md_cat_id, COALESCE(@audit_action, 'update'), COALESCE(@audit_actor, CONCAT('mysql:', CURRENT_USER())), @audit_request_id,
+    JSON_OBJECT('md_cat_id', OLD.md_cat_id, 'md_category', OLD.md_category), JSON_OBJECT('md_cat_id', NEW.md_cat_id, 'md_category', NEW.md_category)
+  FROM DUAL
+  WHERE NOT (OLD.md_cat_id <=> NEW.md_cat_id AND OLD.md_category <=> NEW.md_category);
+
+CREATE TRIGGER trg_md_cat_info_audit_delete AFTER DELETE ON md_cat_info FOR EACH ROW
+  INSERT INTO audit_log (table_name, row_id, action, actor, request_id, before_values, after_values)
+  VALUES ('md_cat_info', OLD.md_cat_id, COALESCE(@audit_action, 'delete'), COALESCE(@audit_actor, CONCAT('mysql:', CURRENT_USER())), @audit_request_id,
+    JSON_OBJECT('md_cat_id', OLD.md_cat_id, 'md_category', OLD.md_category), NULL);
+
+CREATE TRIGGER trg_muas_cat_info_audit_insert AFTER INSERT ON muas_cat_info FOR EACH ROW
+  INSERT INTO audit_log (table_name, row_id, action, actor, request_id, before_values, after_values)
+  VALUES ('muas_cat_info', NEW.muas_cat_id, COALESCE(@audit_action, 'create'), COALESCE(@audit_actor, CONCAT('mysql:', CURRENT_USER())), @audit_request_id,
+    NULL, JSON_OBJECT('muas_cat_id', NEW.muas_cat_id, 'muas_category', NEW.muas_category));
+
+CREATE TRIGGER trg_muas_cat_info_audit_update AFTER UPDATE ON muas_cat_info FOR EACH ROW
+  INSERT INTO audit_log (table_name, row_id, action, actor, request_id, before_values, after_values)
+  SELECT 'muas_cat_info', NEW.muas_cat_id, COALESCE(@audit_action, 'update'), COALESCE(@audit_actor, CONCAT('mysql:', CURRENT_USER())), @audit_request_id,
+    JSON_OBJECT('muas_cat_id', OLD.muas_cat_id, 'muas_category', OLD.muas_category), JSON_OBJECT('muas_cat_id', NEW.muas_cat_id, 'muas_category', NEW.muas_category)
+  FROM DUAL
+  WHERE NOT (OLD.muas_cat_id <=> NEW.muas_cat_id AND OLD.muas_category <=> NEW.muas_category);
+
+CREATE TRIGGER trg_muas_cat_info_audit_delete AFTER DELETE ON muas_cat_info FOR EACH ROW
+  INSERT INTO audit_log (table_name, row_id, action, actor, request_id, before_values, after_values)
+  VALUES ('muas_cat_info', OLD.muas_cat_id, COALESCE(@audit_action, 'delete'), COALESCE(@audit_actor, CONCAT('mysql:', CURRENT_USER())), @audit_request_id,
+    JSON_OBJECT('muas_cat_id', OLD.muas_cat_id, 'muas_category', OLD.muas_category), NULL);
+
+CREATE TRIGGER trg_nrt_cat_info_audit_insert AFTER INSERT ON nrt_cat_info FOR EACH ROW
+  INSERT INTO audit_log (table_name, row_id, action, actor, request_id, before_values, after_values)
+  VALUES ('nrt_cat_info', NEW.nrt_cat_id, COALESCE(@audit_action, 'create'), COALESCE(@audit_actor, CONCAT('mysql:', CURRENT_USER())), @audit_request_id,
+    NULL, JSON_OBJECT('nrt_cat_id', NEW.nrt_cat_id, 'nrt_category', NEW.nrt_category));
+
+CREATE TRIGGER trg_nrt_cat_info_audit_update AFTER UPDATE ON nrt_cat_info FOR EACH ROW
+  INSERT INTO audit_log (table_name, row_id, action, actor, request_id, before_values, after_values)
+  SELECT 'nrt_cat_info', NEW.nrt_cat_id, COALESCE(@audit_action, 'update'), COALESCE(@audit_actor, CONCAT('mysql:', CURRENT_USER())), @audit_request_id,
+    JSON_OBJECT('nrt_cat_id', OLD.nrt_cat_id, 'nrt_category', OLD.nrt_category), JSON_OBJECT('nrt_cat_id', NEW.nrt_cat_id, 'nrt_category', NEW.nrt_category)
+  FROM DUAL
+  WHERE NOT (OLD.nrt_cat_id <=> NEW.nrt_cat_id AND OLD.nrt_category <=> NEW.nrt_category);
+
+CREATE TRIGGER trg_nrt_cat_info_audit_delete AFTER DELETE ON nrt_cat_info FOR EACH ROW
+  INSERT INTO audit_log (table_name, row_id, action, actor, request_id, before_values, after_values)
+  VALUES ('nrt_cat_info', OLD.nrt_cat_id, COALESCE(@audit_action, 'delete'), COALESCE(@audit_actor, CONCAT('mysql:', CURRENT_USER())), @audit_request_id,
+    JSON_OBJECT('nrt_cat_id', OLD.nrt_cat_id, 'nrt_category', OLD.nrt_category), NULL);
+
+CREATE TRIGGER trg_field_cat_info_audit_insert AFTER INSERT ON field_cat_info FOR EACH ROW
+  INSERT INTO audit_log (table_name, row_id, action, actor, request_id, before_values, after_values)
+  VALUES ('field_cat_info', NEW.field_cat_id, COALESCE(@audit_action, 'create'), COALESCE(@audit_actor, CONCAT('mysql:', CURRENT_USER())), @audit_request_id,
+    NULL, JSON_OBJECT('field_cat_id', NEW.field_cat_id, 'field_category', NEW.field_category));
+
+CREATE TRIGGER trg_field_cat_info_audit_update AFTER UPDATE ON field_cat_info FOR EACH ROW
+  INSERT INTO audit_log (table_name, row_id, action, actor, request_id, before_values, after_values)
+  SELECT 'field_cat_info', NEW.field_cat_id, COALESCE(@audit_action, 'update'), COALESCE(@audit_actor, CONCAT('mysql:', CURRENT_USER())), @audit_request_id,
+    JSON_OBJECT('field_cat_id', OLD.field_cat_id, 'field_category', OLD.field_category), JSON_OBJECT('field_cat_id', NEW.field_cat_id, 'field_category', NEW.field_category)
+  FROM DUAL
+  WHERE NOT (OLD.field_cat_id <=> NEW.field_cat_id AND OLD.field_category <=> NEW.field_category);
+
+CREATE TRIGGER trg_field_cat_info_audit_delete AFTER DELETE ON field_cat_info FOR EACH ROW
+  INSERT INTO audit_log (table_name, row_id, action, actor, request_id, before_values, after_values)
+  VALUES ('field_cat_info', OLD.field_cat_id, COALESCE(@audit_action, 'delete'), COALESCE(@audit_actor, CONCAT('mysql:', CURRENT_USER())), @audit_request_id,
+    JSON_OBJECT('field_cat_id', OLD.field_cat_id, 'field_category', OLD.field_category), NULL);
+
+CREATE TRIGGER trg_medical_cat_info_audit_insert AFTER INSERT ON medical_cat_info FOR EACH ROW
+  INSERT INTO audit_log (table_name, row_id, action, actor, request_id, before_values, after_values)
+  VALUES ('medical_cat_info', NEW.medical_cat_id, COALESCE(@audit_action, 'create'), COALESCE(@audit_actor, CONCAT('mysql:', CURRENT_USER())), @audit_request_id,
+    NULL, JSON_OBJECT('medical_cat_id', NEW.medical_cat_id, 'medical_category', NEW.medical_category));
+
+CREATE TRIGGER trg_medical_cat_info_audit_update AFTER UPDATE ON medical_cat_info FOR EACH ROW
+  INSERT INTO audit_log (table_name, row_id, action, actor, request_id, before_values, after_values)
+  SELECT 'medical_cat_info', NEW.medical_cat_id, COALESCE(@audit_action, 'update'), COALESCE(@audit_actor, CONCAT('mysql:', CURRENT_USER())), @audit_request_id,
+    JSON_OBJECT('medical_cat_id', OLD.medical_cat_id, 'medical_category', OLD.medical_category), JSON_OBJECT('medical_cat_id', NEW.medical_cat_id, 'medical_category', NEW.medical_category)
+  FROM DUAL
+  WHERE NOT (OLD.medical_cat_id <=> NEW.medical_cat_id AND OLD.medical_category <=> NEW.medical_category);
+
+CREATE TRIGGER trg_medical_cat_info_audit_delete AFTER DELETE ON medical_cat_info FOR EACH ROW
+  INSERT INTO audit_log (table_name, row_id, action, actor, request_id, before_values, after_values)
+  VALUES ('medical_cat_info', OLD.medical_cat_id, COALESCE(@audit_action, 'delete'), COALESCE(@audit_actor, CONCAT('mysql:', CURRENT_USER())), @audit_request_id,
+    JSON_OBJECT('medical_cat_id', OLD.medical_cat_id, 'medical_category', OLD.medical_category), NULL);
+
+CREATE TRIGGER trg_service_cat_info_audit_insert AFTER INSERT ON service_cat_info FOR EACH ROW
+  INSERT INTO audit_log (table_name, row_id, action, actor, request_id, before_values, after_values)
+  VALUES ('service_cat_info', NEW.service_cat_id, COALESCE(@audit_action, 'create'), COALESCE(@audit_actor, CONCAT('mysql:', CURRENT_USER())), @audit_request_id,
+    NULL, JSON_OBJECT('service_cat_id', NEW.service_cat_id, 'service_category', NEW.service_category));
+
+CREATE TRIGGER trg_service_cat_info_audit_update AFTER UPDATE ON service_cat_info FOR EACH ROW
+  INSERT INTO audit_log (table_name, row_id, action, actor, request_id, before_values, after_values)
+  SELECT 'service_cat_info', NEW.service_cat_id, COALESCE(@audit_action, 'update'), COALESCE(@audit_actor, CONCAT('mysql:', CURRENT_USER())), @audit_request_id,
+    JSON_OBJECT('service_cat_id', OLD.service_cat_id, 'service_category', OLD.service_category), JSON_OBJECT('service_cat_id', NEW.service_cat_id, 'service_category', NEW.service_category)
+  FROM DUAL
+  WHERE NOT (OLD.service_cat_id <=> NEW.service_cat_id AND OLD.service_category <=> NEW.service_category);
+
+CREATE TRIGGER trg_service_cat_info_audit_delete AFTER DELETE ON service_cat_info FOR EACH ROW
+  INSERT INTO audit_log (table_name, row_id, action, actor, request_id, before_values, after_values)
+  VALUES ('service_cat_info', OLD.service_cat_id, COALESCE(@audit_action, 'delete'), COALESCE(@audit_actor, CONCAT('mysql:', CURRENT_USER())), @audit_request_id,
+    JSON_OBJECT('service_cat_id', OLD.service_cat_id, 'service_category', OLD.service_category), NULL);
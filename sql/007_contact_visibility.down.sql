@@ -0,0 +1,34 @@
+-- Back to the audit triggers of 006, which don't know the columns
+DROP TRIGGER IF EXISTS trg_phone_record_audit_insert;
+DROP TRIGGER IF EXISTS trg_phone_record_audit_update;
+DROP TRIGGER IF EXISTS trg_phone_record_audit_delete;
+
+CREATE TRIGGER trg_phone_record_audit_insert AFTER INSERT ON phone_record FOR EACH ROW
+  INSERT INTO audit_log (table_name, row_id, action, actor, request_id, before_values, after_values)
+  VALUES ('phone_record', NEW.record_id, COALESCE(@audit_action, 'create'), COALESCE(@audit_actor, CONCAT('mysql:', CURRENT_USER())), @audit_request_id,
+    NULL, JSON_OBJECT('record_id', NEW.record_id, 'rank', NEW.`rank`, 'f_name', NEW.f_name, 'l_name', NEW.l_name, 'phone', NEW.phone, 'phone1', NEW.phone1, 'phone2', NEW.phone2, 'location_id', NEW.location_id, 'mk_cat_id', NEW.mk_cat_id, 'md_cat_id', NEW.md_cat_id, 'muas_cat_id', NEW.muas_cat_id, 'nrt_cat_id', NEW.nrt_cat_id, 'field_cat_id', NEW.field_cat_id, 'medical_cat_id', NEW.medical_cat_id, 'service_cat_id', NEW.service_cat_id, 'province_id', NEW.province_id, 'state_id', NEW.state_id, 'deleted_at', NEW.deleted_at));
+
+-- Setting or clearing deleted_at is logged as a delete or restore
+CREATE TRIGGER trg_phone_record_audit_update AFTER UPDATE ON phone_record FOR EACH ROW
+  INSERT INTO audit_log (table_name, row_id, action, actor, request_id, before_values, after_values)
+  SELECT 'phone_record', NEW.record_id,
+    COALESCE(@audit_action, CASE
+      WHEN OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL THEN 'delete'
+      WHEN OLD.deleted_at IS NOT NULL AND NEW.deleted_at IS NULL THEN 'restore'
+      ELSE 'update'
+    END),
+    COALESCE(@audit_actor, CONCAT('mysql:', CURRENT_USER())), @audit_request_id,
+    JSON_OBJECT('record_id', OLD.record_id, 'rank', OLD.`rank`, 'f_name', OLD.f_name, 'l_name', OLD.l_name, 'phone', OLD.phone, 'phone1', OLD.phone1, 'phone2', OLD.phone2, 'location_id', OLD.location_id, 'mk_cat_id', OLD.mk_cat_id, 'md_cat_id', OLD.md_cat_id, 'muas_cat_id', OLD.muas_cat_id, 'nrt_cat_id', OLD.nrt_cat_id, 'field_cat_id', OLD.field_cat_id, 'medical_cat_id', OLD.medical_cat_id, 'service_cat_id', OLD.service_cat_id, 'province_id', OLD.province_id, 'state_id', OLD.state_id, 'deleted_at', OLD.deleted_at),
+    JSON_OBJECT('record_id', NEW.record_id, 'rank', NEW.`rank`, 'f_name', NEW.f_name, 'l_name', NEW.l_name, 'phone', NEW.phone, 'phone1', NEW.phone1, 'phone2', NEW.phone2, 'location_id', NEW.location_id, 'mk_cat_id', NEW.mk_cat_id, 'md_cat_id', NEW.md_cat_id, 'muas_cat_id', NEW.muas_cat_id, 'nrt_cat_id', NEW.nrt_cat_id, 'field_cat_id', NEW.field_cat_id, 'medical_cat_id', NEW.medical_cat_id, 'service_cat_id', NEW.service_cat_id, 'province_id', NEW.province_id, 'state_id', NEW.state_id, 'deleted_at', NEW.deleted_at)
+  FROM DUAL
+  WHERE NOT (OLD.record_id <=> NEW.record_id AND OLD.`rank` <=> NEW.`rank` AND OLD.f_name <=> NEW.f_name AND OLD.l_name <=> NEW.l_name AND OLD.phone <=> NEW.phone AND OLD.phone1 <=> NEW.phone1 AND OLD.phone2 <=> NEW.phone2 AND OLD.location_id <=> NEW.location_id AND OLD.mk_cat_id <=> NEW.mk_cat_id AND OLD.md_cat_id <=> NEW.md_cat_id AND OLD.muas_cat_id <=> NEW.muas_cat_id AND OLD.nrt_cat_id <=> NEW.nrt_cat_id AND OLD.field_cat_id <=> NEW.field_cat_id AND OLD.medical_cat_id <=> NEW.medical_cat_id AND OLD.service_cat_id <=> NEW.service_cat_id AND OLD.province_id <=> NEW.province_id AND OLD.state_id <=> NEW.state_id AND OLD.deleted_at <=> NEW.deleted_at);
+
+CREATE TRIGGER trg_phone_record_audit_delete AFTER DELETE ON phone_record FOR EACH ROW
+  INSERT INTO audit_log (table_name, row_id, action, actor, request_id, before_values, after_values)
+  VALUES ('phone_record', OLD.record_id, COALESCE(@audit_action, 'delete'), COALESCE(@audit_actor, CONCAT('mysql:', CURRENT_USER())), @audit_request_id,
+    JSON_OBJECT('record_id', OLD.record_id, 'rank', OLD.`rank`, 'f_name', OLD.f_name, 'l_name', OLD.l_name, 'phone', OLD.phone, 'phone1', OLD.phone1, 'phone2', OLD.phone2, 'location_id', OLD.location_id, 'mk_cat_id', OLD.mk_cat_id, 'md_cat_id', OLD.md_cat_id, 'muas_cat_id', OLD.muas_cat_id, 'nrt_cat_id', OLD.nrt_cat_id, 'field_cat_id', OLD.field_cat_id, 'medical_cat_id', OLD.medical_cat_id, 'service_cat_id', OLD.service_cat_id, 'province_id', OLD.province_id, 'state_id', OLD.state_id, 'deleted_at', OLD.deleted_at), NULL);
+
+ALTER TABLE phone_record
+  DROP INDEX idx_phone_record_help_desk,
+  DROP COLUMN help_desk,
+  DROP COLUMN hide_from_public;
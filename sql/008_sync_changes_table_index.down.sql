@@ -0,0 +1,2 @@
+ALTER TABLE sync_changes
+  DROP INDEX idx_sync_changes_table;
@@ -0,0 +1,4 @@
+-- The latest change of the lookup tables, which tells the reference list cache to
+-- reload (src/referenceCache.ts), without scanning the whole change log
+ALTER TABLE sync_changes
+  ADD INDEX idx_sync_changes_table (table_name, change_id);
@@ -0,0 +1,11 @@
+-- The columns become nullable again; values set to '' or 0 by the up script stay as they are
+ALTER TABLE phone_record
+  DROP INDEX idx_phone_record_name,
+  DROP INDEX idx_phone_record_rank,
+  DROP INDEX idx_phone_record_province_sort,
+  DROP INDEX idx_phone_record_state_sort,
+  MODIFY `rank` VARCHAR(100) NULL,
+  MODIFY f_name VARCHAR(100) NULL,
+  MODIFY l_name VARCHAR(100) NULL,
+  MODIFY province_id INT UNSIGNED NULL,
+  MODIFY state_id INT UNSIGNED NULL;
@@ -0,0 +1,22 @@
+-- Indexes the sorts of the contact list read in order (CONTACT_SORTS in src/repositories.ts).
+-- The sorts compare the raw columns and then record_id, so names and rank become NOT NULL
+-- ('' for none) and province and state are sorted by id (0 for none, like the *_cat_id
+-- columns) instead of by the joined name.
+UPDATE phone_record SET
+  `rank` = COALESCE(`rank`, ''),
+  f_name = COALESCE(f_name, ''),
+  l_name = COALESCE(l_name, ''),
+  province_id = COALESCE(province_id, 0),
+  state_id = COALESCE(state_id, 0)
+WHERE `rank` IS NULL OR f_name IS NULL OR l_name IS NULL OR province_id IS NULL OR state_id IS NULL;
+
+ALTER TABLE phone_record
+  MODIFY `rank` VARCHAR(100) NOT NULL DEFAULT '',
+  MODIFY f_name VARCHAR(100) NOT NULL DEFAULT '',
+  MODIFY l_name VARCHAR(100) NOT NULL DEFAULT '',
+  MODIFY province_id INT UNSIGNED NOT NULL DEFAULT 0,
+  MODIFY state_id INT UNSIGNED NOT NULL DEFAULT 0,
+  ADD INDEX idx_phone_record_name (f_name, l_name, record_id),
+  ADD INDEX idx_phone_record_rank (`rank`, record_id),
+  ADD INDEX idx_phone_record_province_sort (province_id, record_id),
+  ADD INDEX idx_phone_record_state_sort (state_id, record_id);
@@ -0,0 +1,70 @@
+import request from 'supertest';
+import app from './server';
+import { authHeader, loadFixture } from './test/helpers';
+
+beforeEach(async () => {
+  await loadFixture();
+});
+
+describe('GET /api/contacts/:id/history', () => {
+  it('lists the changes to a contact, newest first, with who made them', async () => {
+    await request(app).patch('/api/contacts/3').set(authHeader('editor')).send({ rank: 'Director' });
+    await request(app).delete('/api/contacts/3').set(authHeader('editor'));
+
+    const res = await request(app).get('/api/contacts/3/history').set(authHeader('editor'));
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.map((entry: { action: string }) => entry.action)).toEqual(['delete', 'update']);
+    expect(res.body.data[1]).toMatchObject({
+      table: 'phone_record',
+      recordId: 3,
+      actor: 'user:test-editor',
+      changes: [{ field: 'rank', before: 'Assistant Director', after: 'Director' }]
+    });
+  });
+
+  it('includes the history of records merged into the contact', async () => {
+    await request(app)
+      .post('/api/contacts/merge')
+      .set(authHeader('editor'))
+      .send({ survivorId: 2, mergeIds: [12], fields: { name: 12 } });
+
+    const res = await request(app).get('/api/contacts/2/history').set(authHeader('editor'));
+
+    expect(res.body.data.map((entry: { recordId: number; action: string }) => [entry.recordId, entry.action]))
+      .toEqual(expect.arrayContaining([[2, 'merge'], [12, 'merge']]));
+  });
+
+  it('returns a 404 for a contact without history', async () => {
+    const res = await request(app).get('/api/contacts/1/history').set(authHeader('editor'));
+
+    expect(res.status).toBe(404);
+    expect(res.body).toEqual({ success: false, error: 'No history for this contact' });
+  });
+});
+
+describe('GET /api/audit', () => {
+  it('filters the audit log', async () => {
+    const created = await request(app)
+      .post('/api/contacts')
+      .set(authHeader('editor'))
+      .send({ name: 'Maryam Idris', phone: '08031234599' });
+    await request(app).patch('/api/contacts/1').set(authHeader('admin')).send({ rank: 'Chairman' });
+
+    const all = await request(app).get('/api/audit').set(authHeader('editor'));
+    const creates = await request(app).get('/api/audit').query({ action: 'create' }).set(authHeader('editor'));
+    const byAdmin = await request(app).get('/api/audit').query({ actor: 'user:test-admin' }).set(authHeader('editor'));
+
+    expect(all.body.pagination.total).toBe(2);
+    expect(creates.body.data).toEqual([
+      expect.objectContaining({ recordId: Number(created.body.data.id), requestId: created.headers['x-request-id'] })
+    ]);
+    expect(byAdmin.body.data).toEqual([expect.objectContaining({ recordId: 1, action: 'update' })]);
+  });
+
+  it('rejects dates it cannot read', async () => {
+    const res = await request(app).get('/api/audit').query({ from: 'last tuesday' }).set(authHeader('editor'));
+
+    expect(res.status).toBe(400);
+  });
+});
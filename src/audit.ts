@@ -0,0 +1,157 @@
+import { Router, Request, Response } from 'express';
+import { requireRole } from './auth';
+import { CATEGORY_GROUPS } from './categories';
+import { validate } from './validation';
+// For the req.requestId declaration, when loaded without the server (e.g. by the CLI)
+import './requestId';
+import { AuditFilters, repositories } from './repositories';
+
+// Audit trail of changes to contacts and the lookup tables. The entries are written by
+// triggers (sql/006_audit_log.sql); the API only tells them who is making the change.
+// The in-memory backend writes the same entries itself.
+
+export const AUDITED_TABLES = [
+  'phone_record',
+  'province_info',
+  'state_info',
+  ...CATEGORY_GROUPS.map(info => info.table)
+];
+
+// Actions the triggers can't tell apart from a plain create or update
+export type AuditAction = 'merge' | 'import';
+
+export interface AuditContext {
+  actor: string;
+  requestId: string | null;
+  action?: AuditAction;
+}
+
+export interface AuditEntry {
+  id: string;
+  table: string;
+  recordId: number;
+  action: string;
+  actor: string;
+  requestId: string | null;
+  at: string;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  changes: { field: string; before: unknown; after: unknown }[];
+}
+
+// The caller of a request as logged in the audit trail, e.g. user:amina or api_key:mobile-app
+export function auditContext(req: Request, action?: AuditAction): AuditContext {
+  return {
+    actor: req.auth ? `${req.auth.type}:${req.auth.name}` : 'anonymous',
+    requestId: req.requestId || null,
+    ...(action ? { action } : {})
+  };
+}
+
+function rowToAuditEntry(row: any): AuditEntry {
+  const before = row.before_values || null;
+  const after = row.after_values || null;
+  const fields = Array.from(new Set([...Object.keys(before || {}), ...Object.keys(after || {})]));
+
+  return {
+    id: String(row.audit_id),
+    table: row.table_name,
+    recordId: row.row_id,
+    action: row.action,
+    actor: row.actor,
+    requestId: row.request_id,
+    at: new Date(row.created_at).toISOString(),
+    before,
+    after,
+    changes: fields
+      .filter(field => JSON.stringify(before?.[field] ?? null) !== JSON.stringify(after?.[field] ?? null))
+      .map(field => ({ field, before: before?.[field] ?? null, after: after?.[field] ?? null }))
+  };
+}
+
+function parseDateParam(value: unknown): Date | null | undefined {
+  if (value === undefined || value === '') return undefined;
+  const date = new Date(value as string);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+export const auditRouter = Router();
+
+// Search the audit trail, newest first
+auditRouter.get('/api/audit', requireRole('editor'), validate('GET /api/audit'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { table, recordId, actor, action, requestId } = req.query as Record<string, string | undefined>;
+    const from = parseDateParam(req.query.from);
+    const to = parseDateParam(req.query.to);
+
+    if (from === null || to === null) {
+      res.status(400).json({
+        success: false,
+        error: 'from and to must be dates, e.g. 2024-05-01 or 2024-05-01T12:00:00Z'
+      });
+      return;
+    }
+
+    const filters: AuditFilters = {
+      ...(table !== undefined ? { table } : {}),
+      ...(recordId !== undefined ? { recordId: Number(recordId) } : {}),
+      ...(from ? { from } : {}),
+      ...(to ? { to } : {}),
+      ...(actor ? { actor } : {}),
+      ...(action ? { action } : {}),
+      ...(requestId ? { requestId } : {})
+    };
+
+    const limit = Number(req.query.limit);
+    const offset = Number(req.query.offset);
+    const { rows, total } = await repositories().audit.search(filters, limit, offset);
+
+    res.json({
+      success: true,
+      data: rows.map(rowToAuditEntry),
+      pagination: {
+        total,
+        limit,
+        offset,
+        hasMore: offset + limit < total
+      }
+    });
+
+  } catch (error) {
+    req.log.error('Error fetching audit log', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+});
+
+// Change history of one contact, newest first, including records merged into it
+auditRouter.get('/api/contacts/:id/history', requireRole('editor'), validate('GET /api/contacts/:id/history'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const contactId = Number(req.params.id);
+
+    const recordIds = [contactId, ...(await repositories().contacts.findMergedIds(contactId))];
+    const rows = await repositories().audit.history(recordIds);
+
+    if (rows.length === 0) {
+      res.status(404).json({
+        success: false,
+        error: 'No history for this contact'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: rows.map(rowToAuditEntry)
+    });
+
+  } catch (error) {
+    req.log.error('Error fetching contact history', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+});
@@ -0,0 +1,138 @@
+import request from 'supertest';
+import app from './server';
+import { authHeader, loadFixture } from './test/helpers';
+
+beforeEach(async () => {
+  await loadFixture();
+});
+
+describe('POST /api/auth/login', () => {
+  it('issues a token that authenticates later requests', async () => {
+    const login = await request(app).post('/api/auth/login').send({ username: 'editor', password: 'editor-password' });
+
+    expect(login.status).toBe(200);
+    expect(login.body.data.user).toMatchObject({ username: 'editor', role: 'editor' });
+
+    const me = await request(app).get('/api/auth/me').set('Authorization', `Bearer ${login.body.data.token}`);
+    expect(me.status).toBe(200);
+    expect(me.body.data).toMatchObject({ type: 'user', name: 'editor', role: 'editor' });
+  });
+
+  it.each([
+    ['a wrong password', { username: 'editor', password: 'wrong-password' }],
+    ['an unknown user', { username: 'nobody', password: 'editor-password' }]
+  ])('rejects %s', async (_case, body) => {
+    const res = await request(app).post('/api/auth/login').send(body);
+
+    expect(res.status).toBe(401);
+    expect(res.body).toEqual({ success: false, error: 'Invalid username or password' });
+  });
+
+  it('requires a username and password', async () => {
+    const res = await request(app).post('/api/auth/login').send({ username: 'editor' });
+
+    expect(res.status).toBe(400);
+    expect(res.body.details).toEqual([{ field: 'password', message: 'password is required' }]);
+  });
+});
+
+describe('authentication', () => {
+  it('rejects a tampered token', async () => {
+    const [payload, signature] = authHeader('viewer').Authorization.slice('Bearer '.length).split('.');
+    const forged = Buffer.from(
+      JSON.stringify({ ...JSON.parse(Buffer.from(payload!, 'base64url').toString()), role: 'admin' })
+    ).toString('base64url');
+
+    const res = await request(app).get('/api/users').set('Authorization', `Bearer ${forged}.${signature}`);
+
+    expect(res.status).toBe(401);
+  });
+
+  it('rejects an unknown API key', async () => {
+    const res = await request(app).get('/api/auth/me').set('X-API-Key', 'nk_not_a_key');
+
+    expect(res.status).toBe(401);
+  });
+
+  it('identifies API key callers', async () => {
+    const res = await request(app).get('/api/auth/me').set('X-API-Key', 'nk_dev_mobile_app_key');
+
+    expect(res.body.data).toMatchObject({ type: 'api_key', name: 'mobile-app-dev', role: 'viewer' });
+  });
+});
+
+describe('/api/users', () => {
+  it('creates users that can log in', async () => {
+    const created = await request(app)
+      .post('/api/users')
+      .set(authHeader('admin'))
+      .send({ username: 'new.editor', password: 'a-long-password', role: 'editor' });
+
+    expect(created.status).toBe(201);
+    expect(created.body.data).toMatchObject({ username: 'new.editor', role: 'editor' });
+
+    const login = await request(app).post('/api/auth/login').send({ username: 'new.editor', password: 'a-long-password' });
+    expect(login.status).toBe(200);
+
+    const users = await request(app).get('/api/users').set(authHeader('admin'));
+    expect(users.body.data.map((user: { username: string }) => user.username)).toContain('new.editor');
+    expect(JSON.stringify(users.body.data)).not.toContain('password');
+  });
+
+  it('rejects a username that is taken', async () => {
+    const res = await request(app)
+      .post('/api/users')
+      .set(authHeader('admin'))
+      .send({ username: 'viewer', password: 'a-long-password', role: 'viewer' });
+
+    expect(res.status).toBe(409);
+    expect(res.body).toEqual({ success: false, error: 'Username already exists' });
+  });
+
+  it('rejects short passwords and unknown roles', async () => {
+    const res = await request(app)
+      .post('/api/users')
+      .set(authHeader('admin'))
+      .send({ username: 'someone', password: 'short', role: 'owner' });
+
+    expect(res.status).toBe(400);
+    expect(res.body.details.map((detail: { field: string }) => detail.field).sort()).toEqual(['password', 'role']);
+  });
+
+  it('is only for admins', async () => {
+    const res = await request(app).get('/api/users').set(authHeader('editor'));
+
+    expect(res.status).toBe(403);
+    expect(res.body.error).toBe('This action requires the admin role');
+  });
+});
+
+describe('/api/api-keys', () => {
+  it('creates keys that authenticate, until they are revoked', async () => {
+    const created = await request(app).post('/api/api-keys').set(authHeader('admin')).send({ name: 'tablet', role: 'editor' });
+
+    expect(created.status).toBe(201);
+    const { id, key } = created.body.data;
+    expect(key).toMatch(/^nk_/);
+
+    const listed = await request(app).get('/api/api-keys').set(authHeader('admin'));
+    expect(listed.body.data).toContainEqual(expect.objectContaining({ name: 'tablet', role: 'editor' }));
+    expect(JSON.stringify(listed.body.data)).not.toContain(key);
+
+    expect((await request(app).get('/api/auth/me').set('X-API-Key', key)).status).toBe(200);
+
+    const revoked = await request(app).delete(`/api/api-keys/${id}`).set(authHeader('admin'));
+    expect(revoked.status).toBe(200);
+    expect((await request(app).get('/api/auth/me').set('X-API-Key', key)).status).toBe(401);
+
+    // Already revoked
+    expect((await request(app).delete(`/api/api-keys/${id}`).set(authHeader('admin'))).status).toBe(404);
+  });
+
+  it('rejects a blank name', async () => {
+    const res = await request(app).post('/api/api-keys').set(authHeader('admin')).send({ name: '  ', role: 'viewer' });
+
+    expect(res.status).toBe(400);
+    expect(res.body.details).toEqual([{ field: 'name', message: 'name must not be blank' }]);
+  });
+});
@@ -0,0 +1,354 @@
+import crypto from 'crypto';
+import { Router, Request, Response, NextFunction } from 'express';
+import { DuplicateError, repositories } from './repositories';
+import { validate } from './validation';
+import { logger } from './logger';
+import { config } from './config';
+
+// Roles in increasing order of privilege; a role can do everything the ones before it can.
+// Pilgrims are registered members of the public; viewer and up are staff.
+export const ROLES = ['pilgrim', 'viewer', 'editor', 'admin'] as const;
+export type Role = typeof ROLES[number];
+
+export interface AuthContext {
+  type: 'user' | 'api_key';
+  id: number;
+  name: string;
+  role: Role;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      auth?: AuthContext;
+    }
+  }
+}
+
+const TOKEN_TTL_HOURS = config.auth.tokenTtlHours;
+
+// Tokens are signed with AUTH_TOKEN_SECRET. Without it a random secret is used,
+// which means every restart logs everybody out - fine for development only.
+const TOKEN_SECRET = config.auth.tokenSecret || crypto.randomBytes(32).toString('hex');
+if (!config.auth.tokenSecret) {
+  logger.warn('AUTH_TOKEN_SECRET is not set, using a random secret for this process');
+}
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (ROLES as readonly string[]).includes(value);
+}
+
+export function hasRole(actual: Role, required: Role): boolean {
+  return ROLES.indexOf(actual) >= ROLES.indexOf(required);
+}
+
+// Password hashing with scrypt, stored as scrypt$<salt>$<hash>
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(16);
+  const hash = await scrypt(password, salt);
+  return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, saltHex, hashHex] = stored.split('$');
+  if (scheme !== 'scrypt' || !saltHex || !hashHex) return false;
+  const expected = Buffer.from(hashHex, 'hex');
+  const actual = await scrypt(password, Buffer.from(saltHex, 'hex'));
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+function scrypt(password: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(password, salt, 64, (err, key) => (err ? reject(err) : resolve(key)));
+  });
+}
+
+function sign(data: string): string {
+  return crypto.createHmac('sha256', TOKEN_SECRET).update(data).digest('base64url');
+}
+
+// Issue a signed bearer token for a logged in user
+export function issueToken(userId: number, username: string, role: Role): { token: string; expiresAt: string } {
+  const exp = Date.now() + TOKEN_TTL_HOURS * 60 * 60 * 1000;
+  const payload = Buffer.from(JSON.stringify({ sub: userId, name: username, role, exp })).toString('base64url');
+  return { token: `${payload}.${sign(payload)}`, expiresAt: new Date(exp).toISOString() };
+}
+
+function verifyToken(token: string): AuthContext | null {
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    if (typeof claims.exp !== 'number' || claims.exp < Date.now() || !isRole(claims.role)) return null;
+    return { type: 'user', id: claims.sub, name: claims.name, role: claims.role };
+  } catch {
+    return null;
+  }
+}
+
+export function hashApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+async function verifyApiKey(key: string): Promise<AuthContext | null> {
+  const row = await repositories().users.findApiKey(hashApiKey(key));
+  if (!row || !isRole(row.role)) return null;
+
+  // Best effort, a failure here shouldn't reject the request
+  repositories().users.touchApiKey(row.api_key_id)
+    .catch(error => logger.warn('Failed to update api key last_used_at', { error }));
+
+  return { type: 'api_key', id: row.api_key_id, name: row.name, role: row.role };
+}
+
+// Resolve the caller from an Authorization: Bearer token or an X-API-Key header
+async function resolveAuth(req: Request): Promise<AuthContext | null> {
+  const apiKey = req.get('X-API-Key');
+  if (apiKey) {
+    return verifyApiKey(apiKey);
+  }
+
+  const header = req.get('Authorization');
+  if (header && header.startsWith('Bearer ')) {
+    return verifyToken(header.slice('Bearer '.length).trim());
+  }
+
+  return null;
+}
+
+// Middleware that authenticates the caller and requires at least the given role
+export function requireRole(role: Role) {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const auth = await resolveAuth(req);
+      if (!auth) {
+        res.status(401).json({
+          success: false,
+          error: 'Authentication required'
+        });
+        return;
+      }
+
+      if (!hasRole(auth.role, role)) {
+        res.status(403).json({
+          success: false,
+          error: `This action requires the ${role} role`
+        });
+        return;
+      }
+
+      req.auth = auth;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+// Middleware for routes anonymous callers may use too: it authenticates the caller when
+// credentials are given, and still rejects bad ones
+export function optionalAuth() {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.get('X-API-Key') && !req.get('Authorization')) {
+        next();
+        return;
+      }
+
+      const auth = await resolveAuth(req);
+      if (!auth) {
+        res.status(401).json({
+          success: false,
+          error: 'Invalid credentials'
+        });
+        return;
+      }
+
+      req.auth = auth;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+// Create a user login; used by the admin endpoint and the CLI
+export async function createUser(username: string, password: string, role: Role): Promise<number> {
+  const passwordHash = await hashPassword(password);
+  return repositories().users.createUser(username, passwordHash, role);
+}
+
+// Create an API key. The plain key is only ever returned here, only its hash is stored.
+export async function createApiKey(name: string, role: Role): Promise<{ id: number; key: string }> {
+  const key = `nk_${crypto.randomBytes(24).toString('base64url')}`;
+  const id = await repositories().users.createApiKey(name, hashApiKey(key), key.slice(0, 8), role);
+  return { id, key };
+}
+
+export const authRouter = Router();
+
+// Exchange a username and password for a bearer token
+authRouter.post('/api/auth/login', validate('POST /api/auth/login'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { username, password } = req.body;
+
+    const user = await repositories().users.findLogin(username);
+
+    if (!user || !isRole(user.role) || !(await verifyPassword(password, user.password_hash))) {
+      res.status(401).json({
+        success: false,
+        error: 'Invalid username or password'
+      });
+      return;
+    }
+
+    const { token, expiresAt } = issueToken(user.user_id, user.username, user.role);
+
+    res.json({
+      success: true,
+      data: {
+        token,
+        expiresAt,
+        user: { id: user.user_id, username: user.username, role: user.role }
+      }
+    });
+
+  } catch (error) {
+    req.log.error('Error logging in', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+});
+
+// Who am I
+authRouter.get('/api/auth/me', requireRole('pilgrim'), validate('GET /api/auth/me'), (req: Request, res: Response): void => {
+  res.json({
+    success: true,
+    data: req.auth
+  });
+});
+
+// List user logins
+authRouter.get('/api/users', requireRole('admin'), validate('GET /api/users'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    res.json({
+      success: true,
+      data: await repositories().users.listUsers()
+    });
+
+  } catch (error) {
+    req.log.error('Error fetching users', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+});
+
+// Create a user login
+authRouter.post('/api/users', requireRole('admin'), validate('POST /api/users'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { username, password, role } = req.body;
+
+    const id = await createUser(username, password, role);
+
+    res.status(201).json({
+      success: true,
+      data: { id, username, role }
+    });
+
+  } catch (error) {
+    if (error instanceof DuplicateError) {
+      res.status(409).json({
+        success: false,
+        error: 'Username already exists'
+      });
+      return;
+    }
+    req.log.error('Error creating user', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+});
+
+// List API keys (never the keys themselves)
+authRouter.get('/api/api-keys', requireRole('admin'), validate('GET /api/api-keys'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    res.json({
+      success: true,
+      data: await repositories().users.listApiKeys()
+    });
+
+  } catch (error) {
+    req.log.error('Error fetching api keys', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+});
+
+// Create an API key, e.g. for a build of the mobile app
+authRouter.post('/api/api-keys', requireRole('admin'), validate('POST /api/api-keys'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { name, role } = req.body;
+    if (!name.trim()) {
+      res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: [{ field: 'name', message: 'name must not be blank' }]
+      });
+      return;
+    }
+
+    const { id, key } = await createApiKey(name.trim(), role);
+
+    res.status(201).json({
+      success: true,
+      data: { id, name: name.trim(), role, key }
+    });
+
+  } catch (error) {
+    req.log.error('Error creating api key', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+});
+
+// Revoke an API key
+authRouter.delete('/api/api-keys/:id', requireRole('admin'), validate('DELETE /api/api-keys/:id'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const keyId = Number(req.params.id);
+
+    if (!(await repositories().users.revokeApiKey(keyId))) {
+      res.status(404).json({
+        success: false,
+        error: 'API key not found'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'API key revoked'
+    });
+
+  } catch (error) {
+    req.log.error('Error revoking api key', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+});
@@ -0,0 +1,111 @@
+import request from 'supertest';
+import app from './server';
+import { CATEGORY_GROUPS, categoryResolver, parseCategoryFilter } from './categories';
+import { rowToContact } from './contacts';
+import { authHeader, loadFixture } from './test/helpers';
+
+beforeAll(async () => {
+  await loadFixture();
+});
+
+// A phone_record row with the given *_cat_id columns set and the rest 0
+function row(categoryIds: Record<string, number>): Record<string, unknown> {
+  const columns = Object.fromEntries(CATEGORY_GROUPS.map(({ idColumn }) => [idColumn, 0]));
+  return { record_id: 1, f_name: 'Test', l_name: 'Contact', ...columns, ...categoryIds };
+}
+
+describe('categoryResolver.resolve', () => {
+  it('checks the category tables in order, the first non-zero id wins', () => {
+    // Every id set from one table on: that table must be the one used
+    CATEGORY_GROUPS.forEach(({ group }, index) => {
+      const ids = Object.fromEntries(CATEGORY_GROUPS.slice(index).map(({ idColumn }) => [idColumn, 1]));
+
+      expect(categoryResolver.resolve(row(ids))).toMatchObject({ group, id: 1 });
+    });
+  });
+
+  it('labels the contact from the table that was used', () => {
+    expect(categoryResolver.resolve(row({ location_id: 3, mk_cat_id: 1 }))).toEqual(
+      { group: 'location', id: 3, label: 'Lagos Zonal Office' }
+    );
+    expect(categoryResolver.resolve(row({ md_cat_id: 1, medical_cat_id: 2 }))).toEqual(
+      { group: 'md', id: 1, label: 'Madinah Operations' }
+    );
+    expect(categoryResolver.resolve(row({ service_cat_id: 1 }))).toEqual(
+      { group: 'service', id: 1, label: 'Service Providers Desk' }
+    );
+  });
+
+  it('falls through an id that is not in its table', () => {
+    expect(categoryResolver.resolve(row({ location_id: 99, mk_cat_id: 42, medical_cat_id: 2 }))).toEqual(
+      { group: 'medical', id: 2, label: 'Medical Team Madinah' }
+    );
+  });
+
+  it('ignores missing and negative ids', () => {
+    expect(categoryResolver.resolve({ record_id: 1, nrt_cat_id: 1 })).toMatchObject({ group: 'nrt' });
+    expect(categoryResolver.resolve(row({ location_id: -1, field_cat_id: 1 }))).toMatchObject({ group: 'field' });
+  });
+
+  it('resolves nothing when no id is known', () => {
+    expect(categoryResolver.resolve(row({}))).toBeNull();
+    expect(categoryResolver.resolve(row({ location_id: 99, service_cat_id: 99 }))).toBeNull();
+  });
+
+  it("gives 'Unknown' as the contact's location when nothing resolves", () => {
+    expect(rowToContact(row({ location_id: 99 }))).toMatchObject({
+      location: 'Unknown',
+      categoryType: null,
+      categoryId: null
+    });
+    expect(rowToContact(row({ location_id: 99, muas_cat_id: 1 }))).toMatchObject({
+      location: 'Mashair Transport',
+      categoryType: 'muas',
+      categoryId: 1
+    });
+  });
+});
+
+describe('parseCategoryFilter', () => {
+  it('parses a group, optionally with an id', () => {
+    expect(parseCategoryFilter('medical')).toMatchObject({ group: { group: 'medical' }, id: null });
+    expect(parseCategoryFilter(' MK:2 ')).toMatchObject({ group: { group: 'mk' }, id: 2 });
+  });
+
+  it.each(['canteen', 'mk:0', 'mk:-1', 'mk:2x', 'mk:1:2', ''])('rejects %p', value => {
+    expect(parseCategoryFilter(value)).toBeNull();
+  });
+});
+
+describe('GET /api/categories', () => {
+  it('lists every category by group', async () => {
+    const res = await request(app).get('/api/categories').set(authHeader('viewer'));
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toHaveLength(12);
+    expect(res.body.data[0]).toEqual({ group: 'location', id: 1, label: 'Headquarters Abuja' });
+  });
+
+  it('lists the categories of one group', async () => {
+    const res = await request(app).get('/api/categories').query({ group: 'medical' }).set(authHeader('viewer'));
+
+    expect(res.body.data.map((category: { label: string }) => category.label)).toEqual(
+      ['Medical Team Madinah', 'Medical Team Makkah']
+    );
+  });
+
+  it('refreshes the cache for admins', async () => {
+    const refreshed = await request(app).post('/api/categories/refresh').set(authHeader('admin'));
+    const stats = await request(app).get('/api/categories/stats').set(authHeader('admin'));
+
+    expect(refreshed.status).toBe(200);
+    expect(stats.status).toBe(200);
+    expect(stats.body.data.entries).toMatchObject({ location: 3, mk: 2, medical: 2 });
+  });
+
+  it('keeps the stats from editors', async () => {
+    const res = await request(app).get('/api/categories/stats').set(authHeader('editor'));
+
+    expect(res.status).toBe(403);
+  });
+});
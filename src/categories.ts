@@ -0,0 +1,233 @@
+import { Router, Request, Response } from 'express';
+import { requireRole } from './auth';
+import { validate } from './validation';
+import { logger } from './logger';
+import { categoryLookups } from './metrics';
+import { repositories } from './repositories';
+
+// A contact's location comes from one of these lookup tables. The order is the order
+// in which the *_cat_id columns of phone_record are checked: the first non-zero one wins.
+// The id column of each table is also the column that references it on phone_record.
+export const CATEGORY_GROUPS = [
+  { group: 'location', table: 'location', idColumn: 'location_id', labelColumn: 'location' },
+  { group: 'mk', table: 'mk_cat_info', idColumn: 'mk_cat_id', labelColumn: 'mk_category' },
+  { group: 'md', table: 'md_cat_info', idColumn: 'md_cat_id', labelColumn: 'md_category' },
+  { group: 'muas', table: 'muas_cat_info', idColumn: 'muas_cat_id', labelColumn: 'muas_category' },
+  { group: 'nrt', table: 'nrt_cat_info', idColumn: 'nrt_cat_id', labelColumn: 'nrt_category' },
+  { group: 'field', table: 'field_cat_info', idColumn: 'field_cat_id', labelColumn: 'field_category' },
+  { group: 'medical', table: 'medical_cat_info', idColumn: 'medical_cat_id', labelColumn: 'medical_category' },
+  { group: 'service', table: 'service_cat_info', idColumn: 'service_cat_id', labelColumn: 'service_category' }
+] as const;
+
+export type CategoryGroup = typeof CATEGORY_GROUPS[number]['group'];
+export type CategoryGroupInfo = typeof CATEGORY_GROUPS[number];
+
+export interface Category {
+  group: CategoryGroup;
+  id: number;
+  label: string;
+}
+
+export function findCategoryGroup(group: string): CategoryGroupInfo | undefined {
+  return CATEGORY_GROUPS.find(info => info.group === group);
+}
+
+// Parse a category filter: either a group ("medical") or a group and id ("medical:12")
+export function parseCategoryFilter(value: string): { group: CategoryGroupInfo; id: number | null } | null {
+  const [groupName, idPart, ...extra] = value.trim().split(':');
+  const group = findCategoryGroup((groupName || '').toLowerCase());
+  if (!group || extra.length > 0) return null;
+
+  if (idPart === undefined) return { group, id: null };
+
+  const id = parseInt(idPart, 10);
+  if (isNaN(id) || id <= 0 || String(id) !== idPart) return null;
+  return { group, id };
+}
+
+export interface CategoryResolverStats {
+  hits: number;
+  misses: number;
+  refreshes: number;
+  refreshFailures: number;
+  lastRefreshAt: string | null;
+  lastRefreshDurationMs: number | null;
+  lastRefreshError: string | null;
+  entries: Record<string, number>;
+}
+
+// Minimum time between refreshes triggered by cache misses
+const MISS_REFRESH_COOLDOWN_MS = 30 * 1000;
+
+// Keeps every lookup table in memory so contacts can be resolved without a query per row.
+// Loaded at startup, refreshed on an interval, on demand, and (throttled) after a cache miss.
+export class CategoryResolver {
+  private labels = new Map<CategoryGroup, Map<number, string>>();
+  private refreshing: Promise<void> | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private lastMissRefresh = 0;
+  private stats: Omit<CategoryResolverStats, 'entries'> = {
+    hits: 0,
+    misses: 0,
+    refreshes: 0,
+    refreshFailures: 0,
+    lastRefreshAt: null,
+    lastRefreshDurationMs: null,
+    lastRefreshError: null
+  };
+
+  // Reload all lookup tables; concurrent callers share the same refresh
+  refresh(): Promise<void> {
+    if (!this.refreshing) {
+      this.refreshing = this.load().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  private async load(): Promise<void> {
+    const started = Date.now();
+    const labels = new Map<CategoryGroup, Map<number, string>>();
+    const failures: string[] = [];
+
+    for (const info of CATEGORY_GROUPS) {
+      const { group, table } = info;
+      try {
+        const rows = await repositories().lookups.categoryLabels(info);
+        const groupLabels = new Map<number, string>();
+        rows.forEach(row => groupLabels.set(row.id, row.label));
+        labels.set(group, groupLabels);
+      } catch (tableError) {
+        // Keep serving the previous copy of a table that failed to load
+        logger.warn(`Error loading ${table}`, { error: tableError });
+        failures.push(`${table}: ${(tableError as Error).message}`);
+        labels.set(group, this.labels.get(group) || new Map());
+      }
+    }
+
+    // Swap in the new tables in one go so lookups never see a half-loaded state
+    this.labels = labels;
+    this.stats.refreshes++;
+    this.stats.lastRefreshAt = new Date().toISOString();
+    this.stats.lastRefreshDurationMs = Date.now() - started;
+    this.stats.lastRefreshError = failures.length > 0 ? failures.join('; ') : null;
+    if (failures.length > 0) {
+      this.stats.refreshFailures++;
+    }
+  }
+
+  // Refresh every intervalMs until stop() is called
+  start(intervalMs: number): void {
+    this.stop();
+    this.timer = setInterval(() => {
+      this.refresh().catch(error => logger.error('Scheduled category refresh failed', { error }));
+    }, intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Resolve the category of a phone_record row: the first non-zero *_cat_id that is known
+  resolve(row: any): Category | null {
+    let missed = false;
+
+    for (const { group, table, idColumn } of CATEGORY_GROUPS) {
+      const id = row[idColumn] || 0;
+      if (id <= 0) continue;
+
+      const label = this.labels.get(group)?.get(id);
+      if (label !== undefined) {
+        this.stats.hits++;
+        categoryLookups.inc({ table, result: 'hit' });
+        return { group, id, label };
+      }
+      categoryLookups.inc({ table, result: 'miss' });
+      missed = true;
+    }
+
+    if (missed) {
+      this.stats.misses++;
+      this.refreshAfterMiss();
+    }
+    return null;
+  }
+
+  // All cached categories, optionally for a single group, sorted by label within each group
+  list(groups: readonly CategoryGroupInfo[] = CATEGORY_GROUPS): Category[] {
+    const categories: Category[] = [];
+    for (const { group } of groups) {
+      const groupLabels = this.labels.get(group);
+      if (!groupLabels) continue;
+      const entries: Category[] = [];
+      groupLabels.forEach((label, id) => {
+        if (label) entries.push({ group, id, label });
+      });
+      categories.push(...entries.sort((a, b) => a.label.localeCompare(b.label)));
+    }
+    return categories;
+  }
+
+  getStats(): CategoryResolverStats {
+    const entries: Record<string, number> = {};
+    this.labels.forEach((groupLabels, group) => {
+      entries[group] = groupLabels.size;
+    });
+    return { ...this.stats, entries };
+  }
+
+  // A miss usually means a lookup row was added after the last refresh
+  private refreshAfterMiss(): void {
+    const now = Date.now();
+    if (now - this.lastMissRefresh < MISS_REFRESH_COOLDOWN_MS) return;
+    this.lastMissRefresh = now;
+    this.refresh().catch(error => logger.error('Category refresh after miss failed', { error }));
+  }
+}
+
+export const categoryResolver = new CategoryResolver();
+
+export const categoriesRouter = Router();
+
+// All categories across the lookup tables, typed by group
+categoriesRouter.get('/api/categories', requireRole('viewer'), validate('GET /api/categories'), (req: Request, res: Response): void => {
+  const groupParam = req.query.group as string | undefined;
+  const groups = groupParam ? CATEGORY_GROUPS.filter(info => info.group === groupParam) : CATEGORY_GROUPS;
+
+  res.json({
+    success: true,
+    data: categoryResolver.list(groups)
+  });
+});
+
+// Cache statistics of the category resolver
+categoriesRouter.get('/api/categories/stats', requireRole('admin'), validate('GET /api/categories/stats'), (req: Request, res: Response): void => {
+  res.json({
+    success: true,
+    data: categoryResolver.getStats()
+  });
+});
+
+// Reload the lookup tables now, e.g. after editing them by hand
+categoriesRouter.post('/api/categories/refresh', requireRole('admin'), validate('POST /api/categories/refresh'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    await categoryResolver.refresh();
+
+    res.json({
+      success: true,
+      data: categoryResolver.getStats()
+    });
+
+  } catch (error) {
+    req.log.error('Error refreshing categories', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+});
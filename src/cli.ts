@@ -0,0 +1,201 @@
+// Admin command line for the contacts API.
+// Usage: npm run cli -- <command> [args]
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createApiKey, createUser, isRole, ROLES } from './auth';
+import { importContacts, IMPORT_FORMATS, ImportFormat, readImportFile } from './import';
+import { baseline, migrate, migrationStatus, rollback } from './migrations';
+import { generateClientTypes } from './openapi';
+import { repositories } from './repositories';
+import { DEFAULT_SEED_OPTIONS, generateSeedData, seedDatabase } from './seed';
+
+const USAGE = `Usage:
+  create-user <username> <role>     (password is read from CLI_PASSWORD)
+  create-api-key <name> <role>
+  import <file.csv|file.xlsx> [--commit] [--allow-duplicates]
+                                    (dry run unless --commit is given)
+  generate-types [out.ts]           (TypeScript API types for the app,
+                                    default client/api-types.ts)
+
+Database (MySQL):
+  migrate [version]                 apply pending migrations from sql/, all or up to version
+  rollback [steps]                  undo the last applied migration, or the last steps
+  status                            list applied and pending migrations
+  baseline <version>                record migrations up to version as applied without
+                                    running them, for a schema set up by hand
+  seed [--contacts N] [--seed N] [--out file.json]
+                                    fill an empty database with sample data (default
+                                    ${DEFAULT_SEED_OPTIONS.contacts} contacts), or write it as a fixture for
+                                    DATA_BACKEND=memory
+
+Roles: ${ROLES.join(', ')}`;
+
+async function main(args: string[]): Promise<number> {
+  const [command, ...rest] = args;
+
+  switch (command) {
+    case 'create-user': {
+      const [username, role] = rest;
+      const password = process.env.CLI_PASSWORD;
+      if (!username || !isRole(role)) {
+        console.error(USAGE);
+        return 1;
+      }
+      if (!password || password.length < 10) {
+        console.error('Set CLI_PASSWORD to a password of at least 10 characters');
+        return 1;
+      }
+      const id = await createUser(username, password, role);
+      console.log(`Created ${role} user '${username}' (id ${id})`);
+      return 0;
+    }
+
+    case 'create-api-key': {
+      const [name, role] = rest;
+      if (!name || !isRole(role)) {
+        console.error(USAGE);
+        return 1;
+      }
+      const { id, key } = await createApiKey(name, role);
+      console.log(`Created ${role} API key '${name}' (id ${id})`);
+      console.log(`Key: ${key}`);
+      console.log('Store it now, it cannot be shown again.');
+      return 0;
+    }
+
+    case 'import': {
+      const file = rest.find(arg => !arg.startsWith('--'));
+      const format = file ? path.extname(file).slice(1).toLowerCase() : '';
+      if (!file || !IMPORT_FORMATS.includes(format as ImportFormat)) {
+        console.error(USAGE);
+        return 1;
+      }
+
+      const { rows, error } = await readImportFile(fs.readFileSync(file), format as ImportFormat);
+      if (error) {
+        console.error(error);
+        return 1;
+      }
+
+      const report = await importContacts(rows, {
+        dryRun: !rest.includes('--commit'),
+        allowDuplicates: rest.includes('--allow-duplicates'),
+        audit: { actor: `cli:${os.userInfo().username}`, requestId: null, action: 'import' }
+      });
+
+      for (const row of report.rows) {
+        if (row.status === 'ok') continue;
+        console.log(`Row ${row.row} (${row.name || 'no name'}): ${row.status}`);
+        row.errors.forEach(message => console.log(`  error: ${message}`));
+        row.duplicates.forEach(duplicate => console.log(`  duplicate: ${duplicate.reason}`));
+      }
+      for (const [field, names] of Object.entries(report.unknownNames)) {
+        if (names.length > 0) console.log(`Unknown ${field} names: ${names.join(', ')}`);
+      }
+
+      const { total, ok, errors, duplicates, imported } = report.summary;
+      console.log(`${total} rows: ${ok} ok, ${errors} with errors, ${duplicates} likely duplicates`);
+      if (report.committed) {
+        console.log(`Imported ${imported} contacts`);
+      } else if (report.dryRun) {
+        console.log('Dry run, nothing was imported. Re-run with --commit to import.');
+      } else {
+        console.log('Nothing was imported because some rows have errors.');
+      }
+      return errors > 0 ? 1 : 0;
+    }
+
+    case 'generate-types': {
+      const out = rest[0] || path.join('client', 'api-types.ts');
+      fs.mkdirSync(path.dirname(out), { recursive: true });
+      fs.writeFileSync(out, generateClientTypes());
+      console.log(`Wrote ${out}`);
+      return 0;
+    }
+
+    case 'migrate': {
+      const applied = await migrate(rest[0]);
+      applied.forEach(migration => console.log(`Applied ${migration.version}_${migration.name}`));
+      console.log(applied.length > 0 ? `Applied ${applied.length} migrations` : 'Database is up to date');
+      return 0;
+    }
+
+    case 'rollback': {
+      const steps = rest[0] === undefined ? 1 : Number(rest[0]);
+      if (!Number.isInteger(steps) || steps < 1) {
+        console.error(USAGE);
+        return 1;
+      }
+      const undone = await rollback(steps);
+      undone.forEach(migration => console.log(`Rolled back ${migration.version}_${migration.name}`));
+      if (undone.length === 0) console.log('No migrations to roll back');
+      return 0;
+    }
+
+    case 'status': {
+      const statuses = await migrationStatus();
+      for (const status of statuses) {
+        const appliedAt = status.appliedAt ? `  ${status.appliedAt.toISOString()}` : '';
+        console.log(`${status.state.padEnd(8)} ${status.version}_${status.name}${appliedAt}`);
+      }
+      const problems = statuses.filter(status => status.state === 'changed' || status.state === 'missing');
+      if (problems.length > 0) {
+        console.log('changed: edited after it was applied; missing: applied, but its file is gone');
+      }
+      return problems.length > 0 ? 1 : 0;
+    }
+
+    case 'baseline': {
+      const [version] = rest;
+      if (!version) {
+        console.error(USAGE);
+        return 1;
+      }
+      const recorded = await baseline(version);
+      recorded.forEach(migration => console.log(`Marked ${migration.version}_${migration.name} as applied`));
+      return 0;
+    }
+
+    case 'seed': {
+      const option = (name: string): string | undefined => {
+        const index = rest.indexOf(name);
+        return index >= 0 ? rest[index + 1] : undefined;
+      };
+      const contacts = Number(option('--contacts') ?? DEFAULT_SEED_OPTIONS.contacts);
+      const seed = Number(option('--seed') ?? DEFAULT_SEED_OPTIONS.seed);
+      if (!Number.isInteger(contacts) || contacts < 0 || !Number.isInteger(seed)) {
+        console.error(USAGE);
+        return 1;
+      }
+
+      const data = generateSeedData({ contacts, seed });
+      const out = option('--out');
+      if (out) {
+        fs.mkdirSync(path.dirname(out), { recursive: true });
+        fs.writeFileSync(out, JSON.stringify(data, null, 2));
+        console.log(`Wrote ${contacts} contacts to ${out}`);
+        return 0;
+      }
+
+      await seedDatabase(data, { actor: `cli:${os.userInfo().username}`, requestId: null });
+      console.log(`Seeded ${data.provinces!.length} provinces, ${data.states!.length} states and ${contacts} contacts`);
+      return 0;
+    }
+
+    default:
+      console.error(USAGE);
+      return 1;
+  }
+}
+
+main(process.argv.slice(2))
+  .catch((error) => {
+    console.error('Command failed:', error.message);
+    return 1;
+  })
+  .then(async (code) => {
+    await repositories().close();
+    process.exit(code);
+  });
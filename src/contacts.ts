@@ -0,0 +1,119 @@
+import { CATEGORY_GROUPS, CategoryGroup, categoryResolver, parseCategoryFilter } from './categories';
+import { ContactPhone, contactPhones } from './phone';
+import { ContactFilters, ContactRow, repositories } from './repositories';
+
+// The Contact shape returned by the API, built from phone_record rows
+
+export interface Contact {
+  id: string;
+  name: string;
+  location: string;
+  phone: string;
+  phone1: string;
+  phone2: string;
+  phones: ContactPhone[];
+  whatsapp: string;
+  rank: string;
+  province: string;
+  state: string;
+  categoryType: CategoryGroup | null;
+  categoryId: number | null;
+  // Who besides staff may see the contact; only staff get these (see privacy.ts)
+  hideFromPublic?: boolean;
+  helpDesk?: boolean;
+}
+
+// Transform a phone_record row (joined with province/state) into the API shape
+export function rowToContact(row: ContactRow): Contact {
+  const category = categoryResolver.resolve(row);
+
+  const fullName = `${row.f_name || ''} ${row.l_name || ''}`.trim();
+  const phones = contactPhones(row);
+  const whatsapp = phones.find(phone => phone.whatsapp);
+
+  return {
+    id: row.record_id.toString(),
+    name: fullName || 'Unknown',
+    location: category ? category.label : 'Unknown',
+    phone: phones.length > 0 ? phones[0].raw : '',
+    phone1: row.phone1 || '',
+    phone2: row.phone2 || '',
+    phones,
+    whatsapp: whatsapp ? whatsapp.e164!.slice(1) : '',
+    rank: row.rank || '',
+    province: row.province || '',
+    state: row.state_name || '',
+    categoryType: category ? category.group : null,
+    categoryId: category ? category.id : null,
+    hideFromPublic: Boolean(Number(row.hide_from_public)),
+    helpDesk: Boolean(Number(row.help_desk))
+  };
+}
+
+// Fetch a single contact by record id, optionally including soft-deleted rows
+export async function findContactById(contactId: number, includeDeleted = false): Promise<Contact | null> {
+  const row = await repositories().contacts.findById(contactId, includeDeleted);
+  return row ? rowToContact(row) : null;
+}
+
+// The filters of the contact list, as given in a query string
+export interface ContactFilterParams {
+  search?: string;
+  location?: string;
+  province?: string;
+  state?: string;
+  category?: string;
+}
+
+// The contact filters of a list or export request.
+// Returns an error message instead when a filter value is invalid.
+export function parseContactFilters(query: ContactFilterParams): ContactFilters | string {
+  const { search, location, province, state, category } = query;
+  const filters: ContactFilters = {};
+
+  if (search && search.trim()) filters.search = search;
+  if (province && province.trim()) filters.province = province;
+  if (state && state.trim()) filters.state = state;
+  if (location && location.trim()) filters.location = location;
+
+  // "medical" matches any medical category, "medical:12" just one
+  if (category && category.trim()) {
+    const parsed = parseCategoryFilter(category);
+    if (!parsed) {
+      return `category must be a group (${CATEGORY_GROUPS.map(info => info.group).join(', ')}) optionally followed by :<id>`;
+    }
+    filters.category = parsed;
+  }
+
+  return filters;
+}
+
+// Contents of an opaque pagination cursor: the sort keys and id of the row to continue from
+export interface ContactCursor {
+  sort: string;
+  keys: string[];
+  id: number;
+  direction: 'next' | 'prev';
+}
+
+export function encodeCursor(cursor: ContactCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+export function decodeCursor(token: string): ContactCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+    if (
+      typeof cursor.sort !== 'string' ||
+      !Array.isArray(cursor.keys) ||
+      !cursor.keys.every((key: unknown) => typeof key === 'string') ||
+      !Number.isInteger(cursor.id) ||
+      (cursor.direction !== 'next' && cursor.direction !== 'prev')
+    ) {
+      return null;
+    }
+    return cursor;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,52 @@
+import mysql, { ConnectionOptions } from 'mysql2/promise';
+import { config } from './config';
+import { logger } from './logger';
+import { instrumentPool } from './metrics';
+
+const { database } = config;
+
+// Connection settings shared by the pool and the one-off connections of the migrations
+export const dbConfig: ConnectionOptions = {
+  host: database.host,
+  port: database.port,
+  user: database.user,
+  password: database.password,
+  database: database.database,
+  connectTimeout: database.connectTimeoutMs,
+  ...(database.ssl ? { ssl: database.ssl } : {})
+};
+
+// Create database connection pool
+export const pool = mysql.createPool({
+  ...dbConfig,
+  connectionLimit: database.connectionLimit,
+  maxIdle: database.connectionLimit,
+  idleTimeout: database.idleTimeoutMs,
+  queueLimit: database.queueLimit
+});
+instrumentPool(pool);
+
+// Test database connection function
+export async function testDatabaseConnection() {
+  try {
+    // Where to, but not as whom: credentials stay out of the logs
+    logger.info('Testing database connection...', {
+      host: database.host,
+      port: database.port,
+      database: database.database,
+      tls: database.ssl !== null
+    });
+    const connection = await pool.getConnection();
+    logger.info('Database connected successfully');
+
+    // Test a simple query
+    await connection.execute('SELECT 1 as test');
+    logger.info('Database query test passed');
+
+    connection.release();
+    return true;
+  } catch (error: any) {
+    logger.error('Database connection failed', { error });
+    return false;
+  }
+}
@@ -0,0 +1,95 @@
+import request from 'supertest';
+import app from './server';
+import { authHeader, loadFixture } from './test/helpers';
+
+beforeEach(async () => {
+  await loadFixture();
+});
+
+describe('GET /api/directory/tree', () => {
+  it('nests states and locations in provinces with contact counts', async () => {
+    const res = await request(app).get('/api/directory/tree').set(authHeader('viewer'));
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.total).toBe(12);
+    expect(res.body.data.provinces.map((province: { name: string; count: number }) => [province.name, province.count])).toEqual([
+      ['North Central', 2], ['North East', 1], ['North West', 7], ['South West', 2]
+    ]);
+
+    const northWest = res.body.data.provinces[2];
+    expect(northWest.states.map((state: { name: string; count: number }) => [state.name, state.count])).toEqual([
+      ['Kaduna', 2], ['Kano', 4], ['Sokoto', 1]
+    ]);
+    // Locations by group, then label
+    expect(northWest.states[1].locations).toEqual([
+      { group: 'location', id: 2, label: 'Kano Zonal Office', count: 2 },
+      { group: 'muas', id: 1, label: 'Mashair Transport', count: 1 },
+      { group: 'medical', id: 2, label: 'Medical Team Madinah', count: 1 }
+    ]);
+  });
+
+  it('collects contacts without a known province or category under Unknown', async () => {
+    await request(app).post('/api/contacts').set(authHeader('editor')).send({ name: 'Maryam Idris', phone: '08031234599' });
+
+    const res = await request(app).get('/api/directory/tree').set(authHeader('viewer'));
+
+    expect(res.body.data.provinces[4]).toEqual({
+      id: null,
+      name: 'Unknown',
+      count: 1,
+      states: [{ id: null, name: 'Unknown', count: 1, locations: [{ group: null, id: null, label: 'Unknown', count: 1 }] }]
+    });
+  });
+});
+
+describe('GET /api/provinces/:id/states', () => {
+  it('lists the states of a province', async () => {
+    const res = await request(app).get('/api/provinces/4/states').set(authHeader('viewer'));
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toEqual([{
+      id: 6,
+      name: 'Lagos',
+      count: 2,
+      locations: [
+        { group: 'medical', id: 1, label: 'Medical Team Makkah', count: 1 },
+        { group: 'service', id: 1, label: 'Service Providers Desk', count: 1 }
+      ]
+    }]);
+  });
+
+  it('returns a 404 for an unknown province', async () => {
+    const res = await request(app).get('/api/provinces/99/states').set(authHeader('viewer'));
+
+    expect(res.status).toBe(404);
+    expect(res.body).toEqual({ success: false, error: 'Province not found' });
+  });
+});
+
+describe('GET /api/states/:id/contacts', () => {
+  it('pages through the contacts of a state by name', async () => {
+    const first = await request(app).get('/api/states/3/contacts').query({ limit: 3 }).set(authHeader('viewer'));
+    const second = await request(app).get('/api/states/3/contacts').query({ limit: 3, offset: 3 }).set(authHeader('viewer'));
+
+    expect(first.status).toBe(200);
+    expect(first.body.pagination).toEqual({ total: 4, limit: 3, offset: 0, hasMore: true });
+    expect(second.body.pagination.hasMore).toBe(false);
+    const ids = [...first.body.data, ...second.body.data].map((contact: { id: string }) => contact.id);
+    expect(ids.sort()).toEqual(['10', '12', '2', '6']);
+  });
+
+  it('filters by category', async () => {
+    const res = await request(app).get('/api/states/3/contacts').query({ category: 'location' }).set(authHeader('viewer'));
+
+    expect(res.body.data.map((contact: { id: string }) => contact.id).sort()).toEqual(['12', '2']);
+  });
+
+  it.each([
+    ['/api/states/99/contacts', 404],
+    ['/api/states/3/contacts?category=unknown', 400]
+  ])('rejects %s', async (path, status) => {
+    const res = await request(app).get(path).set(authHeader('viewer'));
+
+    expect(res.status).toBe(status);
+  });
+});
@@ -0,0 +1,240 @@
+import { Router, Request, Response } from 'express';
+import { requireRole } from './auth';
+import { validate } from './validation';
+import { CATEGORY_GROUPS, CategoryGroup, categoryResolver, parseCategoryFilter } from './categories';
+import { rowToContact } from './contacts';
+import { config } from './config';
+import { ContactFilters, PlacementCount, repositories } from './repositories';
+
+// Drill-down browsing of the directory: provinces, the states within them and the
+// locations (categories) within each state, with the number of contacts at every level.
+// Provinces and states aren't linked in the schema, so the tree follows the contacts: a
+// state is listed under every province that has contacts in it.
+
+export interface DirectoryLocation {
+  // null for contacts without a known category
+  group: CategoryGroup | null;
+  id: number | null;
+  label: string;
+  count: number;
+}
+
+export interface DirectoryState {
+  // null for contacts without a known state
+  id: number | null;
+  name: string;
+  count: number;
+  locations: DirectoryLocation[];
+}
+
+export interface DirectoryProvince {
+  // null for contacts without a known province
+  id: number | null;
+  name: string;
+  count: number;
+  states: DirectoryState[];
+}
+
+export interface DirectoryTree {
+  total: number;
+  provinces: DirectoryProvince[];
+}
+
+// Name of the nodes collecting contacts whose province, state or category is unset or unknown
+const UNKNOWN = 'Unknown';
+
+// By name, the unknown node last
+function byName<T extends { id: number | null; name: string }>(a: T, b: T): number {
+  if ((a.id === null) !== (b.id === null)) return a.id === null ? 1 : -1;
+  return a.name.localeCompare(b.name);
+}
+
+// By group in CATEGORY_GROUPS order, then label, the unknown node last
+function byGroupAndLabel(a: DirectoryLocation, b: DirectoryLocation): number {
+  const rank = (location: DirectoryLocation) =>
+    location.group === null ? CATEGORY_GROUPS.length : CATEGORY_GROUPS.findIndex(info => info.group === location.group);
+  return rank(a) - rank(b) || a.label.localeCompare(b.label);
+}
+
+// Add the counts to the states they belong to, creating them as needed
+function addToStates(states: Map<number | null, DirectoryState>, counts: PlacementCount[], stateNames: Map<number, string>): void {
+  for (const row of counts) {
+    const stateId = stateNames.has(row.state_id) ? row.state_id as number : null;
+    let state = states.get(stateId);
+    if (!state) {
+      state = { id: stateId, name: stateId !== null ? stateNames.get(stateId)! : UNKNOWN, count: 0, locations: [] };
+      states.set(stateId, state);
+    }
+    state.count += row.count;
+
+    const category = categoryResolver.resolve(row);
+    const group = category ? category.group : null;
+    const id = category ? category.id : null;
+    let location = state.locations.find(entry => entry.group === group && entry.id === id);
+    if (!location) {
+      location = { group, id, label: category ? category.label : UNKNOWN, count: 0 };
+      state.locations.push(location);
+    }
+    location.count += row.count;
+  }
+}
+
+function sortedStates(states: Map<number | null, DirectoryState>): DirectoryState[] {
+  return Array.from(states.values())
+    .map(state => ({ ...state, locations: state.locations.sort(byGroupAndLabel) }))
+    .sort(byName);
+}
+
+async function stateNames(): Promise<Map<number, string>> {
+  const states = await repositories().lookups.states();
+  return new Map(states.map(row => [row.state_id, row.state_name]));
+}
+
+// The whole tree. Every province is listed, also those without contacts; states and
+// locations only where there are contacts.
+export async function buildDirectoryTree(): Promise<DirectoryTree> {
+  const [provinces, states, counts] = await Promise.all([
+    repositories().lookups.provinces(),
+    stateNames(),
+    repositories().contacts.countByPlacement({}, CATEGORY_GROUPS)
+  ]);
+
+  const provinceNames = new Map(provinces.map(row => [row.province_id, row.province]));
+  const countsByProvince = new Map<number | null, PlacementCount[]>(provinces.map(row => [row.province_id, []]));
+  for (const row of counts) {
+    const provinceId = provinceNames.has(row.province_id) ? row.province_id as number : null;
+    const provinceCounts = countsByProvince.get(provinceId) || [];
+    provinceCounts.push(row);
+    countsByProvince.set(provinceId, provinceCounts);
+  }
+
+  const tree = Array.from(countsByProvince.entries()).map(([id, provinceCounts]): DirectoryProvince => {
+    const children = new Map<number | null, DirectoryState>();
+    addToStates(children, provinceCounts, states);
+    return {
+      id,
+      name: id !== null ? provinceNames.get(id)! : UNKNOWN,
+      count: provinceCounts.reduce((sum, row) => sum + row.count, 0),
+      states: sortedStates(children)
+    };
+  });
+
+  return {
+    total: counts.reduce((sum, row) => sum + row.count, 0),
+    provinces: tree.sort(byName)
+  };
+}
+
+// The states of one province with their locations
+export async function provinceStates(provinceId: number): Promise<DirectoryState[]> {
+  const [states, counts] = await Promise.all([
+    stateNames(),
+    repositories().contacts.countByPlacement({ provinceId }, CATEGORY_GROUPS)
+  ]);
+
+  const result = new Map<number | null, DirectoryState>();
+  addToStates(result, counts, states);
+  return sortedStates(result);
+}
+
+export const directoryRouter = Router();
+
+// Provinces, states and locations with contact counts, for drill-down navigation
+directoryRouter.get('/api/directory/tree', requireRole('viewer'), validate('GET /api/directory/tree'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    res.json({
+      success: true,
+      data: await buildDirectoryTree()
+    });
+
+  } catch (error) {
+    req.log.error('Error building directory tree', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+});
+
+// The states of a province, for loading the tree a level at a time
+directoryRouter.get('/api/provinces/:id/states', requireRole('viewer'), validate('GET /api/provinces/:id/states'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const provinceId = Number(req.params.id);
+    const [province] = await repositories().lookups.provinces([provinceId]);
+    if (!province) {
+      res.status(404).json({
+        success: false,
+        error: 'Province not found'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: await provinceStates(provinceId)
+    });
+
+  } catch (error) {
+    req.log.error('Error fetching province states', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+});
+
+// The contacts in a state by name, optionally only those of one province or category
+directoryRouter.get('/api/states/:id/contacts', requireRole('viewer'), validate('GET /api/states/:id/contacts'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const stateId = Number(req.params.id);
+    const limit = Math.min(config.contactsMaxLimit, Number(req.query.limit));
+    const offset = Number(req.query.offset);
+
+    const filters: ContactFilters = { stateId };
+    if (req.query.provinceId !== undefined) filters.provinceId = Number(req.query.provinceId);
+    if (req.query.category !== undefined) {
+      const category = parseCategoryFilter(req.query.category as string);
+      if (!category) {
+        res.status(400).json({
+          success: false,
+          error: `category must be a group (${CATEGORY_GROUPS.map(info => info.group).join(', ')}) optionally followed by :<id>`
+        });
+        return;
+      }
+      filters.category = category;
+    }
+
+    const [state] = await repositories().lookups.states([stateId]);
+    if (!state) {
+      res.status(404).json({
+        success: false,
+        error: 'State not found'
+      });
+      return;
+    }
+
+    const contacts = repositories().contacts;
+    const [page, total] = await Promise.all([
+      contacts.list({ filters, sort: 'name', after: null, limit, offset }),
+      contacts.count(filters)
+    ]);
+
+    res.json({
+      success: true,
+      data: page.rows.map(rowToContact),
+      pagination: {
+        total,
+        limit,
+        offset,
+        hasMore: page.more
+      }
+    });
+
+  } catch (error) {
+    req.log.error('Error fetching state contacts', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+});
@@ -0,0 +1,95 @@
+import request from 'supertest';
+import app from './server';
+import { Repositories } from './repositories';
+import { authHeader, loadFixture } from './test/helpers';
+
+let repos: Repositories;
+
+beforeEach(async () => {
+  repos = await loadFixture();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('GET /api/contacts/duplicates', () => {
+  it('groups records sharing a number', async () => {
+    const res = await request(app).get('/api/contacts/duplicates').set(authHeader('editor'));
+
+    expect(res.status).toBe(200);
+    expect(res.body.pagination.total).toBe(1);
+    const [group] = res.body.data;
+    expect(group.reasons).toContain('phone');
+    expect(group.contacts.map((contact: { id: string }) => contact.id).sort()).toEqual(['12', '2']);
+  });
+
+  it('needs the editor role', async () => {
+    const res = await request(app).get('/api/contacts/duplicates').set(authHeader('viewer'));
+
+    expect(res.status).toBe(403);
+  });
+});
+
+describe('POST /api/contacts/merge', () => {
+  const merge = (body: unknown) => request(app).post('/api/contacts/merge').set(authHeader('editor')).send(body as object);
+
+  it('merges records into the survivor', async () => {
+    const res = await merge({ survivorId: 2, mergeIds: [12], fields: { name: 12 } });
+
+    expect(res.status).toBe(200);
+    expect(res.body.mergedIds).toEqual(['12']);
+    // Name from the merged record, numbers combined without the duplicate
+    expect(res.body.data).toMatchObject({ id: '2', name: 'Ibrahim Musa', phone: '08031234502', phone1: '+966501234502' });
+
+    // The merged id now points at the survivor
+    const old = await request(app).get('/api/contacts/12').set(authHeader('viewer'));
+    expect(old.status).toBe(200);
+    expect(old.body).toMatchObject({ mergedFrom: '12', data: { id: '2' } });
+
+    const duplicates = await request(app).get('/api/contacts/duplicates').set(authHeader('editor'));
+    expect(duplicates.body.data).toEqual([]);
+  });
+
+  it.each([
+    [{ survivorId: 2, mergeIds: [] }, 'Validation failed'],
+    [{ survivorId: 2, mergeIds: [2] }, 'mergeIds must be distinct and must not include survivorId'],
+    [{ survivorId: 2, mergeIds: [12], fields: { name: 5 } }, 'fields.name must be the id of one of the merged contacts'],
+    [{ survivorId: 2, mergeIds: [12], phones: ['not a phone'] }, 'phones must only contain valid phone numbers']
+  ])('rejects %j', async (body, error) => {
+    const res = await merge(body);
+
+    expect(res.status).toBe(400);
+    expect(res.body.error).toContain(error);
+  });
+
+  it('returns a 404 for unknown records', async () => {
+    const res = await merge({ survivorId: 2, mergeIds: [998, 999] });
+
+    expect(res.status).toBe(404);
+    expect(res.body.error).toBe('Contact not found: 998, 999');
+  });
+
+  it('returns a 409 when the survivor was deleted in the meantime', async () => {
+    const findById = repos.contacts.findById.bind(repos.contacts);
+    jest.spyOn(repos.contacts, 'findById').mockImplementation(async id => {
+      const row = await findById(id);
+      // Deleted by someone else once the merge has read it
+      if (id === 2) await repos.contacts.softDelete(2, { actor: 'test', requestId: null });
+      return row;
+    });
+
+    const res = await merge({ survivorId: 2, mergeIds: [12] });
+    const merged = await request(app).get('/api/contacts/12').set(authHeader('viewer'));
+
+    expect(res.status).toBe(409);
+    expect(merged.status).toBe(200);
+  });
+
+  it('refuses to drop phone numbers', async () => {
+    const res = await merge({ survivorId: 9, mergeIds: [1, 5] });
+
+    expect(res.status).toBe(400);
+    expect(res.body.details).toHaveLength(4);
+  });
+});
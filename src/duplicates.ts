@@ -0,0 +1,371 @@
+import { Router, Request, Response } from 'express';
+import { requireRole } from './auth';
+import { validate } from './validation';
+import { CATEGORY_GROUPS } from './categories';
+import { Contact, findContactById, rowToContact } from './contacts';
+import { PHONE_FIELDS, isValidPhone, parsePhone, phoneMatchKey } from './phone';
+import { boundedLevenshtein, phoneticKey, searchIndex, tokenize } from './search';
+import { auditContext } from './audit';
+import { ContactRecord, ContactRow, repositories } from './repositories';
+
+// Detection of likely duplicate contacts and merging them into one record
+
+export interface DuplicateGroup {
+  confidence: number;
+  reasons: ('phone' | 'name')[];
+  sharedPhones: string[];
+  contacts: Contact[];
+}
+
+// Name-only matches need names at least this similar
+const NAME_MATCH_MIN_SIMILARITY = 0.85;
+
+// Records sharing a number or a pair of name tokens are compared with each other. A number
+// or pair of names shared by more records than this is too common to say anything and is skipped.
+const BLOCK_MAX_SIZE = 200;
+
+// At most this many records can be merged into a survivor in one go
+const MERGE_MAX_IDS = 20;
+
+// Fields that can be taken from any of the merged records
+const MERGE_FIELDS: Record<string, string[]> = {
+  name: ['f_name', 'l_name'],
+  rank: ['rank'],
+  province: ['province_id'],
+  state: ['state_id'],
+  location: CATEGORY_GROUPS.map(info => info.idColumn)
+};
+
+interface Candidate {
+  contact: Contact;
+  tokens: string[];
+  stateId: number | null;
+  phoneKeys: string[];
+}
+
+// How alike two name tokens are: spelling variants and single typos count as near matches,
+// and an initial matches any token starting with that letter
+function tokenSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (a.length === 1 || b.length === 1) return a[0] === b[0] ? 0.6 : 0;
+  if (phoneticKey(a) === phoneticKey(b)) return 0.85;
+  if (Math.min(a.length, b.length) >= 5 && boundedLevenshtein(a, b, 1) <= 1) return 0.75;
+  return 0;
+}
+
+// Similarity of two names from 0 to 1, ignoring word order. Each token of the shorter name
+// is paired with its best match in the longer one; extra tokens cost a little, and a single
+// token name on its own is weak evidence.
+export function nameSimilarity(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) return 0;
+  const [short, long] = a.length <= b.length ? [a, b] : [b, a];
+
+  const used = new Set<number>();
+  let total = 0;
+  for (const token of short) {
+    let best = 0;
+    let bestIndex = -1;
+    long.forEach((other, index) => {
+      if (used.has(index)) return;
+      const similarity = tokenSimilarity(token, other);
+      if (similarity > best) {
+        best = similarity;
+        bestIndex = index;
+      }
+    });
+    if (bestIndex >= 0) used.add(bestIndex);
+    total += best;
+  }
+
+  const similarity = (total / short.length) * Math.pow(short.length / long.length, 0.25);
+  return short.length === 1 ? similarity * 0.5 : similarity;
+}
+
+// Confidence that two records are the same person
+function pairConfidence(a: Candidate, b: Candidate, sharesPhone: boolean): number {
+  const similarity = nameSimilarity(a.tokens, b.tokens);
+  if (sharesPhone) return 0.7 + 0.3 * similarity;
+  if (similarity < NAME_MATCH_MIN_SIMILARITY) return 0;
+  return similarity * (a.stateId !== null && a.stateId === b.stateId ? 0.9 : 0.7);
+}
+
+function toCandidate(row: ContactRow): Candidate {
+  const contact = rowToContact(row);
+  const phoneKeys = contact.phones.map(phone => phone.e164 || phoneMatchKey(phone.raw)).filter(Boolean);
+
+  return {
+    contact,
+    tokens: tokenize(`${row.f_name || ''} ${row.l_name || ''}`),
+    stateId: row.state_id || null,
+    phoneKeys: Array.from(new Set(phoneKeys))
+  };
+}
+
+// Group the non-deleted contacts into likely duplicates, most confident first
+export async function findDuplicateGroups(minConfidence: number): Promise<DuplicateGroup[]> {
+  const rows = await repositories().contacts.findAll({});
+  const candidates = rows.map(toCandidate);
+
+  // Records sharing a number, and records sharing a pair of (sound-alike) name tokens
+  const blocks = new Map<string, number[]>();
+  const addToBlock = (key: string, index: number): void => {
+    const block = blocks.get(key) || [];
+    block.push(index);
+    blocks.set(key, block);
+  };
+  candidates.forEach((candidate, index) => {
+    candidate.phoneKeys.forEach(key => addToBlock(`phone:${key}`, index));
+    const keys = Array.from(new Set(candidate.tokens.filter(token => token.length > 1).map(phoneticKey))).sort();
+    for (let i = 0; i < keys.length; i++) {
+      for (let j = i + 1; j < keys.length; j++) {
+        addToBlock(`name:${keys[i]} ${keys[j]}`, index);
+      }
+    }
+  });
+
+  // Score each pair once, then join matching pairs into groups (union-find)
+  const parent = candidates.map((_, index) => index);
+  const root = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]!]!;
+      index = parent[index]!;
+    }
+    return index;
+  };
+  const scored = new Set<string>();
+  const edges: { a: number; b: number; confidence: number; phones: string[] }[] = [];
+
+  blocks.forEach(block => {
+    if (block.length < 2 || block.length > BLOCK_MAX_SIZE) return;
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        const a = block[i]!;
+        const b = block[j]!;
+        const pairKey = `${a}:${b}`;
+        if (scored.has(pairKey)) continue;
+        scored.add(pairKey);
+
+        const phones = candidates[a]!.phoneKeys.filter(phone => candidates[b]!.phoneKeys.includes(phone));
+        const confidence = pairConfidence(candidates[a]!, candidates[b]!, phones.length > 0);
+        if (confidence < minConfidence) continue;
+
+        edges.push({ a, b, confidence, phones });
+        parent[root(a)] = root(b);
+      }
+    }
+  });
+
+  const groups = new Map<number, { members: Set<number>; confidence: number; reasons: Set<'phone' | 'name'>; phones: Set<string> }>();
+  for (const edge of edges) {
+    const groupRoot = root(edge.a);
+    const group = groups.get(groupRoot) || { members: new Set(), confidence: 0, reasons: new Set(), phones: new Set() };
+    group.members.add(edge.a).add(edge.b);
+    group.confidence = Math.max(group.confidence, edge.confidence);
+    group.reasons.add(edge.phones.length > 0 ? 'phone' : 'name');
+    edge.phones.forEach(phone => group.phones.add(phone));
+    groups.set(groupRoot, group);
+  }
+
+  return Array.from(groups.values())
+    .map(group => ({
+      confidence: Math.round(group.confidence * 1000) / 1000,
+      reasons: Array.from(group.reasons).sort(),
+      sharedPhones: Array.from(group.phones),
+      contacts: Array.from(group.members).sort((a, b) => a - b).map(index => candidates[index]!.contact)
+    }))
+    .sort((a, b) => b.confidence - a.confidence || Number(a.contacts[0]!.id) - Number(b.contacts[0]!.id));
+}
+
+interface MergeRequest {
+  survivorId: number;
+  mergeIds: number[];
+  fields: Record<string, number>;
+  phones: string[] | null;
+}
+
+function parseRecordId(value: unknown): number | null {
+  const id = typeof value === 'string' ? Number(value) : value;
+  return typeof id === 'number' && Number.isInteger(id) && id > 0 ? id : null;
+}
+
+// Validate the merge request body, returning an error message instead when it is invalid
+function parseMergeRequest(body: any): MergeRequest | string {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return 'Request body must be a JSON object';
+  }
+
+  const survivorId = parseRecordId(body.survivorId);
+  if (survivorId === null) {
+    return 'survivorId must be a contact id';
+  }
+
+  if (!Array.isArray(body.mergeIds) || body.mergeIds.length === 0 || body.mergeIds.length > MERGE_MAX_IDS) {
+    return `mergeIds must be a list of 1 to ${MERGE_MAX_IDS} contact ids`;
+  }
+  const mergeIds = body.mergeIds.map(parseRecordId);
+  if (mergeIds.some((id: number | null) => id === null)) {
+    return 'mergeIds must be a list of contact ids';
+  }
+  if (new Set(mergeIds).size !== mergeIds.length || mergeIds.includes(survivorId)) {
+    return 'mergeIds must be distinct and must not include survivorId';
+  }
+
+  const fields: Record<string, number> = {};
+  if (body.fields !== undefined) {
+    if (!body.fields || typeof body.fields !== 'object' || Array.isArray(body.fields)) {
+      return 'fields must be an object';
+    }
+    for (const [field, value] of Object.entries(body.fields)) {
+      const id = parseRecordId(value);
+      if (!MERGE_FIELDS[field]) {
+        return `fields can only choose ${Object.keys(MERGE_FIELDS).join(', ')}`;
+      }
+      if (id === null || (id !== survivorId && !mergeIds.includes(id))) {
+        return `fields.${field} must be the id of one of the merged contacts`;
+      }
+      fields[field] = id;
+    }
+  }
+
+  let phones: string[] | null = null;
+  if (body.phones !== undefined) {
+    if (!Array.isArray(body.phones) || body.phones.length === 0 || body.phones.length > PHONE_FIELDS.length) {
+      return `phones must be a list of 1 to ${PHONE_FIELDS.length} phone numbers`;
+    }
+    if (body.phones.some((phone: unknown) => typeof phone !== 'string' || !isValidPhone(phone.trim()))) {
+      return 'phones must only contain valid phone numbers';
+    }
+    phones = body.phones.map((phone: string) => phone.trim());
+  }
+
+  return { survivorId, mergeIds, fields, phones };
+}
+
+// Every distinct number across the records, survivor first, in phone, phone1, phone2 order
+function combinePhones(rows: ContactRow[]): string[] {
+  const seen = new Set<string>();
+  const phones: string[] = [];
+
+  for (const row of rows) {
+    for (const field of PHONE_FIELDS) {
+      const raw = (row[field] || '').trim();
+      if (!raw) continue;
+      const parsed = parsePhone(raw);
+      const key = parsed ? parsed.e164 : phoneMatchKey(raw);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      phones.push(raw);
+    }
+  }
+
+  return phones;
+}
+
+export const duplicatesRouter = Router();
+
+// Likely duplicate contacts, grouped, most confident first
+duplicatesRouter.get('/api/contacts/duplicates', requireRole('editor'), validate('GET /api/contacts/duplicates'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const minConfidence = Number(req.query.minConfidence);
+    const limit = Number(req.query.limit);
+    const offset = Number(req.query.offset);
+
+    const groups = await findDuplicateGroups(minConfidence);
+
+    res.json({
+      success: true,
+      data: groups.slice(offset, offset + limit),
+      pagination: {
+        total: groups.length,
+        limit,
+        offset,
+        hasMore: offset + limit < groups.length
+      }
+    });
+
+  } catch (error) {
+    req.log.error('Error finding duplicate contacts', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+});
+
+// Merge records into a survivor. The survivor keeps its own fields unless `fields` picks
+// another record for them, gets the combined phone numbers (or `phones` when given), and
+// the merged records are soft-deleted with their ids pointing at the survivor.
+duplicatesRouter.post('/api/contacts/merge', requireRole('editor'), validate('POST /api/contacts/merge'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const merge = parseMergeRequest(req.body);
+    if (typeof merge === 'string') {
+      res.status(400).json({
+        success: false,
+        error: merge
+      });
+      return;
+    }
+
+    const ids = [merge.survivorId, ...merge.mergeIds];
+    const rows = await Promise.all(ids.map(id => repositories().contacts.findById(id)));
+    const missing = ids.filter((_, index) => !rows[index]);
+    if (missing.length > 0) {
+      res.status(404).json({
+        success: false,
+        error: `Contact not found: ${missing.join(', ')}`
+      });
+      return;
+    }
+    const found = rows as ContactRow[];
+    const rowsById = new Map(ids.map((id, index) => [id, found[index]!]));
+
+    const phones = merge.phones || combinePhones(found);
+    if (phones.length > PHONE_FIELDS.length) {
+      res.status(400).json({
+        success: false,
+        error: `The records have ${phones.length} different phone numbers, choose at most ${PHONE_FIELDS.length} with phones`,
+        details: phones
+      });
+      return;
+    }
+
+    const record: ContactRecord = {};
+    PHONE_FIELDS.forEach((field, index) => {
+      record[field] = phones[index] || '';
+    });
+    for (const [field, sourceId] of Object.entries(merge.fields)) {
+      const source = rowsById.get(sourceId)!;
+      MERGE_FIELDS[field]!.forEach(column => {
+        record[column] = source[column] ?? null;
+      });
+    }
+
+    const audit = auditContext(req, 'merge');
+    const merged = await repositories().contacts.merge(merge.survivorId, merge.mergeIds, record, audit);
+
+    if (!merged) {
+      res.status(409).json({
+        success: false,
+        error: 'One of the contacts was changed by someone else, please try again'
+      });
+      return;
+    }
+
+    searchIndex.markStale();
+    req.log.info('Merged contacts', { mergeIds: merge.mergeIds, survivorId: merge.survivorId, actor: audit.actor });
+    const contact = await findContactById(merge.survivorId);
+
+    res.json({
+      success: true,
+      data: contact,
+      mergedIds: merge.mergeIds.map(String)
+    });
+
+  } catch (error) {
+    req.log.error('Error merging contacts', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+});
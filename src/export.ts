@@ -0,0 +1,177 @@
+import { Transform } from 'stream';
+import { config } from './config';
+
+// Formatting of contact lists for download as vCard or CSV
+
+export type VCardVersion = '3.0' | '4.0';
+
+export const EXPORT_FORMATS = ['vcf', 'csv'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+// Organisation written on every exported vCard
+const VCARD_ORGANIZATION = config.vcardOrganization;
+
+// A contact as exported: the API fields plus every phone number on the record
+export interface ExportContact {
+  id: string;
+  firstName: string;
+  lastName: string;
+  name: string;
+  rank: string;
+  // Numbers in order, empty ones left out
+  phones: string[];
+  // The numbers as stored, by field, for the CSV columns
+  phone: string;
+  phone1: string;
+  phone2: string;
+  whatsapp: string;
+  location: string;
+  categoryType: string;
+  province: string;
+  state: string;
+}
+
+// Escape a vCard text value (RFC 6350 section 3.4)
+function escapeVCardText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/\r?\n/g, '\\n')
+    .replace(/,/g, '\\,')
+    .replace(/;/g, '\\;');
+}
+
+// Fold content lines longer than 75 octets, continuation lines start with a space
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const bytes = Buffer.byteLength(char);
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+export function toVCard(contact: ExportContact, version: VCardVersion): string {
+  const lines: string[] = [
+    'BEGIN:VCARD',
+    `VERSION:${version}`,
+    `N:${escapeVCardText(contact.lastName)};${escapeVCardText(contact.firstName)};;;`,
+    `FN:${escapeVCardText(contact.name)}`,
+    `ORG:${escapeVCardText(VCARD_ORGANIZATION)}`
+  ];
+
+  if (contact.rank) {
+    lines.push(`TITLE:${escapeVCardText(contact.rank)}`);
+  }
+
+  contact.phones.forEach((phone, index) => {
+    const preferred = index === 0;
+    if (version === '4.0') {
+      const pref = preferred ? ';PREF=1' : '';
+      lines.push(`TEL;VALUE=uri;TYPE="cell,voice"${pref}:tel:${phone.replace(/[^\d+]/g, '')}`);
+    } else {
+      const pref = preferred ? ',PREF' : '';
+      lines.push(`TEL;TYPE=CELL,VOICE${pref}:${phone}`);
+    }
+  });
+
+  const categories = [contact.location, contact.categoryType].filter(Boolean);
+  if (categories.length > 0) {
+    lines.push(`CATEGORIES:${categories.map(escapeVCardText).join(',')}`);
+  }
+
+  const note = [
+    contact.location && `Location: ${contact.location}`,
+    contact.state && `State: ${contact.state}`,
+    contact.province && `Province: ${contact.province}`
+  ].filter(Boolean).join(', ');
+  if (note) {
+    lines.push(`NOTE:${escapeVCardText(note)}`);
+  }
+
+  lines.push(`UID:nahcon-contact-${contact.id}`);
+  lines.push('END:VCARD');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+export const CSV_COLUMNS = [
+  'id', 'name', 'first_name', 'last_name', 'rank', 'phone', 'phone1', 'phone2',
+  'whatsapp', 'location', 'category_type', 'state', 'province'
+];
+
+// Quote a CSV cell when needed. Cells that a spreadsheet would treat as a formula are
+// prefixed with a quote; in phone cells + and - are left alone since numbers start with them.
+function escapeCsvCell(value: string, phone = false): string {
+  let cell = value;
+  if (phone ? /^[=@\t\r]/.test(cell) : /^[=@+\-\t\r]/.test(cell)) {
+    cell = `'${cell}`;
+  }
+  if (/[",\r\n]/.test(cell)) {
+    return `"${cell.replace(/"/g, '""')}"`;
+  }
+  return cell;
+}
+
+// A CSV line; phoneColumns are the indexes of the cells holding phone numbers
+export function toCsvRow(values: string[], phoneColumns: number[] = []): string {
+  return values.map((value, index) => escapeCsvCell(value, phoneColumns.includes(index))).join(',') + '\r\n';
+}
+
+// Indexes of phone, phone1, phone2 and whatsapp in CSV_COLUMNS
+const CSV_PHONE_COLUMNS = ['phone', 'phone1', 'phone2', 'whatsapp'].map(column => CSV_COLUMNS.indexOf(column));
+
+export function toCsvContactRow(contact: ExportContact): string {
+  return toCsvRow([
+    contact.id,
+    contact.name,
+    contact.firstName,
+    contact.lastName,
+    contact.rank,
+    contact.phone,
+    contact.phone1,
+    contact.phone2,
+    contact.whatsapp,
+    contact.location,
+    contact.categoryType,
+    contact.state,
+    contact.province
+  ], CSV_PHONE_COLUMNS);
+}
+
+// Transform stream turning exported contacts (object mode) into vCard or CSV text.
+// CSV output starts with a UTF-8 byte order mark so spreadsheet apps pick the right encoding.
+export function createExportStream(format: ExportFormat, version: VCardVersion): Transform {
+  let started = false;
+
+  return new Transform({
+    writableObjectMode: true,
+    transform(contact: ExportContact, _encoding, callback) {
+      let chunk = '';
+      if (!started && format === 'csv') {
+        chunk += '\uFEFF' + toCsvRow(CSV_COLUMNS);
+      }
+      started = true;
+      chunk += format === 'csv' ? toCsvContactRow(contact) : toVCard(contact, version);
+      callback(null, chunk);
+    },
+    flush(callback) {
+      // An empty CSV export still gets its header row
+      if (!started && format === 'csv') {
+        this.push('\uFEFF' + toCsvRow(CSV_COLUMNS));
+      }
+      callback();
+    }
+  });
+}
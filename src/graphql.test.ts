@@ -0,0 +1,220 @@
+import request from 'supertest';
+import app from './server';
+import { referenceCache } from './referenceCache';
+import { Repositories } from './repositories';
+import { authHeader, loadFixture } from './test/helpers';
+
+let repos: Repositories;
+
+beforeEach(async () => {
+  repos = await loadFixture();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+function graphql(query: string, variables: Record<string, unknown> = {}) {
+  return request(app).post('/graphql').set(authHeader('viewer')).send({ query, variables });
+}
+
+const PAGE = `
+  query Page($first: Int, $after: String, $filter: ContactFilter) {
+    contacts(first: $first, after: $after, filter: $filter) {
+      edges { cursor node { id name } }
+      pageInfo { hasNextPage hasPreviousPage endCursor }
+      totalCount
+    }
+  }
+`;
+
+describe('contacts', () => {
+  it('pages forwards with first and after', async () => {
+    const first = await graphql(PAGE, { first: 5 });
+    const second = await graphql(PAGE, { first: 10, after: first.body.data.contacts.pageInfo.endCursor });
+
+    expect(first.status).toBe(200);
+    expect(first.body.data.contacts.edges.map((edge: any) => edge.node.id)).toEqual(['1', '2', '3', '4', '5']);
+    expect(first.body.data.contacts.pageInfo).toMatchObject({ hasNextPage: true, hasPreviousPage: false });
+    expect(first.body.data.contacts.totalCount).toBe(12);
+    expect(second.body.data.contacts.edges).toHaveLength(7);
+    expect(second.body.data.contacts.pageInfo).toMatchObject({ hasNextPage: false, hasPreviousPage: true });
+  });
+
+  it('pages backwards with last and before', async () => {
+    const page = await graphql(PAGE, { first: 6 });
+    const res = await graphql(`query($before: String) {
+      contacts(last: 2, before: $before) { edges { node { id } } pageInfo { hasPreviousPage hasNextPage } }
+    }`, { before: page.body.data.contacts.pageInfo.endCursor });
+
+    expect(res.body.data.contacts.edges.map((edge: any) => edge.node.id)).toEqual(['4', '5']);
+    expect(res.body.data.contacts.pageInfo).toEqual({ hasPreviousPage: true, hasNextPage: true });
+  });
+
+  it('takes the filters of the REST list', async () => {
+    const res = await graphql(PAGE, { filter: { province: 'North West', category: 'medical' } });
+
+    expect(res.body.data.contacts.edges.map((edge: any) => edge.node.name)).toEqual(['Dr. Sani Garba']);
+    expect(res.body.data.contacts.totalCount).toBe(1);
+  });
+
+  it('reports invalid arguments next to the data', async () => {
+    const res = await graphql(PAGE, { filter: { category: 'nonsense' } });
+    const cursor = await graphql(PAGE, { after: 'not-a-cursor' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toBeNull();
+    expect(res.body.errors[0].message).toMatch(/category/i);
+    expect(cursor.body.errors[0].message).toBe('Invalid cursor for this sort');
+  });
+});
+
+describe('relationships', () => {
+  it('load the provinces and states of a page in one batch each', async () => {
+    // The reference lists are read once for the query size check
+    await referenceCache.get();
+    const provinces = jest.spyOn(repos.lookups, 'provinces');
+    const states = jest.spyOn(repos.lookups, 'states');
+
+    const res = await graphql(`{
+      contacts(first: 12) { edges { node { name province { name } state { name } category { group label } } } }
+    }`);
+
+    const nodes = res.body.data.contacts.edges.map((edge: any) => edge.node);
+    expect(nodes[1]).toEqual({
+      name: 'Ibrahim Musa Kano',
+      province: { name: 'North West' },
+      state: { name: 'Kano' },
+      category: { group: 'location', label: 'Kano Zonal Office' }
+    });
+    expect(provinces).toHaveBeenCalledTimes(1);
+    expect(states).toHaveBeenCalledTimes(1);
+  });
+
+  it('walk from provinces to states and contacts with counts', async () => {
+    const countByPlacement = jest.spyOn(repos.contacts, 'countByPlacement');
+
+    const res = await graphql(`{
+      province(id: 3) {
+        name
+        contactCount
+        states { name contactCount contacts(first: 1) { totalCount } }
+      }
+      categories(group: medical) { label contactCount }
+    }`);
+
+    expect(res.body.data.province).toEqual({
+      name: 'North West',
+      contactCount: 7,
+      states: [
+        { name: 'Kaduna', contactCount: 2, contacts: { totalCount: 2 } },
+        { name: 'Kano', contactCount: 4, contacts: { totalCount: 4 } },
+        { name: 'Sokoto', contactCount: 1, contacts: { totalCount: 1 } }
+      ]
+    });
+    expect(res.body.data.categories).toEqual([
+      { label: 'Medical Team Madinah', contactCount: 1 },
+      { label: 'Medical Team Makkah', contactCount: 1 }
+    ]);
+    expect(countByPlacement).toHaveBeenCalledTimes(1);
+  });
+
+  it('read the contacts of nested connections in one batch', async () => {
+    const list = jest.spyOn(repos.contacts, 'list');
+    const listPerGroup = jest.spyOn(repos.contacts, 'listPerGroup');
+    const count = jest.spyOn(repos.contacts, 'count');
+    const countByPlacement = jest.spyOn(repos.contacts, 'countByPlacement');
+
+    const res = await graphql(`{
+      provinces { states { name contacts(first: 5) { edges { node { id } } totalCount } } }
+    }`);
+
+    const kano = res.body.data.provinces[2].states.find((state: any) => state.name === 'Kano');
+    expect(kano.contacts.edges.map((edge: any) => edge.node.id)).toEqual(['2', '6', '10', '12']);
+    expect(kano.contacts.totalCount).toBe(4);
+    expect(list).not.toHaveBeenCalled();
+    expect(count).not.toHaveBeenCalled();
+    expect(listPerGroup).toHaveBeenCalledTimes(1);
+    expect(countByPlacement).toHaveBeenCalledTimes(1);
+  });
+
+  it('count nested connections with a filter by that filter', async () => {
+    const res = await graphql(`{
+      categories(group: mk) { label contacts(first: 5, filter: { state: "Kaduna" }) { totalCount edges { node { name } } } }
+    }`);
+
+    expect(res.body.errors).toBeUndefined();
+    expect(res.body.data.categories).toEqual([
+      { label: 'Makkah Accommodation', contacts: { totalCount: 0, edges: [] } },
+      { label: 'Makkah Operations', contacts: { totalCount: 1, edges: [{ node: { name: 'Fatima Abubakar' } }] } }
+    ]);
+  });
+});
+
+describe('visibility', () => {
+  it('masks numbers and leaves out hidden contacts for anonymous callers', async () => {
+    const res = await request(app).post('/graphql').send({
+      query: '{ hidden: contact(id: 1) { name } visible: contact(id: 2) { phone hideFromPublic } }'
+    });
+
+    expect(res.body.data).toEqual({ hidden: null, visible: { phone: '********502', hideFromPublic: null } });
+  });
+
+  it('do not search by number for anonymous callers', async () => {
+    const res = await request(app).post('/graphql').send({ query: PAGE, variables: { filter: { search: '0803123450' } } });
+
+    expect(res.body.data.contacts.edges).toEqual([]);
+  });
+
+  it('keep the hierarchy and counts to staff', async () => {
+    const query = '{ provinces { name } contactCount categories { label } contact(id: 2) { province { name contactCount } } }';
+    const anonymous = await request(app).post('/graphql').send({ query });
+    const pilgrim = await request(app).post('/graphql').set(authHeader('pilgrim')).send({ query });
+
+    expect(anonymous.body.data).toBeNull();
+    expect(anonymous.body.errors.map((error: any) => error.message)).toContain('Authentication required');
+    expect(pilgrim.body.errors.map((error: any) => error.message)).toContain('Insufficient permissions');
+  });
+
+  it('lists only the help desk to pilgrims', async () => {
+    const res = await request(app).post('/graphql').set(authHeader('pilgrim')).send({ query: '{ contacts { edges { node { id } } } }' });
+
+    expect(res.body.data.contacts.edges.map((edge: any) => edge.node.id)).toEqual(['7', '11']);
+  });
+});
+
+describe('queries', () => {
+  it('are rejected with 400 when nested too deep', async () => {
+    const res = await graphql(`{
+      provinces { contacts { edges { node { province { contacts { edges { node { province { contacts { edges { node { id } } } } } } } } } } } }
+    }`);
+
+    expect(res.status).toBe(400);
+    expect(res.body.errors[0].message).toMatch(/nested deeper/);
+  });
+
+  it('are rejected with 400 when they can return too many contacts', async () => {
+    const res = await graphql('query($size: Int) { states { contacts(first: $size) { edges { node { id } } } } }', { size: 50 });
+    const small = await graphql('query($size: Int) { states { contacts(first: $size) { edges { node { id } } } } }', { size: 20 });
+
+    expect(res.status).toBe(400);
+    expect(res.body.errors[0].message).toMatch(/up to 300 contacts/);
+    expect(small.status).toBe(200);
+  });
+
+  it('are rejected with 400 when invalid', async () => {
+    const res = await graphql('{ contacts { edges { node { salary } } } }');
+
+    expect(res.status).toBe(400);
+    expect(res.body.errors[0].message).toContain('salary');
+  });
+
+  it('can be sent with GET', async () => {
+    const res = await request(app).get('/graphql').set(authHeader('viewer'))
+      .query({ query: 'query($id: ID!) { contact(id: $id) { name } }', variables: JSON.stringify({ id: '2' }) });
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.contact.name).toBe('Ibrahim Musa Kano');
+    expect(res.headers['cache-control']).toBe('private, no-cache');
+  });
+});
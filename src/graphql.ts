@@ -0,0 +1,645 @@
+import { Router, Request, Response } from 'express';
+import DataLoader from 'dataloader';
+import {
+  ASTVisitor,
+  buildSchema,
+  DocumentNode,
+  execute,
+  FieldNode,
+  getNamedType,
+  getOperationAST,
+  GraphQLError,
+  GraphQLInt,
+  GraphQLObjectType,
+  Kind,
+  parse,
+  SelectionSetNode,
+  specifiedRules,
+  validate as validateDocument,
+  ValidationContext,
+  valueFromAST
+} from 'graphql';
+import { optionalAuth } from './auth';
+import { validate } from './validation';
+import { rateLimit } from './rateLimit';
+import { CATEGORY_GROUPS, Category, CategoryGroup, categoryResolver, findCategoryGroup } from './categories';
+import { config } from './config';
+import { Contact, ContactFilterParams, decodeCursor, encodeCursor, parseContactFilters, rowToContact } from './contacts';
+import { directoryLastModified, httpCache } from './httpCache';
+import { Audience, audienceFilters, audienceOf, projectContact } from './privacy';
+import { referenceCache } from './referenceCache';
+import {
+  CONTACT_SORTS,
+  ContactFilters,
+  ContactGroupColumn,
+  ContactPage,
+  ContactPageQuery,
+  ContactRow,
+  ContactSort,
+  repositories
+} from './repositories';
+
+// GraphQL endpoint over the contacts and the directory hierarchy, so each screen asks for
+// just the fields it shows. Provinces, states, contacts and the contact pages of nested
+// connections are loaded in batches per request (DataLoader), and the counts come from one
+// grouped query per filter, so resolving a list never turns into a query per row. What
+// callers see follows privacy.ts and the roles of the REST routes.
+
+// Page size of a contact connection without first or last
+const DEFAULT_PAGE_SIZE = 50;
+
+// Deepest nesting of fields a query may have. Contacts link to provinces that list
+// contacts again, so queries could otherwise fan out without limit.
+const MAX_QUERY_DEPTH = 10;
+
+// Most contacts one query may ask for, counting every page of every nested connection:
+// no more than a page of GET /api/contacts, which has the same rate limit budget
+const MAX_QUERY_CONTACTS = config.contactsMaxLimit;
+
+const CONNECTION_ARGS = 'filter: ContactFilter, sort: ContactSort = id, first: Int, after: String, last: Int, before: String';
+
+const SDL = `
+"A contact. Anonymous callers get masked numbers; only staff get the visibility flags."
+type Contact {
+  id: ID!
+  name: String!
+  rank: String!
+  phone: String!
+  phone1: String!
+  phone2: String!
+  phones: [Phone!]!
+  "WhatsApp number in international format without +"
+  whatsapp: String!
+  "Label of the category"
+  location: String!
+  category: Category
+  province: Province
+  state: State
+  hideFromPublic: Boolean
+  helpDesk: Boolean
+}
+
+type Phone {
+  field: String!
+  raw: String!
+  e164: String
+  country: String
+  type: String
+  valid: Boolean!
+  primary: Boolean!
+  whatsapp: Boolean!
+  telLink: String
+  whatsappLink: String
+}
+
+type Province {
+  id: Int!
+  name: String!
+  "States with contacts in this province"
+  states: [State!]!
+  contactCount: Int!
+  contacts(${CONNECTION_ARGS}): ContactConnection!
+}
+
+type State {
+  id: Int!
+  name: String!
+  contactCount: Int!
+  contacts(${CONNECTION_ARGS}): ContactConnection!
+}
+
+enum CategoryGroup { ${CATEGORY_GROUPS.map(info => info.group).join(' ')} }
+
+type Category {
+  group: CategoryGroup!
+  id: Int!
+  label: String!
+  contactCount: Int!
+  contacts(${CONNECTION_ARGS}): ContactConnection!
+}
+
+"The filters of GET /api/contacts"
+input ContactFilter {
+  search: String
+  location: String
+  province: String
+  state: String
+  "A group (medical) or one category of it (medical:2)"
+  category: String
+}
+
+enum ContactSort { ${Object.keys(CONTACT_SORTS).join(' ')} }
+
+type PageInfo {
+  hasNextPage: Boolean!
+  hasPreviousPage: Boolean!
+  startCursor: String
+  endCursor: String
+}
+
+type ContactEdge {
+  cursor: String!
+  node: Contact!
+}
+
+"A page of contacts: forwards with first and after, backwards with last and before"
+type ContactConnection {
+  edges: [ContactEdge!]!
+  pageInfo: PageInfo!
+  totalCount: Int!
+}
+
+type Query {
+  contacts(${CONNECTION_ARGS}): ContactConnection!
+  contact(id: ID!): Contact
+  "Number of contacts matching the filter"
+  contactCount(filter: ContactFilter): Int!
+  provinces: [Province!]!
+  province(id: Int!): Province
+  states: [State!]!
+  state(id: Int!): State
+  categories(group: CategoryGroup): [Category!]!
+}
+`;
+
+// A contact as resolved: what the caller may see of it, plus the ids to follow
+type ContactSource = Contact & { provinceId: number | null; stateId: number | null };
+
+interface LookupSource {
+  id: number;
+  name: string;
+}
+
+interface ConnectionArgs {
+  filter?: ContactFilterParams | null;
+  sort: ContactSort;
+  first?: number | null;
+  after?: string | null;
+  last?: number | null;
+  before?: string | null;
+}
+
+// The parent a nested connection lists the contacts of: a province, state or category,
+// by the phone_record column pointing at it
+interface ConnectionScope {
+  column: ContactGroupColumn;
+  value: number;
+}
+
+interface ConnectionKey {
+  scope: ConnectionScope;
+  args: ConnectionArgs;
+}
+
+interface ContactConnection {
+  edges: { cursor: string; node: ContactSource }[];
+  pageInfo: { hasNextPage: boolean; hasPreviousPage: boolean; startCursor: string | null; endCursor: string | null };
+  totalCount: () => Promise<number>;
+}
+
+// A checked connection request: the filters and page to read
+interface ConnectionQuery {
+  filter: ContactFilterParams;
+  query: ContactPageQuery;
+  backwards: boolean;
+}
+
+// Contact counts of everything the caller may see with one filter, by scope column and
+// value (placementKey), and the states each province has contacts in
+interface DirectoryCounts {
+  placements: Map<string, number>;
+  statesByProvince: Map<number, Set<number>>;
+}
+
+interface GraphQLContext {
+  audience: Audience;
+  provinces: DataLoader<number, LookupSource | null>;
+  states: DataLoader<number, LookupSource | null>;
+  contacts: DataLoader<number, ContactRow | null>;
+  connections: DataLoader<ConnectionKey, ContactConnection>;
+  counts: (filter?: ContactFilterParams) => Promise<DirectoryCounts>;
+}
+
+type Resolver = (source: any, args: any, context: GraphQLContext) => unknown;
+
+function toSource(row: ContactRow, audience: Audience): ContactSource {
+  return {
+    ...projectContact(rowToContact(row), audience),
+    provinceId: row.province_id || null,
+    stateId: row.state_id || null
+  };
+}
+
+function placementKey(scope: ConnectionScope): string {
+  return `${scope.column}:${scope.value}`;
+}
+
+function categoryScope(category: Category): ConnectionScope {
+  return { column: findCategoryGroup(category.group)!.idColumn, value: category.id };
+}
+
+// The filter argument with the caller's audience rules
+function contactFilters(filter: ContactFilterParams, audience: Audience): ContactFilters {
+  const parsed = parseContactFilters(filter);
+  if (typeof parsed === 'string') throw new GraphQLError(parsed);
+  return { ...parsed, ...audienceFilters(audience) };
+}
+
+async function directoryCounts(filters: ContactFilters): Promise<DirectoryCounts> {
+  const rows = await repositories().contacts.countByPlacement(filters, CATEGORY_GROUPS);
+  const counts: DirectoryCounts = { placements: new Map(), statesByProvince: new Map() };
+  const add = (column: ContactGroupColumn, value: number, count: number) => {
+    const key = placementKey({ column, value });
+    counts.placements.set(key, (counts.placements.get(key) || 0) + count);
+  };
+
+  for (const row of rows) {
+    add('province_id', row.province_id, row.count);
+    add('state_id', row.state_id, row.count);
+    // As the category filter matches, by each id column
+    CATEGORY_GROUPS.forEach(({ idColumn }) => {
+      if (row[idColumn] > 0) add(idColumn, row[idColumn], row.count);
+    });
+
+    const states = counts.statesByProvince.get(row.province_id) || new Set<number>();
+    states.add(row.state_id);
+    counts.statesByProvince.set(row.province_id, states);
+  }
+  return counts;
+}
+
+// Check the arguments of a connection and turn them into the page to read
+function connectionQuery(args: ConnectionArgs, audience: Audience): ConnectionQuery {
+  const filter = args.filter || {};
+  const filters = contactFilters(filter, audience);
+
+  const backwards = args.last != null || args.before != null;
+  if (backwards && (args.first != null || args.after != null)) {
+    throw new GraphQLError('Use either first and after, or last and before');
+  }
+  if (args.last != null && args.before == null) {
+    throw new GraphQLError('last needs before; page from the start with first');
+  }
+  const limit = (backwards ? args.last : args.first) ?? DEFAULT_PAGE_SIZE;
+  if (limit < 1 || limit > config.contactsMaxLimit) {
+    throw new GraphQLError(`first and last must be between 1 and ${config.contactsMaxLimit}`);
+  }
+
+  const token = backwards ? args.before : args.after;
+  const cursor = token ? decodeCursor(token) : null;
+  if (token && (!cursor || cursor.sort !== args.sort || cursor.keys.length !== CONTACT_SORTS[args.sort].keys)) {
+    throw new GraphQLError('Invalid cursor for this sort');
+  }
+
+  return {
+    filter,
+    query: {
+      filters,
+      sort: args.sort,
+      after: cursor ? { keys: cursor.keys, id: cursor.id, backwards } : null,
+      limit,
+      offset: 0
+    },
+    backwards
+  };
+}
+
+function toConnection(page: ContactPage, { query, backwards }: ConnectionQuery, audience: Audience, totalCount: () => Promise<number>): ContactConnection {
+  const edges = page.rows.map((row, index) => ({
+    cursor: encodeCursor({ sort: query.sort, keys: page.sortKeys[index]!, id: row.record_id, direction: 'next' }),
+    node: toSource(row, audience)
+  }));
+
+  return {
+    edges,
+    pageInfo: {
+      hasNextPage: backwards ? true : page.more,
+      hasPreviousPage: backwards ? page.more : query.after !== null,
+      startCursor: edges.length > 0 ? edges[0]!.cursor : null,
+      endCursor: edges.length > 0 ? edges[edges.length - 1]!.cursor : null
+    },
+    // Only counted when asked for
+    totalCount
+  };
+}
+
+// The top-level contacts connection
+async function contactConnection(args: ConnectionArgs, context: GraphQLContext): Promise<ContactConnection> {
+  const connection = connectionQuery(args, context.audience);
+  const page = await repositories().contacts.list(connection.query);
+  return toConnection(page, connection, context.audience, () => repositories().contacts.count(connection.query.filters));
+}
+
+// The connections of many parents: one read per scope column and arguments, however many
+// provinces, states or categories ask. Totals come from the counts of the filter.
+async function loadConnections(keys: readonly ConnectionKey[], context: GraphQLContext): Promise<(ContactConnection | Error)[]> {
+  const batches = new Map<string, ConnectionKey[]>();
+  for (const key of keys) {
+    const batchKey = JSON.stringify([key.scope.column, key.args]);
+    batches.set(batchKey, [...(batches.get(batchKey) || []), key]);
+  }
+
+  const results = new Map<ConnectionKey, ContactConnection | Error>();
+  await Promise.all([...batches.values()].map(async batch => {
+    const { column } = batch[0]!.scope;
+    let connection: ConnectionQuery;
+    try {
+      connection = connectionQuery(batch[0]!.args, context.audience);
+    } catch (error) {
+      batch.forEach(key => results.set(key, error as Error));
+      return;
+    }
+
+    const pages = await repositories().contacts.listPerGroup(connection.query, column, batch.map(key => key.scope.value));
+    for (const key of batch) {
+      const totalCount = async () => (await context.counts(connection.filter)).placements.get(placementKey(key.scope)) || 0;
+      results.set(key, toConnection(pages.get(key.scope.value)!, connection, context.audience, totalCount));
+    }
+  }));
+  return keys.map(key => results.get(key)!);
+}
+
+// Loaders and caches of one request
+function createContext(req: Request): GraphQLContext {
+  const audience = audienceOf(req.auth);
+  const counts = new Map<string, Promise<DirectoryCounts>>();
+
+  // Batch functions must answer every key in order, null for the missing ones
+  const byId = <T>(ids: readonly number[], rows: T[], id: (row: T) => number): (T | null)[] => {
+    const found = new Map(rows.map(row => [id(row), row]));
+    return ids.map(key => found.get(key) ?? null);
+  };
+
+  const context: GraphQLContext = {
+    audience,
+    provinces: new DataLoader(async ids => {
+      const rows = await repositories().lookups.provinces([...ids]);
+      return byId(ids, rows.map(row => ({ id: row.province_id, name: row.province })), row => row.id);
+    }),
+    states: new DataLoader(async ids => {
+      const rows = await repositories().lookups.states([...ids]);
+      return byId(ids, rows.map(row => ({ id: row.state_id, name: row.state_name })), row => row.id);
+    }),
+    // Only the contacts the caller may see
+    contacts: new DataLoader(async ids => {
+      const rows = await repositories().contacts.findAll({ ids: [...ids], ...audienceFilters(audience) });
+      return byId(ids, rows, row => row.record_id);
+    }),
+    connections: new DataLoader(keys => loadConnections(keys, context), { cacheKeyFn: key => JSON.stringify(key) }),
+    // One grouped count per filter
+    counts: (filter = {}) => {
+      const key = JSON.stringify(filter);
+      if (!counts.has(key)) counts.set(key, directoryCounts(contactFilters(filter, audience)));
+      return counts.get(key)!;
+    }
+  };
+  return context;
+}
+
+async function referenceList(list: 'provinces' | 'states'): Promise<LookupSource[]> {
+  const data = await referenceCache.get();
+  return list === 'provinces'
+    ? data.provinces.map(row => ({ id: row.province_id, name: row.province }))
+    : data.states.map(row => ({ id: row.state_id, name: row.state_name }));
+}
+
+// The directory hierarchy and the counts are for staff, as on GET /api/provinces,
+// /api/categories and /api/stats
+function staffOnly(resolve: Resolver): Resolver {
+  return (source, args, context) => {
+    if (context.audience === 'public') throw new GraphQLError('Authentication required');
+    if (context.audience !== 'staff') throw new GraphQLError('Insufficient permissions');
+    return resolve(source, args, context);
+  };
+}
+
+const RESOLVERS: Record<string, Record<string, Resolver>> = {
+  Query: {
+    contacts: (_source, args, context) => contactConnection(args, context),
+    contact: async (_source, args: { id: string }, context) => {
+      const id = Number(args.id);
+      if (!Number.isSafeInteger(id) || id <= 0) return null;
+      const row = await context.contacts.load(id);
+      return row ? toSource(row, context.audience) : null;
+    },
+    contactCount: staffOnly((_source, args: { filter?: ContactFilterParams | null }, context) =>
+      repositories().contacts.count(contactFilters(args.filter || {}, context.audience))),
+    provinces: staffOnly(() => referenceList('provinces')),
+    province: staffOnly((_source, args: { id: number }, context) => context.provinces.load(args.id)),
+    states: staffOnly(() => referenceList('states')),
+    state: staffOnly((_source, args: { id: number }, context) => context.states.load(args.id)),
+    categories: staffOnly((_source, args: { group?: CategoryGroup | null }) =>
+      categoryResolver.list(args.group ? [findCategoryGroup(args.group)!] : CATEGORY_GROUPS))
+  },
+  Contact: {
+    category: (source: ContactSource): Category | null =>
+      source.categoryType && source.categoryId !== null
+        ? { group: source.categoryType, id: source.categoryId, label: source.location }
+        : null,
+    province: (source: ContactSource, _args, context) => (source.provinceId ? context.provinces.load(source.provinceId) : null),
+    state: (source: ContactSource, _args, context) => (source.stateId ? context.states.load(source.stateId) : null)
+  },
+  Province: {
+    states: staffOnly(async (source: LookupSource, _args, context) => {
+      const stateIds = (await context.counts()).statesByProvince.get(source.id) || new Set<number>();
+      const states = await context.states.loadMany([...stateIds]);
+      return states
+        .filter((state): state is LookupSource => state !== null && !(state instanceof Error))
+        .sort((a, b) => a.name.localeCompare(b.name));
+    }),
+    contactCount: staffOnly(async (source: LookupSource, _args, context) =>
+      (await context.counts()).placements.get(placementKey({ column: 'province_id', value: source.id })) || 0),
+    contacts: staffOnly((source: LookupSource, args, context) =>
+      context.connections.load({ scope: { column: 'province_id', value: source.id }, args }))
+  },
+  State: {
+    contactCount: staffOnly(async (source: LookupSource, _args, context) =>
+      (await context.counts()).placements.get(placementKey({ column: 'state_id', value: source.id })) || 0),
+    contacts: staffOnly((source: LookupSource, args, context) =>
+      context.connections.load({ scope: { column: 'state_id', value: source.id }, args }))
+  },
+  Category: {
+    contactCount: staffOnly(async (source: Category, _args, context) =>
+      (await context.counts()).placements.get(placementKey(categoryScope(source))) || 0),
+    contacts: staffOnly((source: Category, args, context) => context.connections.load({ scope: categoryScope(source), args }))
+  }
+};
+
+export const schema = buildSchema(SDL);
+for (const [typeName, fields] of Object.entries(RESOLVERS)) {
+  const type = schema.getType(typeName) as GraphQLObjectType;
+  for (const [fieldName, resolve] of Object.entries(fields)) {
+    type.getFields()[fieldName]!.resolve = resolve;
+  }
+}
+
+// How deep the fields of a selection nest, following fragments
+function selectionDepth(selectionSet: SelectionSetNode | undefined, context: ValidationContext, fragments: Set<string>): number {
+  if (!selectionSet) return 0;
+  let depth = 0;
+  for (const selection of selectionSet.selections) {
+    if (selection.kind === Kind.FIELD) {
+      depth = Math.max(depth, 1 + selectionDepth(selection.selectionSet, context, fragments));
+    } else if (selection.kind === Kind.INLINE_FRAGMENT) {
+      depth = Math.max(depth, selectionDepth(selection.selectionSet, context, fragments));
+    } else if (!fragments.has(selection.name.value)) {
+      const fragment = context.getFragment(selection.name.value);
+      depth = Math.max(depth, selectionDepth(fragment?.selectionSet, context, new Set([...fragments, selection.name.value])));
+    }
+  }
+  return depth;
+}
+
+function maxDepthRule(context: ValidationContext): ASTVisitor {
+  return {
+    OperationDefinition(node) {
+      if (selectionDepth(node.selectionSet, context, new Set()) > MAX_QUERY_DEPTH) {
+        context.reportError(new GraphQLError(`Query is nested deeper than ${MAX_QUERY_DEPTH} levels`, { nodes: node }));
+      }
+    }
+  };
+}
+
+// How many of each list field's items there can be, for queryContacts
+async function listSizes(): Promise<Record<string, number>> {
+  const data = await referenceCache.get();
+  return {
+    'Query.provinces': data.provinces.length,
+    'Query.states': data.states.length,
+    'Query.categories': categoryResolver.list().length,
+    'Province.states': data.states.length
+  };
+}
+
+// Most contacts the operation can return: the page size (first or last) of every
+// connection, times the page sizes of the connections and list sizes it is nested in
+function queryContacts(document: DocumentNode, operationName: string | undefined, variables: Record<string, unknown> | undefined, sizes: Record<string, number>): number {
+  const operation = getOperationAST(document, operationName);
+  if (!operation) return 0;
+  const fragments = new Map(document.definitions.flatMap(definition =>
+    definition.kind === Kind.FRAGMENT_DEFINITION ? [[definition.name.value, definition] as const] : []));
+
+  const pageSize = (field: FieldNode): number => {
+    for (const name of ['first', 'last']) {
+      const argument = field.arguments?.find(arg => arg.name.value === name);
+      const value = argument ? valueFromAST(argument.value, GraphQLInt, variables) : undefined;
+      if (typeof value === 'number') return value;
+    }
+    return DEFAULT_PAGE_SIZE;
+  };
+
+  // Fragment cycles are already rejected by validation
+  const count = (selectionSet: SelectionSetNode | undefined, type: GraphQLObjectType, times: number): number => {
+    let total = 0;
+    for (const selection of selectionSet?.selections || []) {
+      if (selection.kind === Kind.FIELD) {
+        const field = type.getFields()[selection.name.value];
+        const fieldType = field && getNamedType(field.type);
+        if (!(fieldType instanceof GraphQLObjectType)) continue;
+        let nested = times * (sizes[`${type.name}.${selection.name.value}`] ?? 1);
+        if (fieldType.name === 'ContactConnection') {
+          nested = times * pageSize(selection);
+          total += nested;
+        }
+        total += count(selection.selectionSet, fieldType, nested);
+      } else {
+        const fragment = selection.kind === Kind.INLINE_FRAGMENT ? selection : fragments.get(selection.name.value);
+        const fragmentType = fragment?.typeCondition ? schema.getType(fragment.typeCondition.name.value) : type;
+        if (fragmentType instanceof GraphQLObjectType) total += count(fragment?.selectionSet, fragmentType, times);
+      }
+    }
+    return total;
+  };
+  return count(operation.selectionSet, schema.getQueryType()!, 1);
+}
+
+// Run a query. Errors in the query itself are a 400; errors while resolving are reported
+// next to the data, with unexpected ones logged and their details hidden.
+async function runQuery(req: Request, res: Response, query: string, variables: Record<string, unknown> | undefined, operationName: string | undefined): Promise<void> {
+  let document;
+  try {
+    document = parse(query);
+  } catch (error) {
+    res.status(400).json({ errors: [(error as GraphQLError).toJSON()] });
+    return;
+  }
+
+  const errors = validateDocument(schema, document, [...specifiedRules, maxDepthRule]);
+  if (errors.length > 0) {
+    res.status(400).json({ errors: errors.map(error => error.toJSON()) });
+    return;
+  }
+
+  const contacts = queryContacts(document, operationName, variables, await listSizes());
+  if (contacts > MAX_QUERY_CONTACTS) {
+    res.status(400).json({
+      errors: [{ message: `Query can return up to ${contacts} contacts, more than the limit of ${MAX_QUERY_CONTACTS}; ask for smaller pages` }]
+    });
+    return;
+  }
+
+  const result = await execute({
+    schema,
+    document,
+    variableValues: variables ?? null,
+    operationName: operationName ?? null,
+    contextValue: createContext(req)
+  });
+
+  res.json({
+    ...(result.errors
+      ? {
+          errors: result.errors.map((error) => {
+            if (!error.originalError || error.originalError instanceof GraphQLError) return error.toJSON();
+            req.log.error('Error resolving GraphQL query', { error: error.originalError, path: error.path });
+            return { message: 'Internal server error', ...(error.path ? { path: error.path } : {}) };
+          })
+        }
+      : {}),
+    data: result.data ?? null
+  });
+}
+
+export const graphqlRouter = Router();
+
+// Queries as JSON: { query, variables, operationName }
+graphqlRouter.post('/graphql', optionalAuth(), rateLimit('list'), validate('POST /graphql'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { query, variables, operationName } = req.body;
+    await runQuery(req, res, query, variables ?? undefined, operationName ?? undefined);
+
+  } catch (error) {
+    req.log.error('Error running GraphQL query', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+});
+
+// Queries in the query string, which HTTP caches and conditional requests work for
+graphqlRouter.get('/graphql', optionalAuth(), rateLimit('list'), validate('GET /graphql'), httpCache('contacts', directoryLastModified), async (req: Request, res: Response): Promise<void> => {
+  try {
+    let variables: Record<string, unknown> | undefined;
+    if (req.query.variables !== undefined) {
+      try {
+        variables = JSON.parse(req.query.variables as string);
+      } catch {
+        variables = undefined;
+      }
+      if (!variables || typeof variables !== 'object' || Array.isArray(variables)) {
+        res.status(400).json({ errors: [{ message: 'variables must be a JSON object' }] });
+        return;
+      }
+    }
+
+    await runQuery(req, res, req.query.query as string, variables, req.query.operationName as string | undefined);
+
+  } catch (error) {
+    req.log.error('Error running GraphQL query', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+});
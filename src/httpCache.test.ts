@@ -0,0 +1,106 @@
+import request from 'supertest';
+import app from './server';
+import { referenceCache } from './referenceCache';
+import { Repositories } from './repositories';
+import { authHeader, loadFixture } from './test/helpers';
+
+let repos: Repositories;
+
+beforeEach(async () => {
+  repos = await loadFixture();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('conditional GET requests', () => {
+  it('answer a current ETag with 304', async () => {
+    const first = await request(app).get('/api/provinces').set(authHeader('viewer'));
+    const second = await request(app).get('/api/provinces').set(authHeader('viewer')).set('If-None-Match', first.headers.etag!);
+
+    expect(first.headers.etag).toBeDefined();
+    expect(first.headers['cache-control']).toBe('private, max-age=3600');
+    expect(first.headers.vary).toContain('Authorization');
+    expect(second.status).toBe(304);
+  });
+
+  it('answer a current If-Modified-Since with 304 before reading the contacts', async () => {
+    await request(app).patch('/api/contacts/2').set(authHeader('editor')).send({ rank: 'Director' });
+    const changedAt = new Date(Date.now() - 60000);
+    jest.spyOn(repos.changes, 'latest').mockResolvedValue({ change_id: 1, table_name: 'phone_record', row_id: 2, changed_at: changedAt });
+    const first = await request(app).get('/api/contacts').set(authHeader('viewer'));
+    const list = jest.spyOn(repos.contacts, 'list');
+
+    const second = await request(app).get('/api/contacts').set(authHeader('viewer')).set('If-Modified-Since', first.headers['last-modified']!);
+
+    expect(first.headers['cache-control']).toBe('private, no-cache');
+    expect(second.status).toBe(304);
+    expect(list).not.toHaveBeenCalled();
+  });
+
+  it('give no date while the latest change is in the current second', async () => {
+    await request(app).patch('/api/contacts/2').set(authHeader('editor')).send({ rank: 'Director' });
+    const now = new Date();
+    jest.spyOn(repos.changes, 'latest').mockResolvedValue({ change_id: 1, table_name: 'phone_record', row_id: 2, changed_at: now });
+
+    const res = await request(app).get('/api/contacts').set(authHeader('viewer')).set('If-Modified-Since', now.toUTCString());
+
+    expect(res.status).toBe(200);
+    expect(res.headers['last-modified']).toBeUndefined();
+  });
+
+  it('return the new data once it changed', async () => {
+    await request(app).patch('/api/contacts/2').set(authHeader('editor')).send({ rank: 'Director' });
+    const first = await request(app).get('/api/contacts/2').set(authHeader('viewer'));
+
+    await request(app).patch('/api/contacts/2').set(authHeader('editor')).send({ rank: 'Chief Officer' });
+    const second = await request(app).get('/api/contacts/2').set(authHeader('viewer')).set('If-None-Match', first.headers.etag!);
+
+    expect(second.status).toBe(200);
+    expect(second.body.data.rank).toBe('Chief Officer');
+  });
+
+  it('are not cached for health checks', async () => {
+    const res = await request(app).get('/api/health');
+
+    expect(res.headers['cache-control']).toBe('no-store');
+  });
+});
+
+describe('compression', () => {
+  it('gzips responses for clients that accept it', async () => {
+    const res = await request(app).get('/api/contacts').query({ limit: 50 }).set(authHeader('viewer')).set('Accept-Encoding', 'gzip');
+
+    expect(res.headers['content-encoding']).toBe('gzip');
+    expect(res.body.data).toHaveLength(12);
+  });
+});
+
+describe('referenceCache', () => {
+  it('reads the lists once', async () => {
+    const provinces = jest.spyOn(repos.lookups, 'provinces');
+
+    await request(app).get('/api/provinces').set(authHeader('viewer'));
+    await request(app).get('/api/states').set(authHeader('viewer'));
+    const res = await request(app).get('/api/locations').set(authHeader('viewer'));
+
+    expect(res.body.data).toContain('Kano Zonal Office');
+    expect(provinces).toHaveBeenCalledTimes(1);
+  });
+
+  it('reloads the lists when a lookup table changed', async () => {
+    await referenceCache.get();
+    expect(await referenceCache.check()).toBe(false);
+
+    // As the sync triggers log a change made directly in MySQL
+    jest.spyOn(repos.changes, 'latest').mockResolvedValue({ change_id: 7, table_name: 'province_info', row_id: 1, changed_at: new Date() });
+    const provinces = jest.spyOn(repos.lookups, 'provinces').mockResolvedValue([{ province_id: 1, province: 'North-Central' }]);
+
+    expect(await referenceCache.check()).toBe(true);
+    const res = await request(app).get('/api/provinces').set(authHeader('viewer'));
+
+    expect(res.body.data).toEqual([{ province_id: 1, province: 'North-Central' }]);
+    expect(provinces).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,46 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { CACHE_POLICIES, CachePolicy, config } from './config';
+import { repositories } from './repositories';
+
+// HTTP caching of the GET routes. Express gives every res.json/res.send body an ETag and
+// answers an If-None-Match that matches it with 304 Not Modified. This adds the
+// Cache-Control of the route's policy (CACHE_CONTROL_<POLICY>) and a Last-Modified date,
+// so If-Modified-Since works too; a request that is fresh by its date is answered before
+// the route does any work. Dates are to the second, so while the latest change is in the
+// current second no date is given: another change in the same second wouldn't move it.
+
+export { CACHE_POLICIES };
+export type { CachePolicy };
+
+// When the data behind a response last changed, null if unknown
+export type LastModified = (req: Request) => Promise<Date | null>;
+
+// When anything in the directory last changed, by the change log
+export async function directoryLastModified(): Promise<Date | null> {
+  const change = await repositories().changes.latest();
+  return change ? change.changed_at : null;
+}
+
+export function httpCache(policy: CachePolicy, lastModified?: LastModified): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      res.setHeader('Cache-Control', config.http.cacheControl[policy]);
+      // What a caller gets depends on who they are
+      res.vary('Authorization');
+      res.vary('X-API-Key');
+
+      const date = lastModified ? await lastModified(req) : null;
+      if (date && Math.floor(date.getTime() / 1000) < Math.floor(Date.now() / 1000)) {
+        res.setHeader('Last-Modified', date.toUTCString());
+        // Without an If-None-Match only the date decides
+        if (!req.get('If-None-Match') && req.fresh) {
+          res.status(304).end();
+          return;
+        }
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
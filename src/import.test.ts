@@ -0,0 +1,65 @@
+import request from 'supertest';
+import app from './server';
+import { authHeader, loadFixture } from './test/helpers';
+
+beforeEach(async () => {
+  await loadFixture();
+});
+
+const CSV = [
+  'Name,Phone,Province,State,Location',
+  'Maryam Idris,08031234599,North Central,FCT Abuja,Lagos Zonal Office',
+  'Ibrahim Musa,0803 123 4502,North West,Kano,Kano Zonal Office',
+  'No Number,,North West,Kano,'
+].join('\n');
+
+const importCsv = (csv: string, query: Record<string, string> = {}) =>
+  request(app)
+    .post('/api/contacts/import')
+    .query(query)
+    .set(authHeader('editor'))
+    .set('Content-Type', 'text/csv')
+    .send(csv);
+
+describe('POST /api/contacts/import', () => {
+  it('checks a file without importing it by default', async () => {
+    const res = await importCsv(CSV);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toMatchObject({
+      dryRun: true,
+      committed: false,
+      summary: { total: 3, ok: 1, errors: 1, duplicates: 1, imported: 0 }
+    });
+    expect(res.body.data.rows.map((row: { status: string }) => row.status)).toEqual(['ok', 'duplicate', 'error']);
+
+    const list = await request(app).get('/api/contacts').set(authHeader('viewer'));
+    expect(list.body.pagination.total).toBe(12);
+  });
+
+  it('imports nothing when a row has errors', async () => {
+    const res = await importCsv(CSV, { dryRun: 'false' });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error).toBe('Import has errors, nothing was imported');
+  });
+
+  it('imports a clean file', async () => {
+    const res = await importCsv(CSV.split('\n').slice(0, 2).join('\n'), { dryRun: 'false' });
+
+    expect(res.status).toBe(201);
+    expect(res.body.data.summary.imported).toBe(1);
+
+    const found = await request(app).get('/api/contacts').query({ search: 'Maryam' }).set(authHeader('viewer'));
+    expect(found.body.data).toEqual([expect.objectContaining({ name: 'Maryam Idris', location: 'Lagos Zonal Office' })]);
+  });
+
+  it('rejects bodies it cannot read', async () => {
+    const empty = await importCsv('');
+    const json = await request(app).post('/api/contacts/import').set(authHeader('editor')).send({ name: 'x' });
+
+    expect(empty.status).toBe(400);
+    expect(json.status).toBe(400);
+    expect(json.body.error).toBe('Send a CSV (text/csv) or XLSX file, or set format=csv|xlsx');
+  });
+});
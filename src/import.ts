@@ -0,0 +1,500 @@
+import ExcelJS from 'exceljs';
+import express, { Router, Request, Response } from 'express';
+import { requireRole } from './auth';
+import { validate } from './validation';
+import { Category, CATEGORY_GROUPS, categoryResolver, findCategoryGroup } from './categories';
+import { isValidPhone, normalizePhone, phoneMatchKey } from './phone';
+import { searchIndex } from './search';
+import { AuditContext, auditContext } from './audit';
+import { repositories } from './repositories';
+import { config } from './config';
+
+// Bulk import of staff phone records from the spreadsheets sent in by the states
+
+export const IMPORT_FORMATS = ['csv', 'xlsx'] as const;
+export type ImportFormat = typeof IMPORT_FORMATS[number];
+
+export interface ImportOptions {
+  dryRun: boolean;
+  allowDuplicates: boolean;
+  audit: AuditContext;
+}
+
+export interface ImportRowReport {
+  row: number;
+  status: 'ok' | 'error' | 'duplicate';
+  name: string;
+  errors: string[];
+  unknown: { field: string; value: string }[];
+  duplicates: { source: 'file' | 'database'; row?: number; id?: string; reason: string }[];
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  committed: boolean;
+  summary: {
+    total: number;
+    ok: number;
+    errors: number;
+    duplicates: number;
+    imported: number;
+  };
+  unknownNames: {
+    province: string[];
+    state: string[];
+    location: string[];
+  };
+  rows: ImportRowReport[];
+}
+
+// Column headers we understand, after lower-casing and turning spaces/dashes into underscores
+const HEADER_ALIASES: Record<string, string> = {
+  name: 'name',
+  full_name: 'name',
+  fullname: 'name',
+  first_name: 'f_name',
+  firstname: 'f_name',
+  f_name: 'f_name',
+  last_name: 'l_name',
+  lastname: 'l_name',
+  l_name: 'l_name',
+  surname: 'l_name',
+  rank: 'rank',
+  designation: 'rank',
+  phone: 'phone',
+  phone1: 'phone1',
+  phone_1: 'phone1',
+  phone2: 'phone2',
+  phone_2: 'phone2',
+  province: 'province',
+  state: 'state',
+  location: 'location',
+  category: 'location',
+  category_type: 'category_type',
+  categorytype: 'category_type'
+};
+
+const PHONE_COLUMNS = ['phone', 'phone1', 'phone2'] as const;
+
+// A data row keyed by canonical column name, with its row number in the source file
+export interface SourceRow {
+  row: number;
+  values: Record<string, string>;
+}
+
+// Parse CSV text (RFC 4180: quoted fields, doubled quotes, CRLF or LF line endings)
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+// Read the first worksheet of an XLSX file as rows of displayed cell text
+export async function parseXlsx(buffer: Buffer): Promise<string[][]> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer as any);
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+
+  const rows: string[][] = [];
+  for (let r = 1; r <= sheet.rowCount; r++) {
+    const row = sheet.getRow(r);
+    const cells: string[] = [];
+    for (let c = 1; c <= sheet.columnCount; c++) {
+      cells.push(row.getCell(c).text || '');
+    }
+    rows.push(cells);
+  }
+  return rows;
+}
+
+// Turn raw rows into keyed source rows using the header row; unknown columns are ignored
+function toSourceRows(rows: string[][]): { rows: SourceRow[]; error?: string } {
+  const [header, ...data] = rows;
+  if (!header) {
+    return { rows: [], error: 'File is empty' };
+  }
+
+  const columns = header.map(cell => HEADER_ALIASES[cell.trim().toLowerCase().replace(/[\s-]+/g, '_')]);
+  if (!columns.includes('name') && !columns.includes('f_name')) {
+    return { rows: [], error: 'Header row needs a name (or first_name) column' };
+  }
+  if (!PHONE_COLUMNS.some(column => columns.includes(column))) {
+    return { rows: [], error: 'Header row needs a phone, phone1 or phone2 column' };
+  }
+
+  const sourceRows: SourceRow[] = [];
+  data.forEach((cells, index) => {
+    // Skip blank lines, spreadsheets often have a few at the end
+    if (cells.every(cell => !cell.trim())) return;
+
+    const values: Record<string, string> = {};
+    columns.forEach((column, i) => {
+      if (column && values[column] === undefined) {
+        values[column] = (cells[i] || '').trim();
+      }
+    });
+    sourceRows.push({ row: index + 2, values });
+  });
+
+  return { rows: sourceRows };
+}
+
+export async function readImportFile(buffer: Buffer, format: ImportFormat): Promise<{ rows: SourceRow[]; error?: string }> {
+  const rows = format === 'xlsx' ? await parseXlsx(buffer) : parseCsv(buffer.toString('utf8'));
+  return toSourceRows(rows);
+}
+
+function normalizeName(value: string): string {
+  return value.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+// Lookup tables and existing records, loaded once per import
+interface ImportContext {
+  provinces: Map<string, number>;
+  states: Map<string, number>;
+  categories: Map<string, Category[]>;
+  phones: Map<string, string[]>;
+  names: Map<string, string[]>;
+}
+
+async function loadImportContext(): Promise<ImportContext> {
+  const provinces = new Map<string, number>();
+  (await repositories().lookups.provinces()).forEach(row => provinces.set(normalizeName(row.province || ''), row.province_id));
+
+  const states = new Map<string, number>();
+  (await repositories().lookups.states()).forEach(row => states.set(normalizeName(row.state_name || ''), row.state_id));
+
+  // Make sure categories added since the last refresh are known
+  await categoryResolver.refresh();
+  const categories = new Map<string, Category[]>();
+  categoryResolver.list().forEach(category => {
+    const key = normalizeName(category.label);
+    categories.set(key, [...(categories.get(key) || []), category]);
+  });
+
+  const phones = new Map<string, string[]>();
+  const names = new Map<string, string[]>();
+  (await repositories().contacts.findAll({})).forEach(row => {
+    const id = row.record_id.toString();
+    for (const column of PHONE_COLUMNS) {
+      if (!row[column]) continue;
+      const key = phoneMatchKey(row[column]);
+      const ids = phones.get(key) || [];
+      if (key && !ids.includes(id)) phones.set(key, [...ids, id]);
+    }
+    const nameKey = `${normalizeName(`${row.f_name || ''} ${row.l_name || ''}`)}|${row.state_id || 0}`;
+    names.set(nameKey, [...(names.get(nameKey) || []), id]);
+  });
+
+  return { provinces, states, categories, phones, names };
+}
+
+// Validate one source row and map it onto phone_record columns
+function buildImportRecord(
+  source: SourceRow,
+  context: ImportContext
+): { report: ImportRowReport; record: Record<string, string | number> } {
+  const { values } = source;
+  const report: ImportRowReport = { row: source.row, status: 'ok', name: '', errors: [], unknown: [], duplicates: [] };
+  const record: Record<string, string | number> = {};
+
+  // Either a full name, or first and last name columns
+  if (values.name) {
+    const parts = values.name.split(/\s+/);
+    record.f_name = parts[0] || '';
+    record.l_name = parts.slice(1).join(' ');
+  } else {
+    record.f_name = values.f_name || '';
+    record.l_name = values.l_name || '';
+  }
+  report.name = `${record.f_name} ${record.l_name}`.trim();
+  if (!report.name) {
+    report.errors.push('name is required');
+  } else if (report.name.length > 100) {
+    report.errors.push('name must be at most 100 characters');
+  }
+
+  for (const column of PHONE_COLUMNS) {
+    const raw = values[column] || '';
+    if (!raw) {
+      record[column] = '';
+      continue;
+    }
+    const phone = normalizePhone(raw);
+    if (!isValidPhone(phone)) {
+      report.errors.push(`${column} '${raw}' is not a valid phone number`);
+    }
+    record[column] = phone;
+  }
+  if (!record.phone && !record.phone1 && !record.phone2) {
+    report.errors.push('At least one of phone, phone1 or phone2 is required');
+  }
+
+  record.rank = values.rank || '';
+  if (record.rank.length > 100) {
+    report.errors.push('rank must be at most 100 characters');
+  }
+
+  record.province_id = 0;
+  if (values.province) {
+    const id = context.provinces.get(normalizeName(values.province));
+    if (id === undefined) {
+      report.unknown.push({ field: 'province', value: values.province });
+    } else {
+      record.province_id = id;
+    }
+  }
+
+  record.state_id = 0;
+  if (values.state) {
+    const id = context.states.get(normalizeName(values.state));
+    if (id === undefined) {
+      report.unknown.push({ field: 'state', value: values.state });
+    } else {
+      record.state_id = id;
+    }
+  }
+
+  for (const { idColumn } of CATEGORY_GROUPS) {
+    record[idColumn] = 0;
+  }
+  if (values.location) {
+    const group = values.category_type ? findCategoryGroup(values.category_type.toLowerCase()) : undefined;
+    if (values.category_type && !group) {
+      report.errors.push(`Unknown category_type '${values.category_type}'`);
+    } else {
+      const matches = (context.categories.get(normalizeName(values.location)) || [])
+        .filter(category => !group || category.group === group.group);
+      const category = matches[0];
+      if (!category) {
+        report.unknown.push({ field: 'location', value: values.location });
+      } else {
+        record[findCategoryGroup(category.group)!.idColumn] = category.id;
+      }
+    }
+  }
+
+  report.unknown.forEach(({ field, value }) => report.errors.push(`Unknown ${field} '${value}'`));
+
+  return { report, record };
+}
+
+// Validate a whole file and, unless it is a dry run, insert it in a single transaction.
+// Nothing is written when any row has errors; likely duplicates are skipped unless allowed.
+export async function importContacts(sourceRows: SourceRow[], options: ImportOptions): Promise<ImportReport> {
+  const context = await loadImportContext();
+  const filePhones = new Map<string, number>();
+  const fileNames = new Map<string, number>();
+  const rows: { report: ImportRowReport; record: Record<string, string | number> }[] = [];
+
+  for (const source of sourceRows) {
+    const { report, record } = buildImportRecord(source, context);
+
+    // Same number already in the directory or earlier in the file
+    const seenKeys = new Set<string>();
+    for (const column of PHONE_COLUMNS) {
+      const phone = record[column] as string;
+      if (!phone) continue;
+      const key = phoneMatchKey(phone);
+      if (seenKeys.has(key)) continue;
+      seenKeys.add(key);
+
+      (context.phones.get(key) || []).forEach(id => {
+        report.duplicates.push({ source: 'database', id, reason: `phone ${phone} already belongs to contact ${id}` });
+      });
+      const earlierRow = filePhones.get(key);
+      if (earlierRow !== undefined) {
+        report.duplicates.push({ source: 'file', row: earlierRow, reason: `phone ${phone} also on row ${earlierRow}` });
+      } else {
+        filePhones.set(key, source.row);
+      }
+    }
+
+    // Same name in the same state
+    if (report.name) {
+      const nameKey = `${normalizeName(report.name)}|${record.state_id}`;
+      (context.names.get(nameKey) || []).forEach(id => {
+        if (!report.duplicates.some(duplicate => duplicate.id === id)) {
+          report.duplicates.push({ source: 'database', id, reason: `same name and state as contact ${id}` });
+        }
+      });
+      const earlierRow = fileNames.get(nameKey);
+      if (earlierRow !== undefined) {
+        if (!report.duplicates.some(duplicate => duplicate.row === earlierRow)) {
+          report.duplicates.push({ source: 'file', row: earlierRow, reason: `same name and state as row ${earlierRow}` });
+        }
+      } else {
+        fileNames.set(nameKey, source.row);
+      }
+    }
+
+    if (report.errors.length > 0) {
+      report.status = 'error';
+    } else if (report.duplicates.length > 0) {
+      report.status = 'duplicate';
+    }
+    rows.push({ report, record });
+  }
+
+  const reports = rows.map(({ report }) => report);
+  const unique = (field: string) => Array.from(new Set(
+    reports.flatMap(report => report.unknown.filter(entry => entry.field === field).map(entry => entry.value))
+  )).sort();
+
+  const result: ImportReport = {
+    dryRun: options.dryRun,
+    committed: false,
+    summary: {
+      total: reports.length,
+      ok: reports.filter(report => report.status === 'ok').length,
+      errors: reports.filter(report => report.status === 'error').length,
+      duplicates: reports.filter(report => report.status === 'duplicate').length,
+      imported: 0
+    },
+    unknownNames: {
+      province: unique('province'),
+      state: unique('state'),
+      location: unique('location')
+    },
+    rows: reports
+  };
+
+  if (options.dryRun || result.summary.errors > 0) {
+    return result;
+  }
+
+  const toInsert = rows.filter(({ report }) =>
+    report.status === 'ok' || (report.status === 'duplicate' && options.allowDuplicates)
+  );
+
+  await repositories().contacts.insertMany(toInsert.map(({ record }) => record), options.audit);
+
+  searchIndex.markStale();
+  result.committed = true;
+  result.summary.imported = toInsert.length;
+  return result;
+}
+
+function detectFormat(req: Request): ImportFormat | null {
+  const format = (req.query.format as string | undefined)?.toLowerCase();
+  if (format) {
+    return IMPORT_FORMATS.includes(format as ImportFormat) ? (format as ImportFormat) : null;
+  }
+  if (req.is('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet')) return 'xlsx';
+  if (req.is('text/csv') || req.is('text/plain')) return 'csv';
+  return null;
+}
+
+export const importRouter = Router();
+
+// Import a CSV or XLSX file sent as the raw request body.
+// Defaults to a dry run; pass dryRun=false to commit.
+importRouter.post(
+  '/api/contacts/import',
+  requireRole('editor'),
+  validate('POST /api/contacts/import'),
+  express.raw({ type: () => true, limit: config.importMaxSize }),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const format = detectFormat(req);
+      if (!format) {
+        res.status(400).json({
+          success: false,
+          error: 'Send a CSV (text/csv) or XLSX file, or set format=csv|xlsx'
+        });
+        return;
+      }
+
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        res.status(400).json({
+          success: false,
+          error: 'Request body is empty'
+        });
+        return;
+      }
+
+      let parsed: { rows: SourceRow[]; error?: string };
+      try {
+        parsed = await readImportFile(req.body, format);
+      } catch (parseError) {
+        parsed = { rows: [], error: `Could not read the ${format.toUpperCase()} file` };
+      }
+
+      const { rows, error } = parsed;
+      if (error) {
+        res.status(400).json({
+          success: false,
+          error
+        });
+        return;
+      }
+
+      // Coerced to booleans, with defaults, by validate()
+      const { dryRun, allowDuplicates } = req.query as unknown as { dryRun: boolean; allowDuplicates: boolean };
+      const report = await importContacts(rows, {
+        dryRun,
+        allowDuplicates,
+        audit: auditContext(req, 'import')
+      });
+
+      if (!report.dryRun && !report.committed) {
+        res.status(400).json({
+          success: false,
+          error: 'Import has errors, nothing was imported',
+          data: report
+        });
+        return;
+      }
+
+      res.status(report.committed ? 201 : 200).json({
+        success: true,
+        data: report
+      });
+
+    } catch (error) {
+      req.log.error('Error importing contacts', { error });
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+);
@@ -0,0 +1,28 @@
+import { encodeCursor } from './contacts';
+import { redact } from './logger';
+
+describe('redact', () => {
+  it('replaces the values of personal fields', () => {
+    expect(redact({ name: 'Amina Bello', firstName: 'Amina', rank: 'Director', password: 'secret' })).toEqual({
+      name: '[REDACTED]',
+      firstName: '[REDACTED]',
+      rank: 'Director',
+      password: '[REDACTED]'
+    });
+  });
+
+  it('replaces list cursors, which hold the sort keys', () => {
+    const cursor = encodeCursor({ sort: 'name', keys: ['Amina', 'Bello'], id: 1, direction: 'next' });
+
+    expect(redact({ query: { sort: 'name', cursor, limit: '20' } })).toEqual({
+      query: { sort: 'name', cursor: '[REDACTED]', limit: '20' }
+    });
+  });
+
+  it('masks phone numbers anywhere in strings', () => {
+    expect(redact({ error: 'Duplicate entry 0803 123 4501', date: '2026-10-18T10:00:00Z' })).toEqual({
+      error: 'Duplicate entry [phone …01]',
+      date: '2026-10-18T10:00:00Z'
+    });
+  });
+});
@@ -0,0 +1,157 @@
+import { Request, Response, NextFunction } from 'express';
+import { config, LOG_LEVELS, LogLevel } from './config';
+
+// Structured logging: one JSON object per line on stdout, with a level, a message and
+// fields. Loggers made for a request (req.log) add its request id to every line.
+// Names and phone numbers in fields are redacted before anything is written.
+
+export { LOG_LEVELS };
+export type { LogLevel };
+
+export type LogFields = Record<string, unknown>;
+
+const LOG_LEVEL = config.log.level;
+// LOG_FORMAT=text gives one readable line per entry instead of JSON, for local development
+const LOG_FORMAT = config.log.format;
+// SQL statements are only logged when asked for: their parameters are what users searched for
+const LOG_SQL = config.log.sql;
+
+// Fields whose values are always replaced, wherever they appear (compared lowercased,
+// without - and _)
+const REDACTED_KEYS = new Set([
+  'name', 'fname', 'lname', 'firstname', 'lastname', 'search', 'q',
+  // List cursors carry the sort keys of a row, e.g. the names
+  'cursor',
+  'phone', 'phone1', 'phone2', 'phones', 'whatsapp', 'e164', 'raw',
+  'password', 'passwordhash', 'token', 'authorization', 'cookie', 'xapikey', 'apikey', 'key'
+]);
+
+// Anything in a string that looks like a phone number: 7+ digits with the usual separators
+// (but not a date)
+const PHONE_PATTERN = /\+?\d[\d\s().-]{5,}\d/g;
+const DATE_PATTERN = /^\d{4}-\d\d-\d\d/;
+
+function maskPhones(value: string): string {
+  return value.replace(PHONE_PATTERN, match => {
+    const digits = match.replace(/\D/g, '');
+    return digits.length >= 7 && !DATE_PATTERN.test(match) ? `[phone …${digits.slice(-2)}]` : match;
+  });
+}
+
+function serializeError(error: Error & { code?: unknown }): LogFields {
+  return {
+    name: error.name,
+    message: maskPhones(error.message),
+    ...(error.code !== undefined ? { code: error.code } : {}),
+    ...(error.stack ? { stack: maskPhones(error.stack) } : {})
+  };
+}
+
+// Copy of a value that is safe to log: redacted keys replaced, phone numbers masked
+export function redact(value: unknown, depth = 0): unknown {
+  if (typeof value === 'string') return maskPhones(value);
+  if (value instanceof Error) return serializeError(value);
+  if (value === null || typeof value !== 'object') return value;
+  if (value instanceof Date) return value.toISOString();
+  if (depth >= 6) return '[…]';
+  if (Array.isArray(value)) return value.map(item => redact(item, depth + 1));
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      REDACTED_KEYS.has(key.toLowerCase().replace(/[-_]/g, '')) && item !== undefined && item !== ''
+        ? '[REDACTED]'
+        : redact(item, depth + 1)
+    ])
+  );
+}
+
+function formatText(entry: LogFields): string {
+  const { time, level, msg, ...fields } = entry;
+  const rest = Object.entries(fields)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}=${JSON.stringify(value)}`);
+  return [time, String(level).toUpperCase().padEnd(5), msg, ...rest].join(' ');
+}
+
+export class Logger {
+  constructor(private readonly fields: LogFields = {}) {}
+
+  // A logger adding the given fields to every line, e.g. the request id. These are set by
+  // code, not taken from requests, so they are written as given.
+  child(fields: LogFields): Logger {
+    return new Logger({ ...this.fields, ...fields });
+  }
+
+  debug(msg: string, fields?: LogFields): void {
+    this.log('debug', msg, fields);
+  }
+
+  info(msg: string, fields?: LogFields): void {
+    this.log('info', msg, fields);
+  }
+
+  warn(msg: string, fields?: LogFields): void {
+    this.log('warn', msg, fields);
+  }
+
+  error(msg: string, fields?: LogFields): void {
+    this.log('error', msg, fields);
+  }
+
+  // A SQL statement about to run, at debug level when LOG_SQL=true. String parameters are
+  // user input (names, search terms), so only their length is logged.
+  sql(statement: string, params: unknown[] = []): void {
+    if (!LOG_SQL) return;
+    this.write('debug', 'SQL', {
+      sql: statement.replace(/\s+/g, ' ').trim(),
+      params: params.map(param => (typeof param === 'string' ? `[string(${param.length})]` : param))
+    });
+  }
+
+  log(level: LogLevel, msg: string, fields?: LogFields): void {
+    if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(LOG_LEVEL)) return;
+    this.write(level, msg, fields);
+  }
+
+  private write(level: LogLevel, msg: string, fields?: LogFields): void {
+    const entry = {
+      time: new Date().toISOString(),
+      level,
+      msg: maskPhones(msg),
+      ...this.fields,
+      ...(redact(fields || {}) as LogFields)
+    };
+    process.stdout.write(`${LOG_FORMAT === 'text' ? formatText(entry) : JSON.stringify(entry)}\n`);
+  }
+}
+
+export const logger = new Logger();
+
+// Middleware logging every request once it is answered (or abandoned by the client),
+// with its status and how long it took
+export function accessLog(req: Request, res: Response, next: NextFunction): void {
+  const started = process.hrtime.bigint();
+  let logged = false;
+
+  const done = (): void => {
+    if (logged) return;
+    logged = true;
+    const status = res.writableFinished ? res.statusCode : 499;
+    const level: LogLevel = status >= 500 ? 'error' : status >= 400 ? 'warn' : 'info';
+    req.log.log(level, 'request', {
+      method: req.method,
+      path: req.originalUrl.split('?')[0],
+      query: req.query,
+      status,
+      durationMs: Math.round(Number(process.hrtime.bigint() - started) / 1e5) / 10,
+      bytes: Number(res.getHeader('Content-Length')) || undefined,
+      caller: req.auth ? `${req.auth.type}:${req.auth.name}` : undefined,
+      ip: req.ip
+    });
+  };
+
+  res.on('finish', done);
+  res.on('close', done);
+  next();
+}
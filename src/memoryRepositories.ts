@@ -0,0 +1,595 @@
+import fs from 'fs';
+import { Readable } from 'stream';
+import type { AuditContext } from './audit';
+import { hashApiKey, hashPassword } from './auth';
+import type { Category, CategoryGroup, CategoryGroupInfo } from './categories';
+import { logger } from './logger';
+import { PHONE_FIELDS, isPhoneQuery, phoneSearchDigits } from './phone';
+import {
+  ChangeRow,
+  CONTACT_SORTS,
+  ContactFilters,
+  ContactGroupColumn,
+  ContactPage,
+  ContactPageQuery,
+  ContactRecord,
+  ContactRow,
+  ContactSort,
+  DuplicateError,
+  PlacementCount,
+  ProvinceRow,
+  Repositories,
+  StateRow
+} from './repositories';
+
+// Repositories over an in-memory copy of a fixture file (DATA_BACKEND=memory), so the API
+// runs without MySQL. Writes behave like the MySQL tables and triggers: they are kept
+// until the process exits and show up in the audit trail and the sync change log.
+
+// Contents of a fixture file. Users and API keys are given in plain text and hashed on load.
+export interface Fixture {
+  provinces?: ProvinceRow[];
+  states?: StateRow[];
+  categories?: Partial<Record<CategoryGroup, { id: number; label: string }[]>>;
+  // phone_record rows, without the timestamps
+  contacts?: ContactRecord[];
+  users?: { username: string; password: string; role: string; disabled?: boolean }[];
+  apiKeys?: { name: string; key: string; role: string }[];
+}
+
+// phone_record columns copied into the audit trail, as by the audit triggers
+const AUDITED_COLUMNS = [
+  'record_id', 'rank', 'f_name', 'l_name', 'phone', 'phone1', 'phone2', 'location_id',
+  'mk_cat_id', 'md_cat_id', 'muas_cat_id', 'nrt_cat_id', 'field_cat_id', 'medical_cat_id',
+  'service_cat_id', 'province_id', 'state_id', 'deleted_at', 'hide_from_public', 'help_desk'
+];
+
+// The values each sort order compares, as MySQL returns them for a cursor
+const SORT_KEYS: Record<ContactSort, (row: ContactRow) => string[]> = {
+  id: () => [],
+  name: row => [row.f_name || '', row.l_name || ''],
+  rank: row => [row.rank || ''],
+  state: row => [String(row.state_id || 0)],
+  province: row => [String(row.province_id || 0)],
+  updated: row => [formatDateTime(row.updated_at)]
+};
+
+// Sort orders on an id, whose keys compare as numbers
+const NUMERIC_SORTS: ReadonlySet<ContactSort> = new Set(['state', 'province']);
+
+interface Data {
+  records: Map<number, ContactRow>;
+  provinces: ProvinceRow[];
+  states: StateRow[];
+  categories: Partial<Record<CategoryGroup, { id: number; label: string }[]>>;
+  merges: Map<number, { survivor_id: number; merged_by: string; merged_at: Date }>;
+  users: any[];
+  apiKeys: any[];
+  auditLog: any[];
+  changes: ChangeRow[];
+}
+
+// Column defaults of phone_record rows
+const RECORD_DEFAULTS = {
+  rank: '', f_name: '', l_name: '', province_id: 0, state_id: 0,
+  deleted_at: null, hide_from_public: 0, help_desk: 0
+};
+
+// YYYY-MM-DD HH:MM:SS, as DATE_FORMAT gives it
+function formatDateTime(date: Date): string {
+  return date.toISOString().slice(0, 19).replace('T', ' ');
+}
+
+// Text comparisons ignore case, like the MySQL collation
+function sameText(a: unknown, b: string): boolean {
+  return String(a ?? '').toLowerCase() === b.toLowerCase();
+}
+
+function containsText(value: unknown, text: string): boolean {
+  return String(value ?? '').toLowerCase().includes(text.toLowerCase());
+}
+
+function compareText(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { sensitivity: 'base' });
+}
+
+// The page of the query from the matching rows, as the MySQL list query reads it
+function toContactPage(rows: ContactRow[], { sort, after, limit, offset }: ContactPageQuery): ContactPage {
+  const keysOf = SORT_KEYS[sort];
+  const backwards = after !== null && after.backwards;
+  const ascending = (CONTACT_SORTS[sort].direction === 'ASC') !== backwards;
+  const numeric = NUMERIC_SORTS.has(sort);
+
+  const compare = (aKeys: string[], aId: number, bKeys: string[], bId: number): number => {
+    for (let i = 0; i < aKeys.length; i++) {
+      const result = numeric ? Number(aKeys[i]) - Number(bKeys[i]) : compareText(aKeys[i]!, bKeys[i]!);
+      if (result !== 0) return ascending ? result : -result;
+    }
+    return ascending ? aId - bId : bId - aId;
+  };
+
+  let ordered = rows
+    .map(row => ({ row, keys: keysOf(row) }))
+    .sort((a, b) => compare(a.keys, a.row.record_id, b.keys, b.row.record_id));
+  ordered = after
+    ? ordered.filter(entry => compare(entry.keys, entry.row.record_id, after.keys, after.id) > 0)
+    : ordered.slice(offset);
+
+  const page = ordered.slice(0, limit);
+  if (backwards) page.reverse();
+  return {
+    rows: page.map(entry => entry.row),
+    sortKeys: page.map(entry => entry.keys),
+    more: ordered.length > limit
+  };
+}
+
+// A stored phone number with its formatting characters removed
+function phoneDigits(value: unknown): string {
+  return String(value ?? '').replace(/[ ()+-]/g, '');
+}
+
+async function loadFixture(fixture: Fixture): Promise<Data> {
+  const now = new Date();
+  const records = new Map<number, ContactRow>();
+  for (const contact of fixture.contacts || []) {
+    const id = Number(contact.record_id);
+    records.set(id, { created_at: now, updated_at: now, ...RECORD_DEFAULTS, ...contact, record_id: id });
+  }
+
+  const users = [];
+  for (const [index, user] of (fixture.users || []).entries()) {
+    users.push({
+      user_id: index + 1,
+      username: user.username,
+      password_hash: await hashPassword(user.password),
+      role: user.role,
+      created_at: now,
+      disabled_at: user.disabled ? now : null
+    });
+  }
+
+  const apiKeys = (fixture.apiKeys || []).map((apiKey, index) => ({
+    api_key_id: index + 1,
+    name: apiKey.name,
+    key_hash: hashApiKey(apiKey.key),
+    key_prefix: apiKey.key.slice(0, 8),
+    role: apiKey.role,
+    created_at: now,
+    last_used_at: null,
+    revoked_at: null
+  }));
+
+  return {
+    records,
+    provinces: fixture.provinces || [],
+    states: fixture.states || [],
+    categories: fixture.categories || {},
+    merges: new Map(),
+    users,
+    apiKeys,
+    auditLog: [],
+    changes: []
+  };
+}
+
+// Repositories over a fixture, given as a file name or as its contents
+export function createMemoryRepositories(source: string | Fixture): Repositories {
+  let loading: Promise<Data> | null = null;
+  const data = (): Promise<Data> => {
+    if (!loading) {
+      const fixture = typeof source === 'string' ? JSON.parse(fs.readFileSync(source, 'utf8')) : source;
+      loading = loadFixture(fixture);
+    }
+    return loading;
+  };
+
+  const joined = (store: Data, record: ContactRow): ContactRow => ({
+    ...record,
+    province: store.provinces.find(row => row.province_id === record.province_id)?.province ?? null,
+    state_name: store.states.find(row => row.state_id === record.state_id)?.state_name ?? null
+  });
+
+  // Non-deleted contacts matching the filters, in record id order
+  const select = async (filters: ContactFilters): Promise<ContactRow[]> => {
+    const store = await data();
+    const search = filters.search ? filters.search.trim() : '';
+    const digits = search && !filters.skipPhoneSearch && isPhoneQuery(search) ? phoneSearchDigits(search) : '';
+    const searchFields = filters.skipPhoneSearch ? ['f_name', 'l_name'] as const : ['f_name', 'l_name', ...PHONE_FIELDS] as const;
+    const province = filters.province ? filters.province.trim() : '';
+    const state = filters.state ? filters.state.trim() : '';
+    const ids = filters.ids ? new Set(filters.ids) : null;
+
+    // A location filter picks the first location containing the text
+    let locationId: number | null = null;
+    if (filters.location && filters.location.trim()) {
+      const location = (store.categories.location || []).find(entry => containsText(entry.label, filters.location!.trim()));
+      locationId = location ? location.id : -1;
+    }
+
+    return Array.from(store.records.values())
+      .filter(record => record.deleted_at === null)
+      .map(record => joined(store, record))
+      .filter(row => {
+        if (digits && !PHONE_FIELDS.some(field => phoneDigits(row[field]).includes(digits))) return false;
+        if (!digits && search && !searchFields.some(field => containsText(row[field], search))) return false;
+        if (province && !containsText(row.province, province)) return false;
+        if (state && !containsText(row.state_name, state)) return false;
+        if (locationId !== null && row.location_id !== locationId) return false;
+        if (filters.provinceId !== undefined && row.province_id !== filters.provinceId) return false;
+        if (filters.stateId !== undefined && row.state_id !== filters.stateId) return false;
+        if (filters.publicOnly && Number(row.hide_from_public)) return false;
+        if (filters.helpDeskOnly && !Number(row.help_desk)) return false;
+        if (filters.category) {
+          const value = row[filters.category.group.idColumn] || 0;
+          if (filters.category.id === null ? value <= 0 : value !== filters.category.id) return false;
+        }
+        return ids === null || ids.has(row.record_id);
+      })
+      .sort((a, b) => a.record_id - b.record_id);
+  };
+
+  // Log a contact write like the audit and sync triggers do
+  const logWrite = (store: Data, before: ContactRow | null, after: ContactRow, audit: AuditContext): void => {
+    store.changes.push({
+      change_id: store.changes.length > 0 ? store.changes[store.changes.length - 1]!.change_id + 1 : 1,
+      table_name: 'phone_record',
+      row_id: after.record_id,
+      changed_at: new Date()
+    });
+
+    const values = (record: ContactRow) => Object.fromEntries(AUDITED_COLUMNS.map(column => [
+      column,
+      record[column] instanceof Date ? formatDateTime(record[column]) : record[column] ?? null
+    ]));
+    const afterValues = values(after);
+    const beforeValues = before ? values(before) : null;
+    if (beforeValues && JSON.stringify(beforeValues) === JSON.stringify(afterValues)) return;
+
+    let action: string = audit.action || 'update';
+    if (!audit.action && !before) action = 'create';
+    if (!audit.action && before && before.deleted_at === null && after.deleted_at !== null) action = 'delete';
+    if (!audit.action && before && before.deleted_at !== null && after.deleted_at === null) action = 'restore';
+
+    store.auditLog.push({
+      audit_id: store.auditLog.length + 1,
+      table_name: 'phone_record',
+      row_id: after.record_id,
+      action,
+      actor: audit.actor,
+      request_id: audit.requestId,
+      before_values: beforeValues,
+      after_values: afterValues,
+      created_at: new Date()
+    });
+  };
+
+  // Change a contact in place, if it exists and passes the check
+  const change = async (
+    id: number,
+    check: (record: ContactRow) => boolean,
+    values: Record<string, unknown>,
+    audit: AuditContext
+  ): Promise<boolean> => {
+    const store = await data();
+    const before = store.records.get(id);
+    if (!before || !check(before)) return false;
+    const after = { ...before, ...values, updated_at: new Date() };
+    store.records.set(id, after);
+    logWrite(store, before, after, audit);
+    return true;
+  };
+
+  const insert = (store: Data, record: ContactRecord, audit: AuditContext): number => {
+    const id = Math.max(0, ...Array.from(store.records.keys())) + 1;
+    const now = new Date();
+    const row = { created_at: now, updated_at: now, ...RECORD_DEFAULTS, ...record, record_id: id };
+    store.records.set(id, row);
+    logWrite(store, null, row, audit);
+    return id;
+  };
+
+  return {
+    backend: 'memory',
+
+    contacts: {
+      async list(query: ContactPageQuery) {
+        return toContactPage(await select(query.filters), query);
+      },
+
+      async listPerGroup(query: ContactPageQuery, column: ContactGroupColumn, values: number[]) {
+        const rows = await select(query.filters);
+        return new Map(values.map(value => [value, toContactPage(rows.filter(row => row[column] === value), query)]));
+      },
+
+      async count(filters) {
+        return (await select(filters)).length;
+      },
+
+      findAll: select,
+
+      stream(filters) {
+        return Readable.from((async function* () {
+          yield* await select(filters);
+        })());
+      },
+
+      async countByPlacement(filters, groups) {
+        const counts = new Map<string, PlacementCount>();
+        for (const row of await select(filters)) {
+          const placement: ContactRow = { province_id: row.province_id ?? null, state_id: row.state_id ?? null };
+          groups.forEach(({ idColumn }) => {
+            placement[idColumn] = row[idColumn] || 0;
+          });
+          const key = JSON.stringify(placement);
+          const entry = counts.get(key) || { ...placement, count: 0 };
+          entry.count++;
+          counts.set(key, entry);
+        }
+        return Array.from(counts.values());
+      },
+
+      async countByRank(filters) {
+        const counts = new Map<string | null, number>();
+        for (const row of await select(filters)) {
+          const rank = String(row.rank ?? '').trim() || null;
+          counts.set(rank, (counts.get(rank) || 0) + 1);
+        }
+        return Array.from(counts.entries()).map(([rank, count]) => ({ rank, count }));
+      },
+
+      async findReferencing(refs) {
+        const rows = await select({});
+        return rows.filter(row => refs.some(({ column, ids }) => ids.includes(row[column])));
+      },
+
+      async findById(id, includeDeleted = false) {
+        const store = await data();
+        const record = store.records.get(id);
+        return record && (includeDeleted || record.deleted_at === null) ? joined(store, record) : null;
+      },
+
+      async findMergedId(id) {
+        const merge = (await data()).merges.get(id);
+        return merge ? merge.survivor_id : null;
+      },
+
+      async findMergedIds(survivorId) {
+        const merged: number[] = [];
+        (await data()).merges.forEach((merge, mergedId) => {
+          if (merge.survivor_id === survivorId) merged.push(mergedId);
+        });
+        return merged;
+      },
+
+      async countAll() {
+        return (await data()).records.size;
+      },
+
+      async sample(limit) {
+        const store = await data();
+        return Array.from(store.records.values()).slice(0, limit).map(record => joined(store, record));
+      },
+
+      async create(record, audit) {
+        return insert(await data(), record, audit);
+      },
+
+      update(id, record, audit) {
+        return change(id, row => row.deleted_at === null, record, audit);
+      },
+
+      softDelete(id, audit) {
+        return change(id, row => row.deleted_at === null, { deleted_at: new Date() }, audit);
+      },
+
+      restore(id, audit) {
+        return change(id, row => row.deleted_at !== null, { deleted_at: null }, audit);
+      },
+
+      async merge(survivorId, mergeIds, record, audit) {
+        const store = await data();
+        if ([survivorId, ...mergeIds].some(id => store.records.get(id)?.deleted_at !== null)) return false;
+
+        await change(survivorId, () => true, record, audit);
+        for (const id of mergeIds) {
+          await change(id, () => true, { deleted_at: new Date() }, audit);
+        }
+        // Records merged into the merged ones earlier now point at the survivor too
+        store.merges.forEach(merge => {
+          if (mergeIds.includes(merge.survivor_id)) merge.survivor_id = survivorId;
+        });
+        store.merges.delete(survivorId);
+        for (const id of mergeIds) {
+          store.merges.set(id, { survivor_id: survivorId, merged_by: audit.actor, merged_at: new Date() });
+        }
+        return true;
+      },
+
+      async insertMany(records, audit) {
+        const store = await data();
+        records.forEach(record => insert(store, record, audit));
+      }
+    },
+
+    lookups: {
+      async provinces(ids) {
+        return (await data()).provinces
+          .filter(row => !ids || ids.includes(row.province_id))
+          .sort((a, b) => compareText(a.province, b.province));
+      },
+
+      async states(ids) {
+        return (await data()).states
+          .filter(row => !ids || ids.includes(row.state_id))
+          .sort((a, b) => compareText(a.state_name, b.state_name));
+      },
+
+      async findProvinceId(name) {
+        const row = (await data()).provinces.find(province => sameText(province.province, name));
+        return row ? row.province_id : null;
+      },
+
+      async findStateId(name) {
+        const row = (await data()).states.find(state => sameText(state.state_name, name));
+        return row ? row.state_id : null;
+      },
+
+      async categoryLabels(group: CategoryGroupInfo) {
+        return (await data()).categories[group.group] || [];
+      },
+
+      async findCategoryByLabel(label, groups) {
+        const store = await data();
+        for (const info of groups) {
+          const entry = (store.categories[info.group] || []).find(category => sameText(category.label, label));
+          if (entry) return { group: info.group, id: entry.id, label: entry.label } as Category;
+        }
+        return null;
+      },
+
+      async findCategoryById(group, id) {
+        const entry = ((await data()).categories[group.group] || []).find(category => category.id === id);
+        return entry ? { group: group.group, id: entry.id, label: entry.label } : null;
+      },
+
+      async countRows() {
+        const store = await data();
+        return {
+          location: (store.categories.location || []).length,
+          provinces: store.provinces.length,
+          states: store.states.length
+        };
+      }
+    },
+
+    users: {
+      async findLogin(username) {
+        return (await data()).users.find(user => sameText(user.username, username) && user.disabled_at === null) || null;
+      },
+
+      async createUser(username, passwordHash, role) {
+        const store = await data();
+        if (store.users.some(user => sameText(user.username, username))) {
+          throw new DuplicateError('Username already exists');
+        }
+        const id = store.users.length + 1;
+        store.users.push({ user_id: id, username, password_hash: passwordHash, role, created_at: new Date(), disabled_at: null });
+        return id;
+      },
+
+      async listUsers() {
+        return (await data()).users
+          .map(({ user_id, username, role, created_at, disabled_at }) => ({ id: user_id, username, role, created_at, disabled_at }))
+          .sort((a, b) => compareText(a.username, b.username));
+      },
+
+      async findApiKey(keyHash) {
+        return (await data()).apiKeys.find(apiKey => apiKey.key_hash === keyHash && apiKey.revoked_at === null) || null;
+      },
+
+      async touchApiKey(id) {
+        const apiKey = (await data()).apiKeys.find(row => row.api_key_id === id);
+        if (apiKey) apiKey.last_used_at = new Date();
+      },
+
+      async createApiKey(name, keyHash, keyPrefix, role) {
+        const store = await data();
+        const id = store.apiKeys.length + 1;
+        store.apiKeys.push({
+          api_key_id: id,
+          name,
+          key_hash: keyHash,
+          key_prefix: keyPrefix,
+          role,
+          created_at: new Date(),
+          last_used_at: null,
+          revoked_at: null
+        });
+        return id;
+      },
+
+      async listApiKeys() {
+        return (await data()).apiKeys
+          .map(({ api_key_id, key_hash: _hash, ...rest }) => ({ id: api_key_id, ...rest }))
+          .reverse();
+      },
+
+      async revokeApiKey(id) {
+        const apiKey = (await data()).apiKeys.find(row => row.api_key_id === id && row.revoked_at === null);
+        if (!apiKey) return false;
+        apiKey.revoked_at = new Date();
+        return true;
+      }
+    },
+
+    audit: {
+      async search(filters, limit, offset) {
+        const rows = (await data()).auditLog
+          .filter(row =>
+            (filters.table === undefined || row.table_name === filters.table) &&
+            (filters.recordId === undefined || row.row_id === filters.recordId) &&
+            (!filters.from || row.created_at >= filters.from) &&
+            (!filters.to || row.created_at <= filters.to) &&
+            (!filters.actor || row.actor === filters.actor) &&
+            (!filters.action || row.action === filters.action) &&
+            (!filters.requestId || row.request_id === filters.requestId)
+          )
+          .reverse();
+        return { rows: rows.slice(offset, offset + limit), total: rows.length };
+      },
+
+      async history(recordIds) {
+        return (await data()).auditLog
+          .filter(row => row.table_name === 'phone_record' && recordIds.includes(row.row_id))
+          .reverse();
+      }
+    },
+
+    changes: {
+      async bounds(settleSeconds) {
+        const { changes } = await data();
+        const cutoff = Date.now() - settleSeconds * 1000;
+        const recent = changes.findIndex(row => row.changed_at.getTime() > cutoff);
+        const settled = recent === -1 ? changes.length : recent;
+        return {
+          oldest: changes.length > 0 ? changes[0]!.change_id : null,
+          latest: changes.length > 0 ? changes[changes.length - 1]!.change_id : 0,
+          settled: settled > 0 ? changes[settled - 1]!.change_id : 0
+        };
+      },
+
+      async since(changeId, limit) {
+        return (await data()).changes.filter(row => row.change_id > changeId).slice(0, limit);
+      },
+
+      async latest(tables) {
+        const { changes } = await data();
+        const matching = tables ? changes.filter(row => tables.includes(row.table_name)) : changes;
+        return matching.length > 0 ? matching[matching.length - 1]! : null;
+      }
+    },
+
+    async connect() {
+      try {
+        const store = await data();
+        logger.info('Using in-memory data', {
+          fixture: typeof source === 'string' ? source : 'inline',
+          contacts: store.records.size
+        });
+        return true;
+      } catch (error) {
+        logger.error('Failed to load the data fixture', { error });
+        return false;
+      }
+    },
+
+    async ping() {
+      await data();
+    },
+
+    async close() {
+      // Nothing to release
+    }
+  };
+}
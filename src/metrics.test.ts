@@ -0,0 +1,12 @@
+import request from 'supertest';
+import app from './server';
+
+describe('GET /metrics', () => {
+  it('serves Prometheus metrics', async () => {
+    await request(app).get('/api/health');
+    const res = await request(app).get('/metrics');
+
+    expect(res.status).toBe(200);
+    expect(res.text).toContain('http_requests_total{method="GET",route="/api/health",status="200"}');
+  });
+});
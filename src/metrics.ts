@@ -0,0 +1,169 @@
+import crypto from 'crypto';
+import { Router, Request, Response, NextFunction } from 'express';
+import client from 'prom-client';
+import { Pool } from 'mysql2/promise';
+import { config } from './config';
+
+// Prometheus metrics, served at GET /metrics: HTTP requests per route, the MySQL pool,
+// query durations, category lookups and the default Node.js process metrics.
+
+export const registry = new client.Registry();
+client.collectDefaultMetrics({ register: registry });
+
+const httpRequests = new client.Counter({
+  name: 'http_requests_total',
+  help: 'HTTP requests answered, by route and status',
+  labelNames: ['method', 'route', 'status'] as const,
+  registers: [registry]
+});
+
+const httpRequestDuration = new client.Histogram({
+  name: 'http_request_duration_seconds',
+  help: 'Time to answer HTTP requests, by route and status',
+  labelNames: ['method', 'route', 'status'] as const,
+  buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+  registers: [registry]
+});
+
+const queryDuration = new client.Histogram({
+  name: 'mysql_query_duration_seconds',
+  help: 'Duration of MySQL queries, by statement type',
+  labelNames: ['statement'] as const,
+  buckets: [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5],
+  registers: [registry]
+});
+
+const queryErrors = new client.Counter({
+  name: 'mysql_query_errors_total',
+  help: 'MySQL queries that failed, by statement type',
+  labelNames: ['statement'] as const,
+  registers: [registry]
+});
+
+export const categoryLookups = new client.Counter({
+  name: 'category_lookups_total',
+  help: 'Location lookups by the category resolver, by lookup table and whether it was cached',
+  labelNames: ['table', 'result'] as const,
+  registers: [registry]
+});
+
+// Route pattern of a request (/api/contacts/:id), so ids don't each get their own series
+function routeLabel(req: Request): string {
+  if (req.route) return `${req.baseUrl}${req.route.path}`;
+  return req.baseUrl || 'unmatched';
+}
+
+// Middleware timing every request until its response is sent
+export function recordRequestMetrics(req: Request, res: Response, next: NextFunction): void {
+  const stopTimer = httpRequestDuration.startTimer();
+  res.on('finish', () => {
+    const labels = { method: req.method, route: routeLabel(req), status: String(res.statusCode) };
+    httpRequests.inc(labels);
+    stopTimer(labels);
+  });
+  next();
+}
+
+// SELECT, INSERT, UPDATE, ... from the start of a statement
+function statementType(sql: unknown): string {
+  const text = typeof sql === 'string' ? sql : (sql as { sql?: string } | null)?.sql || '';
+  const keyword = /^\s*(\w+)/.exec(text)?.[1]?.toUpperCase();
+  return keyword && ['SELECT', 'INSERT', 'UPDATE', 'DELETE', 'SET', 'START', 'COMMIT', 'ROLLBACK'].includes(keyword)
+    ? keyword
+    : 'OTHER';
+}
+
+// Time the query and execute methods of a pool or connection
+function instrumentQueries(target: object): void {
+  for (const method of ['query', 'execute']) {
+    const original = (target as any)[method].bind(target);
+    (target as any)[method] = async (sql: unknown, ...args: unknown[]) => {
+      const statement = statementType(sql);
+      const stopTimer = queryDuration.startTimer({ statement });
+      try {
+        return await original(sql, ...args);
+      } catch (error) {
+        queryErrors.inc({ statement });
+        throw error;
+      } finally {
+        stopTimer();
+      }
+    };
+  }
+}
+
+// Record query durations for everything run through the pool, including connections taken
+// from it, and report its connections. The pool counts come from mysql2 internals, which
+// have no public API.
+export function instrumentPool(pool: Pool): void {
+  instrumentQueries(pool);
+  const getConnection = pool.getConnection.bind(pool);
+  pool.getConnection = async () => {
+    const connection = await getConnection();
+    instrumentQueries(connection);
+    return connection;
+  };
+
+  const core = (pool as any).pool;
+  const size = (queue: { length: number } | undefined) => (queue ? queue.length : 0);
+
+  new client.Gauge({
+    name: 'mysql_pool_connections',
+    help: 'Connections of the MySQL pool, by state',
+    labelNames: ['state'] as const,
+    registers: [registry],
+    collect() {
+      const all = size(core?._allConnections);
+      const idle = size(core?._freeConnections);
+      this.set({ state: 'active' }, all - idle);
+      this.set({ state: 'idle' }, idle);
+    }
+  });
+
+  new client.Gauge({
+    name: 'mysql_pool_connection_limit',
+    help: 'Most connections the MySQL pool opens',
+    registers: [registry],
+    collect() {
+      this.set(core?.config?.connectionLimit || 0);
+    }
+  });
+
+  new client.Gauge({
+    name: 'mysql_pool_wait_queue',
+    help: 'Requests waiting for a free MySQL connection',
+    registers: [registry],
+    collect() {
+      this.set(size(core?._connectionQueue));
+    }
+  });
+}
+
+// Scrapes need METRICS_TOKEN as a bearer token when it is set
+const METRICS_TOKEN = config.metricsToken;
+
+export const metricsRouter = Router();
+
+// Metrics in the Prometheus text format
+metricsRouter.get('/metrics', async (req: Request, res: Response): Promise<void> => {
+  const expected = Buffer.from(`Bearer ${METRICS_TOKEN}`);
+  const given = Buffer.from(req.get('Authorization') || '');
+  if (METRICS_TOKEN && (given.length !== expected.length || !crypto.timingSafeEqual(given, expected))) {
+    res.status(401).json({
+      success: false,
+      error: 'Authentication required'
+    });
+    return;
+  }
+
+  try {
+    res.setHeader('Content-Type', registry.contentType);
+    res.send(await registry.metrics());
+  } catch (error) {
+    req.log.error('Error collecting metrics', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+});
@@ -0,0 +1,64 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { loadMigrations, MIGRATIONS_DIR } from './migrations';
+
+const dirs: string[] = [];
+
+afterAll(() => {
+  dirs.forEach(dir => fs.rmSync(dir, { recursive: true, force: true }));
+});
+
+// Directory with the given (empty) migration files
+function migrationsDir(files: string[]): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'migrations-'));
+  dirs.push(dir);
+  files.forEach(file => fs.writeFileSync(path.join(dir, file), `-- ${file}\n`));
+  return dir;
+}
+
+describe('loadMigrations', () => {
+  it('reads the migrations in sql/, oldest first, each with a down script', () => {
+    const migrations = loadMigrations(MIGRATIONS_DIR);
+
+    expect(migrations[0]).toMatchObject({ version: '000', name: 'base_schema' });
+    expect(migrations.map(migration => migration.version)).toEqual(
+      [...migrations.map(migration => migration.version)].sort()
+    );
+    for (const migration of migrations) {
+      expect(migration.downFile).not.toBeNull();
+      expect(migration.checksum).toMatch(/^[0-9a-f]{64}$/);
+    }
+  });
+
+  it('pairs up and down scripts and ignores other files', () => {
+    const dir = migrationsDir(['002_second.sql', '001_first.sql', '001_first.down.sql', 'README.md', 'notes.sql']);
+
+    const migrations = loadMigrations(dir);
+
+    expect(migrations).toEqual([
+      expect.objectContaining({ version: '001', name: 'first', downFile: path.join(dir, '001_first.down.sql') }),
+      expect.objectContaining({ version: '002', name: 'second', downFile: null })
+    ]);
+  });
+
+  it('rejects two migrations with the same version', () => {
+    const dir = migrationsDir(['001_first.sql', '001_other.sql']);
+
+    expect(() => loadMigrations(dir)).toThrow('Two migrations have version 001');
+  });
+
+  it('rejects a down script without an up script', () => {
+    const dir = migrationsDir(['001_first.sql', '002_second.down.sql']);
+
+    expect(() => loadMigrations(dir)).toThrow('002_second.down.sql has no up script');
+  });
+
+  it('changes the checksum when a migration is edited', () => {
+    const dir = migrationsDir(['001_first.sql']);
+    const before = loadMigrations(dir)[0]!.checksum;
+    fs.appendFileSync(path.join(dir, '001_first.sql'), 'ALTER TABLE x ADD COLUMN y INT;\n');
+
+    expect(loadMigrations(dir)[0]!.checksum).not.toBe(before);
+  });
+});
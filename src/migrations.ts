@@ -0,0 +1,226 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import mysql, { Connection, RowDataPacket } from 'mysql2/promise';
+import { config } from './config';
+import { dbConfig } from './db';
+
+// Versioned schema migrations for the MySQL backend. Each migration is a file in sql/
+// named <version>_<name>.sql, versions zero-padded to the same width, with an optional
+// <version>_<name>.down.sql that undoes it. Applied versions are recorded in schema_migrations.
+// MySQL can't roll back DDL, so a migration that fails halfway has to be fixed by hand
+// before running migrate again.
+
+export const MIGRATIONS_DIR = config.migrationsDir;
+
+const MIGRATION_FILE = /^(\d+)_([a-z0-9_]+?)(\.down)?\.sql$/;
+
+// Only one migrate, rollback or baseline runs at a time
+const LOCK_NAME = 'schema_migrations';
+const LOCK_TIMEOUT_SECONDS = 10;
+
+export interface Migration {
+  version: string;
+  name: string;
+  upFile: string;
+  downFile: string | null;
+  // sha256 of the up script, to spot migrations edited after they were applied
+  checksum: string;
+}
+
+export interface MigrationStatus {
+  version: string;
+  name: string;
+  // missing: applied, but its file is gone; changed: applied, but its file was edited since
+  state: 'applied' | 'pending' | 'changed' | 'missing';
+  appliedAt: Date | null;
+}
+
+interface AppliedRow extends RowDataPacket {
+  version: string;
+  name: string;
+  checksum: string;
+  applied_at: Date;
+}
+
+export class MigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MigrationError';
+  }
+}
+
+// The migrations in a directory, oldest first
+export function loadMigrations(dir: string = MIGRATIONS_DIR): Migration[] {
+  const ups = new Map<string, { name: string; file: string }>();
+  const downs = new Map<string, string>();
+
+  for (const file of fs.readdirSync(dir).sort()) {
+    const match = MIGRATION_FILE.exec(file);
+    if (!match) continue;
+    const version = match[1]!;
+    const name = match[2]!;
+
+    if (match[3]) {
+      downs.set(version, path.join(dir, file));
+    } else if (ups.has(version)) {
+      throw new MigrationError(`Two migrations have version ${version}: ${ups.get(version)!.name} and ${name}`);
+    } else {
+      ups.set(version, { name, file: path.join(dir, file) });
+    }
+  }
+
+  for (const [version, file] of downs) {
+    if (!ups.has(version)) {
+      throw new MigrationError(`${path.basename(file)} has no up script`);
+    }
+  }
+
+  return Array.from(ups.entries()).map(([version, { name, file }]) => ({
+    version,
+    name,
+    upFile: file,
+    downFile: downs.get(version) || null,
+    checksum: crypto.createHash('sha256').update(fs.readFileSync(file)).digest('hex')
+  }));
+}
+
+// Run work on a connection of its own that can send a whole script at once, holding the
+// migration lock, with the tracking table in place
+async function withMigrationConnection<T>(work: (connection: Connection) => Promise<T>): Promise<T> {
+  const connection = await mysql.createConnection({ ...dbConfig, multipleStatements: true });
+  try {
+    const [locked] = await connection.query<RowDataPacket[]>('SELECT GET_LOCK(?, ?) AS locked', [LOCK_NAME, LOCK_TIMEOUT_SECONDS]);
+    if (!locked[0] || locked[0].locked !== 1) {
+      throw new MigrationError('Another migration is running, try again when it has finished');
+    }
+
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version VARCHAR(20) NOT NULL,
+        name VARCHAR(100) NOT NULL,
+        checksum CHAR(64) NOT NULL,
+        applied_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (version)
+      )`);
+    return await work(connection);
+  } finally {
+    await connection.end();
+  }
+}
+
+async function appliedMigrations(connection: Connection): Promise<Map<string, AppliedRow>> {
+  const [rows] = await connection.query<AppliedRow[]>('SELECT * FROM schema_migrations ORDER BY version');
+  return new Map(rows.map(row => [row.version, row]));
+}
+
+// Every migration on disk or in the database, oldest first
+export async function migrationStatus(dir: string = MIGRATIONS_DIR): Promise<MigrationStatus[]> {
+  const migrations = loadMigrations(dir);
+
+  return withMigrationConnection(async connection => {
+    const applied = await appliedMigrations(connection);
+    const statuses: MigrationStatus[] = migrations.map(migration => {
+      const row = applied.get(migration.version);
+      return {
+        version: migration.version,
+        name: migration.name,
+        state: !row ? 'pending' : row.checksum === migration.checksum ? 'applied' : 'changed',
+        appliedAt: row ? row.applied_at : null
+      };
+    });
+
+    for (const row of applied.values()) {
+      if (!migrations.some(migration => migration.version === row.version)) {
+        statuses.push({ version: row.version, name: row.name, state: 'missing', appliedAt: row.applied_at });
+      }
+    }
+    return statuses.sort((a, b) => a.version.localeCompare(b.version));
+  });
+}
+
+// Apply the pending migrations up to and including the target version (default: all).
+// Returns the migrations applied.
+export async function migrate(target?: string, dir: string = MIGRATIONS_DIR): Promise<Migration[]> {
+  const migrations = loadMigrations(dir);
+  if (target !== undefined && !migrations.some(migration => migration.version === target)) {
+    throw new MigrationError(`No migration has version ${target}`);
+  }
+
+  return withMigrationConnection(async connection => {
+    const applied = await appliedMigrations(connection);
+    const pending = migrations.filter(migration =>
+      !applied.has(migration.version) && (target === undefined || migration.version <= target)
+    );
+
+    const done: Migration[] = [];
+    for (const migration of pending) {
+      try {
+        await connection.query(fs.readFileSync(migration.upFile, 'utf8'));
+      } catch (error) {
+        throw new MigrationError(`Migration ${migration.version}_${migration.name} failed: ${(error as Error).message}`);
+      }
+      await connection.query(
+        'INSERT INTO schema_migrations (version, name, checksum) VALUES (?, ?, ?)',
+        [migration.version, migration.name, migration.checksum]
+      );
+      done.push(migration);
+    }
+    return done;
+  });
+}
+
+// Undo the most recently applied migrations, newest first. Returns the migrations undone.
+export async function rollback(steps = 1, dir: string = MIGRATIONS_DIR): Promise<Migration[]> {
+  const migrations = loadMigrations(dir);
+
+  return withMigrationConnection(async connection => {
+    const applied = await appliedMigrations(connection);
+    const versions = Array.from(applied.keys()).sort().reverse().slice(0, steps);
+
+    // Check every step can be undone before undoing any
+    const toUndo = versions.map(version => {
+      const migration = migrations.find(candidate => candidate.version === version);
+      if (!migration) {
+        throw new MigrationError(`Migration ${version}_${applied.get(version)!.name} is applied but its file is missing`);
+      }
+      if (!migration.downFile) {
+        throw new MigrationError(`Migration ${version}_${migration.name} has no down script`);
+      }
+      return migration;
+    });
+
+    const done: Migration[] = [];
+    for (const migration of toUndo) {
+      try {
+        await connection.query(fs.readFileSync(migration.downFile!, 'utf8'));
+      } catch (error) {
+        throw new MigrationError(`Rolling back ${migration.version}_${migration.name} failed: ${(error as Error).message}`);
+      }
+      await connection.query('DELETE FROM schema_migrations WHERE version = ?', [migration.version]);
+      done.push(migration);
+    }
+    return done;
+  });
+}
+
+// Record the migrations up to and including a version as applied without running them,
+// for databases whose schema was set up by hand. Returns the migrations recorded.
+export async function baseline(version: string, dir: string = MIGRATIONS_DIR): Promise<Migration[]> {
+  const migrations = loadMigrations(dir);
+  if (!migrations.some(migration => migration.version === version)) {
+    throw new MigrationError(`No migration has version ${version}`);
+  }
+
+  return withMigrationConnection(async connection => {
+    const applied = await appliedMigrations(connection);
+    const recorded = migrations.filter(migration => migration.version <= version && !applied.has(migration.version));
+    for (const migration of recorded) {
+      await connection.query(
+        'INSERT INTO schema_migrations (version, name, checksum) VALUES (?, ?, ?)',
+        [migration.version, migration.name, migration.checksum]
+      );
+    }
+    return recorded;
+  });
+}
@@ -0,0 +1,672 @@
+import { PoolConnection, ResultSetHeader } from 'mysql2/promise';
+import { Readable } from 'stream';
+import { pool, testDatabaseConnection } from './db';
+import type { AuditContext } from './audit';
+import type { Category, CategoryGroupInfo } from './categories';
+import { logger } from './logger';
+import { PHONE_FIELDS, isPhoneQuery, phoneSearchDigits } from './phone';
+import {
+  ChangeRow,
+  CONTACT_SORTS,
+  ContactFilters,
+  ContactGroupColumn,
+  ContactPage,
+  ContactPageQuery,
+  ContactRecord,
+  ContactRow,
+  ContactSort,
+  DuplicateError,
+  PlacementCount,
+  Repositories
+} from './repositories';
+
+// Repositories over the MySQL database (DATA_BACKEND=mysql, the default)
+
+// Columns needed to build a Contact
+const CONTACT_COLUMNS = `
+    pr.record_id,
+    pr.rank,
+    pr.f_name,
+    pr.l_name,
+    pr.phone,
+    pr.phone1,
+    pr.phone2,
+    pr.location_id,
+    pr.mk_cat_id,
+    pr.md_cat_id,
+    pr.muas_cat_id,
+    pr.nrt_cat_id,
+    pr.field_cat_id,
+    pr.medical_cat_id,
+    pr.service_cat_id,
+    pr.province_id,
+    pr.state_id,
+    pr.hide_from_public,
+    pr.help_desk,
+    p.province,
+    s.state_name`;
+
+// Every non-deleted phone_record row with its province and state.
+// Filters from buildContactFilters are appended to the WHERE clause.
+const CONTACT_FROM = `
+  FROM phone_record pr
+  LEFT JOIN province_info p ON pr.province_id = p.province_id
+  LEFT JOIN state_info s ON pr.state_id = s.state_id
+  WHERE pr.deleted_at IS NULL
+`;
+
+const CONTACT_LIST_QUERY = `
+  SELECT ${CONTACT_COLUMNS}${CONTACT_FROM}`;
+
+// What each sort order sorts and compares on (`expr`), and how the value is read back for
+// a cursor (`select`). The record id is added as the last key. Only raw columns, so each
+// order is read from an index (sql/009_contact_sort_indexes.sql).
+const SORT_COLUMNS: Record<ContactSort, { expr: string; select: string }[]> = {
+  id: [],
+  name: [
+    { expr: 'pr.f_name', select: 'pr.f_name' },
+    { expr: 'pr.l_name', select: 'pr.l_name' }
+  ],
+  rank: [{ expr: 'pr.rank', select: 'pr.rank' }],
+  state: [{ expr: 'pr.state_id', select: 'pr.state_id' }],
+  province: [{ expr: 'pr.province_id', select: 'pr.province_id' }],
+  updated: [{ expr: 'pr.updated_at', select: "DATE_FORMAT(pr.updated_at, '%Y-%m-%d %H:%i:%s')" }]
+};
+
+// Run writes on a connection that carries the audit context, so the triggers log the
+// right actor, request id and action. Transactions are up to the callback.
+export async function withAudit<T>(context: AuditContext, work: (connection: PoolConnection) => Promise<T>): Promise<T> {
+  const connection = await pool.getConnection();
+  let reusable = false;
+  try {
+    await connection.query('SET @audit_actor = ?, @audit_request_id = ?, @audit_action = ?', [
+      context.actor,
+      context.requestId,
+      context.action || null
+    ]);
+    return await work(connection);
+  } finally {
+    // Pooled connections are reused, so the context must not outlive this call
+    try {
+      await connection.query('SET @audit_actor = NULL, @audit_request_id = NULL, @audit_action = NULL');
+      reusable = true;
+    } catch (error) {
+      logger.warn('Failed to clear audit context, dropping connection', { error });
+    }
+    if (reusable) {
+      connection.release();
+    } else {
+      connection.destroy();
+    }
+  }
+}
+
+// A stored phone number with its formatting characters removed
+function phoneDigitsSql(column: string): string {
+  return `REPLACE(REPLACE(REPLACE(REPLACE(REPLACE(COALESCE(${column}, ''), ' ', ''), '-', ''), '(', ''), ')', ''), '+', '')`;
+}
+
+// The WHERE conditions of the contact filters, to append to CONTACT_FROM
+function buildContactFilters(filters: ContactFilters): { where: string; params: any[] } {
+  const { search, location, province, state, category, ids, provinceId, stateId, publicOnly, helpDeskOnly, skipPhoneSearch } = filters;
+  let where = '';
+  const params: any[] = [];
+
+  // Add search filter. Something that looks like a phone number is matched on the digits
+  // of the stored numbers, so 0803..., +234803... and 234 803... all find the same contact.
+  // With skipPhoneSearch only the names are searched.
+  const phoneDigits = search && !skipPhoneSearch && isPhoneQuery(search) ? phoneSearchDigits(search) : '';
+  if (phoneDigits) {
+    where += ` AND (${PHONE_FIELDS.map(field => `${phoneDigitsSql(`pr.${field}`)} LIKE ?`).join(' OR ')})`;
+    params.push(...PHONE_FIELDS.map(() => `%${phoneDigits}%`));
+  } else if (search && search.trim() && skipPhoneSearch) {
+    where += ` AND (pr.f_name LIKE ? OR pr.l_name LIKE ?)`;
+    const searchTerm = `%${search.trim()}%`;
+    params.push(searchTerm, searchTerm);
+  } else if (search && search.trim()) {
+    where += ` AND (pr.f_name LIKE ? OR pr.l_name LIKE ? OR pr.phone LIKE ? OR pr.phone1 LIKE ? OR pr.phone2 LIKE ?)`;
+    const searchTerm = `%${search.trim()}%`;
+    params.push(searchTerm, searchTerm, searchTerm, searchTerm, searchTerm);
+  }
+
+  // Add province filter
+  if (province && province.trim()) {
+    where += ` AND p.province LIKE ?`;
+    params.push(`%${province.trim()}%`);
+  }
+
+  // Add state filter
+  if (state && state.trim()) {
+    where += ` AND s.state_name LIKE ?`;
+    params.push(`%${state.trim()}%`);
+  }
+
+  // Add location filter
+  if (location && location.trim()) {
+    where += ` AND pr.location_id = (SELECT location_id FROM location WHERE location LIKE ? LIMIT 1)`;
+    params.push(`%${location.trim()}%`);
+  }
+
+  // Add category filter: a whole group, or just one category of it
+  if (category) {
+    if (category.id === null) {
+      where += ` AND pr.${category.group.idColumn} > 0`;
+    } else {
+      where += ` AND pr.${category.group.idColumn} = ?`;
+      params.push(category.id);
+    }
+  }
+
+  if (ids) {
+    where += ids.length > 0 ? ' AND pr.record_id IN (?)' : ' AND FALSE';
+    if (ids.length > 0) params.push(ids);
+  }
+
+  if (provinceId !== undefined) {
+    where += ' AND pr.province_id = ?';
+    params.push(provinceId);
+  }
+  if (stateId !== undefined) {
+    where += ' AND pr.state_id = ?';
+    params.push(stateId);
+  }
+
+  if (publicOnly) where += ' AND pr.hide_from_public = 0';
+  if (helpDeskOnly) where += ' AND pr.help_desk = 1';
+
+  return { where, params };
+}
+
+// Build the ORDER BY for a sort, plus the keyset condition when continuing from a row.
+// Going backwards reverses the order; the rows then need reversing back.
+function buildContactOrder(
+  sort: ContactSort,
+  after: ContactPageQuery['after']
+): { select: string; where: string; params: any[]; orderBy: string; reverse: boolean } {
+  const keys = SORT_COLUMNS[sort];
+  const reverse = after !== null && after.backwards;
+  const ascending = (CONTACT_SORTS[sort].direction === 'ASC') !== reverse;
+  const exprs = [...keys.map(key => key.expr), 'pr.record_id'];
+
+  const select = keys.map((key, i) => `,\n    ${key.select} AS sort_key_${i}`).join('');
+  const orderBy = exprs.map(expr => `${expr} ${ascending ? 'ASC' : 'DESC'}`).join(', ');
+
+  let where = '';
+  const params: any[] = [];
+  if (after) {
+    where = ` AND (${exprs.join(', ')}) ${ascending ? '>' : '<'} (${exprs.map(() => '?').join(', ')})`;
+    params.push(...after.keys, after.id);
+  }
+
+  return { select, where, params, orderBy, reverse };
+}
+
+// A page from the rows of a list query, which read one row more than the page
+function toContactPage(result: any[], sort: ContactSort, limit: number, reverse: boolean): ContactPage {
+  const rows = result.slice(0, limit);
+  if (reverse) {
+    rows.reverse();
+  }
+  return {
+    rows,
+    sortKeys: rows.map(row => SORT_COLUMNS[sort].map((_, i) => String(row[`sort_key_${i}`]))),
+    more: result.length > limit
+  };
+}
+
+function insertStatement(record: ContactRecord): [string, any[]] {
+  const columns = Object.keys(record);
+  return [
+    `INSERT INTO phone_record (${columns.map(c => `\`${c}\``).join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`,
+    columns.map(c => record[c])
+  ];
+}
+
+function setClause(record: ContactRecord): [string, any[]] {
+  const columns = Object.keys(record);
+  return [columns.map(c => `\`${c}\` = ?`).join(', '), columns.map(c => record[c])];
+}
+
+export function createMysqlRepositories(): Repositories {
+  return {
+    backend: 'mysql',
+
+    contacts: {
+      async list({ filters, sort, after, limit, offset }: ContactPageQuery) {
+        const { where, params } = buildContactFilters(filters);
+        const order = buildContactOrder(sort, after);
+        const queryParams = [...params, ...order.params];
+
+        // One extra row tells us whether there is another page in this direction.
+        // LIMIT/OFFSET are interpolated as they must be integers
+        const query = `SELECT ${CONTACT_COLUMNS}${order.select}${CONTACT_FROM}` +
+          where + order.where +
+          ` ORDER BY ${order.orderBy} LIMIT ${limit + 1}` + (after ? '' : ` OFFSET ${offset}`);
+
+        logger.sql(query, queryParams);
+        const [result] = await pool.query(query, queryParams);
+        return toContactPage(result as any[], sort, limit, order.reverse);
+      },
+
+      // The query of list() once per value, joined with UNION ALL
+      async listPerGroup({ filters, sort, after, limit, offset }: ContactPageQuery, column: ContactGroupColumn, values: number[]) {
+        const pages = new Map<number, ContactPage>();
+        if (values.length === 0) return pages;
+        const { where, params } = buildContactFilters(filters);
+        const order = buildContactOrder(sort, after);
+
+        // The union's order is only defined by an ORDER BY of its own, on the selected keys
+        const direction = (CONTACT_SORTS[sort].direction === 'ASC') !== order.reverse ? 'ASC' : 'DESC';
+        const unionOrder = [...SORT_COLUMNS[sort].map((_, i) => `sort_key_${i}`), 'record_id']
+          .map(key => `${key} ${direction}`).join(', ');
+        const query = values.map(() =>
+          `(SELECT ${CONTACT_COLUMNS}${order.select}${CONTACT_FROM}` +
+          where + ` AND pr.${column} = ?` + order.where +
+          ` ORDER BY ${order.orderBy} LIMIT ${limit + 1}` + (after ? '' : ` OFFSET ${offset}`) + ')'
+        ).join(' UNION ALL ') + ` ORDER BY ${column}, ${unionOrder}`;
+        const queryParams = values.flatMap(value => [...params, value, ...order.params]);
+
+        logger.sql(query, queryParams);
+        const [result] = await pool.query(query, queryParams);
+
+        for (const value of values) {
+          const rows = (result as any[]).filter(row => row[column] === value);
+          pages.set(value, toContactPage(rows, sort, limit, order.reverse));
+        }
+        return pages;
+      },
+
+      async count(filters) {
+        const { where, params } = buildContactFilters(filters);
+        const [rows] = await pool.query(`SELECT COUNT(*) AS total${CONTACT_FROM}${where}`, params);
+        return Number((rows as any[])[0].total);
+      },
+
+      async findAll(filters) {
+        const { where, params } = buildContactFilters(filters);
+        const [rows] = await pool.query(`${CONTACT_LIST_QUERY}${where} ORDER BY pr.record_id`, params);
+        return rows as ContactRow[];
+      },
+
+      // Rows are streamed from MySQL so large exports don't have to fit in memory
+      stream(filters) {
+        const { where, params } = buildContactFilters(filters);
+        return pool.pool.query(`${CONTACT_LIST_QUERY}${where} ORDER BY pr.record_id`, params).stream({ highWaterMark: 100 });
+      },
+
+      async countByPlacement(filters, groups) {
+        const { where, params } = buildContactFilters(filters);
+        const columns = ['pr.province_id', 'pr.state_id', ...groups.map(group => `pr.${group.idColumn}`)].join(', ');
+        const [rows] = await pool.query(`SELECT ${columns}, COUNT(*) AS count${CONTACT_FROM}${where} GROUP BY ${columns}`, params);
+        return (rows as any[]).map((row): PlacementCount => ({ ...row, count: Number(row.count) }));
+      },
+
+      async countByRank(filters) {
+        const { where, params } = buildContactFilters(filters);
+        const [rows] = await pool.query(
+          `SELECT NULLIF(TRIM(pr.\`rank\`), '') AS rank_name, COUNT(*) AS count${CONTACT_FROM}${where} GROUP BY rank_name`,
+          params
+        );
+        return (rows as any[]).map(row => ({ rank: row.rank_name, count: Number(row.count) }));
+      },
+
+      async findReferencing(refs) {
+        const used = refs.filter(ref => ref.ids.length > 0);
+        if (used.length === 0) return [];
+        const [rows] = await pool.query(
+          `${CONTACT_LIST_QUERY} AND (${used.map(ref => `pr.${ref.column} IN (?)`).join(' OR ')}) ORDER BY pr.record_id`,
+          used.map(ref => ref.ids)
+        );
+        return rows as ContactRow[];
+      },
+
+      async findById(id, includeDeleted = false) {
+        const query = `
+          SELECT ${CONTACT_COLUMNS}
+          FROM phone_record pr
+          LEFT JOIN province_info p ON pr.province_id = p.province_id
+          LEFT JOIN state_info s ON pr.state_id = s.state_id
+          WHERE pr.record_id = ?${includeDeleted ? '' : ' AND pr.deleted_at IS NULL'}
+        `;
+        const [rows] = await pool.execute(query, [id]);
+        return Array.isArray(rows) && rows.length > 0 ? (rows[0] as ContactRow) : null;
+      },
+
+      async findMergedId(id) {
+        const [rows] = await pool.execute('SELECT survivor_id FROM contact_merges WHERE merged_id = ?', [id]);
+        return Array.isArray(rows) && rows.length > 0 ? (rows[0] as any).survivor_id : null;
+      },
+
+      async findMergedIds(survivorId) {
+        const [rows] = await pool.execute('SELECT merged_id FROM contact_merges WHERE survivor_id = ?', [survivorId]);
+        return (rows as any[]).map(row => row.merged_id);
+      },
+
+      async countAll() {
+        const [rows] = await pool.execute('SELECT COUNT(*) as count FROM phone_record');
+        return Number((rows as any[])[0].count);
+      },
+
+      async sample(limit) {
+        const [rows] = await pool.query(`
+          SELECT ${CONTACT_COLUMNS}
+          FROM phone_record pr
+          LEFT JOIN province_info p ON pr.province_id = p.province_id
+          LEFT JOIN state_info s ON pr.state_id = s.state_id
+          LIMIT ?`, [limit]);
+        return rows as ContactRow[];
+      },
+
+      async create(record, audit) {
+        const [result] = await withAudit(audit, connection => connection.execute<ResultSetHeader>(...insertStatement(record)));
+        return result.insertId;
+      },
+
+      async update(id, record, audit) {
+        const [set, params] = setClause(record);
+        const [result] = await withAudit(audit, connection => connection.execute<ResultSetHeader>(
+          `UPDATE phone_record SET ${set} WHERE record_id = ? AND deleted_at IS NULL`,
+          [...params, id]
+        ));
+        return result.affectedRows > 0;
+      },
+
+      async softDelete(id, audit) {
+        const [result] = await withAudit(audit, connection => connection.execute<ResultSetHeader>(
+          'UPDATE phone_record SET deleted_at = NOW() WHERE record_id = ? AND deleted_at IS NULL',
+          [id]
+        ));
+        return result.affectedRows > 0;
+      },
+
+      async restore(id, audit) {
+        const [result] = await withAudit(audit, connection => connection.execute<ResultSetHeader>(
+          'UPDATE phone_record SET deleted_at = NULL WHERE record_id = ? AND deleted_at IS NOT NULL',
+          [id]
+        ));
+        return result.affectedRows > 0;
+      },
+
+      async merge(survivorId, mergeIds, record, audit) {
+        return withAudit(audit, async connection => {
+          try {
+            await connection.beginTransaction();
+            const [set, params] = setClause(record);
+            const [survivor] = await connection.execute<ResultSetHeader>(
+              `UPDATE phone_record SET ${set} WHERE record_id = ? AND deleted_at IS NULL`,
+              [...params, survivorId]
+            );
+            if (survivor.affectedRows === 0) {
+              // The survivor was deleted or merged elsewhere since it was read
+              await connection.rollback();
+              return false;
+            }
+            const [deleted] = await connection.query<ResultSetHeader>(
+              'UPDATE phone_record SET deleted_at = NOW() WHERE record_id IN (?) AND deleted_at IS NULL',
+              [mergeIds]
+            );
+            if (deleted.affectedRows !== mergeIds.length) {
+              // Someone deleted or merged one of the records since they were read
+              await connection.rollback();
+              return false;
+            }
+            // Records merged into the merged ones earlier now point at the survivor too
+            await connection.query('UPDATE contact_merges SET survivor_id = ? WHERE survivor_id IN (?)', [survivorId, mergeIds]);
+            await connection.execute('DELETE FROM contact_merges WHERE merged_id = ?', [survivorId]);
+            await connection.query(
+              'INSERT INTO contact_merges (merged_id, survivor_id, merged_by) VALUES ? ON DUPLICATE KEY UPDATE survivor_id = VALUES(survivor_id), merged_by = VALUES(merged_by), merged_at = NOW()',
+              [mergeIds.map(id => [id, survivorId, audit.actor])]
+            );
+            await connection.commit();
+            return true;
+          } catch (error) {
+            await connection.rollback();
+            throw error;
+          }
+        });
+      },
+
+      async insertMany(records, audit) {
+        await withAudit(audit, async connection => {
+          try {
+            await connection.beginTransaction();
+            for (const record of records) {
+              await connection.execute(...insertStatement(record));
+            }
+            await connection.commit();
+          } catch (error) {
+            await connection.rollback();
+            throw error;
+          }
+        });
+      }
+    },
+
+    lookups: {
+      async provinces(ids) {
+        const [rows] = await pool.query(
+          `SELECT * FROM province_info${ids ? ' WHERE province_id IN (?)' : ''} ORDER BY province`,
+          ids ? [ids.length > 0 ? ids : [0]] : []
+        );
+        return rows as any[];
+      },
+
+      async states(ids) {
+        const [rows] = await pool.query(
+          `SELECT * FROM state_info${ids ? ' WHERE state_id IN (?)' : ''} ORDER BY state_name`,
+          ids ? [ids.length > 0 ? ids : [0]] : []
+        );
+        return rows as any[];
+      },
+
+      async findProvinceId(name) {
+        const [rows] = await pool.execute('SELECT province_id FROM province_info WHERE province = ? LIMIT 1', [name]);
+        return Array.isArray(rows) && rows.length > 0 ? (rows[0] as any).province_id : null;
+      },
+
+      async findStateId(name) {
+        const [rows] = await pool.execute('SELECT state_id FROM state_info WHERE state_name = ? LIMIT 1', [name]);
+        return Array.isArray(rows) && rows.length > 0 ? (rows[0] as any).state_id : null;
+      },
+
+      async categoryLabels(group) {
+        const [rows] = await pool.execute(`SELECT ${group.idColumn} AS id, ${group.labelColumn} AS label FROM ${group.table}`);
+        return rows as { id: number; label: string }[];
+      },
+
+      async findCategoryByLabel(label, groups: readonly CategoryGroupInfo[]) {
+        for (const info of groups) {
+          const [rows] = await pool.execute(
+            `SELECT ${info.idColumn} AS id, ${info.labelColumn} AS label FROM ${info.table} WHERE ${info.labelColumn} = ? LIMIT 1`,
+            [label]
+          );
+          if (Array.isArray(rows) && rows.length > 0) {
+            const row = rows[0] as any;
+            return { group: info.group, id: row.id, label: row.label } as Category;
+          }
+        }
+        return null;
+      },
+
+      async findCategoryById(group, id) {
+        const [rows] = await pool.execute(
+          `SELECT ${group.idColumn} AS id, ${group.labelColumn} AS label FROM ${group.table} WHERE ${group.idColumn} = ?`,
+          [id]
+        );
+        if (!Array.isArray(rows) || rows.length === 0) return null;
+        const row = rows[0] as any;
+        return { group: group.group, id: row.id, label: row.label };
+      },
+
+      async countRows() {
+        const count = async (table: string): Promise<number> => {
+          const [rows] = await pool.execute(`SELECT COUNT(*) as count FROM ${table}`);
+          return Number((rows as any[])[0].count);
+        };
+        return {
+          location: await count('location'),
+          provinces: await count('province_info'),
+          states: await count('state_info')
+        };
+      }
+    },
+
+    users: {
+      async findLogin(username) {
+        const [rows] = await pool.execute(
+          'SELECT user_id, username, password_hash, role FROM users WHERE username = ? AND disabled_at IS NULL LIMIT 1',
+          [username]
+        );
+        return Array.isArray(rows) && rows.length > 0 ? (rows[0] as any) : null;
+      },
+
+      async createUser(username, passwordHash, role) {
+        try {
+          const [result] = await pool.execute<ResultSetHeader>(
+            'INSERT INTO users (username, password_hash, role) VALUES (?, ?, ?)',
+            [username, passwordHash, role]
+          );
+          return result.insertId;
+        } catch (error: any) {
+          if (error.code === 'ER_DUP_ENTRY') {
+            throw new DuplicateError('Username already exists');
+          }
+          throw error;
+        }
+      },
+
+      async listUsers() {
+        const [rows] = await pool.execute(
+          'SELECT user_id AS id, username, role, created_at, disabled_at FROM users ORDER BY username'
+        );
+        return rows as any[];
+      },
+
+      async findApiKey(keyHash) {
+        const [rows] = await pool.execute(
+          'SELECT api_key_id, name, role FROM api_keys WHERE key_hash = ? AND revoked_at IS NULL LIMIT 1',
+          [keyHash]
+        );
+        return Array.isArray(rows) && rows.length > 0 ? (rows[0] as any) : null;
+      },
+
+      async touchApiKey(id) {
+        await pool.execute('UPDATE api_keys SET last_used_at = NOW() WHERE api_key_id = ?', [id]);
+      },
+
+      async createApiKey(name, keyHash, keyPrefix, role) {
+        const [result] = await pool.execute<ResultSetHeader>(
+          'INSERT INTO api_keys (name, key_hash, key_prefix, role) VALUES (?, ?, ?, ?)',
+          [name, keyHash, keyPrefix, role]
+        );
+        return result.insertId;
+      },
+
+      async listApiKeys() {
+        const [rows] = await pool.execute(
+          'SELECT api_key_id AS id, name, key_prefix, role, created_at, last_used_at, revoked_at FROM api_keys ORDER BY created_at DESC'
+        );
+        return rows as any[];
+      },
+
+      async revokeApiKey(id) {
+        const [result] = await pool.execute<ResultSetHeader>(
+          'UPDATE api_keys SET revoked_at = NOW() WHERE api_key_id = ? AND revoked_at IS NULL',
+          [id]
+        );
+        return result.affectedRows > 0;
+      }
+    },
+
+    audit: {
+      async search(filters, limit, offset) {
+        const conditions: string[] = [];
+        const params: any[] = [];
+        const add = (condition: string, value: unknown): void => {
+          conditions.push(condition);
+          params.push(value);
+        };
+
+        if (filters.table !== undefined) add('table_name = ?', filters.table);
+        if (filters.recordId !== undefined) add('row_id = ?', filters.recordId);
+        if (filters.from) add('created_at >= ?', filters.from);
+        if (filters.to) add('created_at <= ?', filters.to);
+        if (filters.actor) add('actor = ?', filters.actor);
+        if (filters.action) add('action = ?', filters.action);
+        if (filters.requestId) add('request_id = ?', filters.requestId);
+
+        const where = conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '';
+        const [countRows] = await pool.query(`SELECT COUNT(*) AS total FROM audit_log${where}`, params);
+        const [rows] = await pool.query(
+          `SELECT * FROM audit_log${where} ORDER BY audit_id DESC LIMIT ? OFFSET ?`,
+          [...params, limit, offset]
+        );
+        return { rows: rows as any[], total: Number((countRows as any[])[0].total) };
+      },
+
+      async history(recordIds) {
+        const [rows] = await pool.query(
+          "SELECT * FROM audit_log WHERE table_name = 'phone_record' AND row_id IN (?) ORDER BY audit_id DESC",
+          [recordIds]
+        );
+        return rows as any[];
+      }
+    },
+
+    changes: {
+      async bounds(settleSeconds) {
+        // The first recent change comes from idx_sync_changes_changed_at; ~0 when there is none
+        const [rows] = await pool.execute(
+          `SELECT
+            (SELECT MIN(change_id) FROM sync_changes) AS oldest,
+            (SELECT MAX(change_id) FROM sync_changes) AS latest,
+            (SELECT MAX(change_id) FROM sync_changes WHERE change_id < COALESCE(
+              (SELECT MIN(change_id) FROM sync_changes WHERE changed_at > NOW() - INTERVAL ? SECOND), ~0
+            )) AS settled`,
+          [settleSeconds]
+        );
+        const bounds = (rows as any[])[0];
+        return {
+          oldest: bounds.oldest === null ? null : Number(bounds.oldest),
+          latest: bounds.latest === null ? 0 : Number(bounds.latest),
+          settled: bounds.settled === null ? 0 : Number(bounds.settled)
+        };
+      },
+
+      async since(changeId, limit) {
+        const [rows] = await pool.execute(
+          `SELECT change_id, table_name, row_id, changed_at FROM sync_changes WHERE change_id > ? ORDER BY change_id LIMIT ${limit}`,
+          [changeId]
+        );
+        return (rows as any[]).map((row): ChangeRow => ({ ...row, change_id: Number(row.change_id) }));
+      },
+
+      async latest(tables) {
+        // MAX per table comes straight from idx_sync_changes_table
+        const [rows] = await pool.query(
+          `SELECT change_id, table_name, row_id, changed_at FROM sync_changes WHERE change_id = (
+            SELECT MAX(change_id) FROM sync_changes${tables ? ' WHERE table_name IN (?)' : ''}
+          )`,
+          tables ? [tables] : []
+        );
+        const row = (rows as any[])[0];
+        return row ? { ...row, change_id: Number(row.change_id) } : null;
+      }
+    },
+
+    connect: testDatabaseConnection,
+
+    async ping() {
+      const connection = await pool.getConnection();
+      try {
+        await connection.execute('SELECT 1 as test');
+      } finally {
+        connection.release();
+      }
+    },
+
+    async close() {
+      await pool.end();
+    }
+  };
+}
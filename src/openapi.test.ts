@@ -0,0 +1,16 @@
+import request from 'supertest';
+import app from './server';
+import { API_ROUTES } from './schemas';
+
+describe('GET /api/openapi.json', () => {
+  it('documents every route', async () => {
+    const res = await request(app).get('/api/openapi.json');
+
+    expect(res.status).toBe(200);
+    expect(res.body.openapi).toMatch(/^3\./);
+    for (const route of Object.values(API_ROUTES)) {
+      const path = route.path.replace(/:(\w+)/g, '{$1}');
+      expect(res.body.paths[path]?.[route.method]).toMatchObject({ operationId: route.operationId });
+    }
+  });
+});
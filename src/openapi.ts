@@ -0,0 +1,205 @@
+import { Router, Request, Response } from 'express';
+import swaggerUi from 'swagger-ui-express';
+import { API_ROUTES, SCHEMAS } from './schemas';
+import { ApiRoute, registerApiRoutes, Schema } from './validation';
+
+// OpenAPI 3.1 document and TypeScript client types, both generated from schemas.ts.
+// Loading this module also registers the schemas for request validation.
+
+registerApiRoutes(API_ROUTES, SCHEMAS);
+
+// Responses every route can give, listed once instead of on each route
+const COMMON_RESPONSES: Record<number, { description: string; roles: boolean }> = {
+  400: { description: 'Invalid request', roles: false },
+  401: { description: 'Missing or invalid credentials', roles: true },
+  403: { description: 'Role not allowed to do this', roles: true },
+  429: { description: 'Rate limit exceeded, see Retry-After', roles: false },
+  500: { description: 'Internal server error', roles: false }
+};
+
+// /api/contacts/:id -> /api/contacts/{id}
+function openApiPath(path: string): string {
+  return path.replace(/:(\w+)/g, '{$1}');
+}
+
+function parameters(schema: Schema | undefined, location: 'query' | 'path'): any[] {
+  if (!schema) return [];
+  const required: string[] = schema.required || [];
+  return Object.entries<Schema>(schema.properties || {}).map(([name, property]) => {
+    const { description, ...rest } = property;
+    return {
+      name,
+      in: location,
+      required: location === 'path' || required.includes(name),
+      ...(description ? { description } : {}),
+      schema: rest
+    };
+  });
+}
+
+function operation(route: ApiRoute): any {
+  const responses: Record<string, any> = {};
+  for (const [status, response] of Object.entries(route.responses)) {
+    responses[status] = {
+      description: response.description,
+      ...(response.schema ? { content: { [response.contentType || 'application/json']: { schema: response.schema } } } : {})
+    };
+  }
+  // Express answers a GET with a current If-None-Match (or If-Modified-Since) this way
+  if (route.method === 'get' && !responses[304]) {
+    responses[304] = { description: 'Not modified since the ETag or date given' };
+  }
+  for (const [status, common] of Object.entries(COMMON_RESPONSES)) {
+    if (responses[status] || (common.roles && !route.role && !(route.optionalAuth && status === '401'))) continue;
+    responses[status] = {
+      description: common.description,
+      content: { 'application/json': { schema: { $ref: '#/components/schemas/ApiError' } } }
+    };
+  }
+
+  let requestBody: any;
+  if (route.bodyContentType) {
+    requestBody = {
+      required: true,
+      content: {
+        [route.bodyContentType]: { schema: { type: 'string' } },
+        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': {
+          schema: { type: 'string', format: 'binary' }
+        }
+      }
+    };
+  } else if (route.body) {
+    requestBody = { required: true, content: { 'application/json': { schema: route.body } } };
+  }
+
+  return {
+    operationId: route.operationId,
+    summary: route.summary,
+    tags: [route.tag],
+    ...(route.deprecated ? { deprecated: true } : {}),
+    ...(route.role
+      ? { security: [{ bearerAuth: [] }, { apiKey: [] }], 'x-required-role': route.role }
+      : { security: route.optionalAuth ? [{}, { bearerAuth: [] }, { apiKey: [] }] : [] }),
+    parameters: [...parameters(route.params, 'path'), ...parameters(route.query, 'query')],
+    ...(requestBody ? { requestBody } : {}),
+    responses
+  };
+}
+
+// The OpenAPI document for the whole API
+export function buildOpenApiDocument(): any {
+  const paths: Record<string, any> = {};
+  for (const route of Object.values(API_ROUTES)) {
+    const path = openApiPath(route.path);
+    paths[path] = { ...paths[path], [route.method]: operation(route) };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Contacts API',
+      version: process.env.npm_package_version || '1.0.0',
+      description: 'Staff contact directory. Every response carries an X-Request-Id header for support requests.'
+    },
+    servers: [{ url: '/' }],
+    paths,
+    components: {
+      schemas: SCHEMAS,
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', description: 'Token from POST /api/auth/login' },
+        apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key' }
+      }
+    }
+  };
+}
+
+// TypeScript for a schema. Object types are written inline, indented by `indent`.
+function toType(schema: Schema, indent = ''): string {
+  if (schema.$ref) return schema.$ref.split('/').pop();
+  if (schema.const !== undefined) return JSON.stringify(schema.const);
+  if (schema.enum) return schema.enum.map((value: unknown) => JSON.stringify(value)).join(' | ');
+
+  if (Array.isArray(schema.type)) {
+    return schema.type.map((type: string) => toType({ ...schema, type }, indent)).join(' | ');
+  }
+
+  switch (schema.type) {
+    case 'string':
+      return 'string';
+    case 'integer':
+    case 'number':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'null':
+      return 'null';
+    case 'array': {
+      const items = toType(schema.items || {}, indent);
+      return /[|&]/.test(items) && !items.startsWith('{') ? `(${items})[]` : `${items}[]`;
+    }
+    case 'object': {
+      if (!schema.properties) return 'Record<string, unknown>';
+      const required: string[] = schema.required || [];
+      const lines = Object.entries<Schema>(schema.properties).map(([name, property]) => {
+        const comment = property.description ? `${indent}  // ${property.description}\n` : '';
+        const optional = required.includes(name) ? '' : '?';
+        return `${comment}${indent}  ${name}${optional}: ${toType(property, `${indent}  `)};`;
+      });
+      return `{\n${lines.join('\n')}\n${indent}}`;
+    }
+    default:
+      return 'unknown';
+  }
+}
+
+function typeName(operationId: string, suffix: string): string {
+  return operationId.charAt(0).toUpperCase() + operationId.slice(1) + suffix;
+}
+
+// TypeScript declarations of the schemas and of each route's query, params, body and
+// success response, for the React Native app to import
+export function generateClientTypes(): string {
+  const out: string[] = [
+    '// Generated from src/schemas.ts by `npm run cli -- generate-types`. Do not edit.',
+    ''
+  ];
+
+  for (const [name, schema] of Object.entries(SCHEMAS)) {
+    const type = toType(schema);
+    out.push(type.startsWith('{') ? `export interface ${name} ${type}` : `export type ${name} = ${type};`, '');
+  }
+
+  for (const route of Object.values(API_ROUTES)) {
+    out.push(`// ${route.method.toUpperCase()} ${route.path}`);
+    const parts: [string, Schema | undefined][] = [
+      ['Params', route.params],
+      ['Query', route.query],
+      ['Body', route.bodyContentType ? undefined : route.body]
+    ];
+    const success = Object.entries(route.responses).find(([status]) => Number(status) < 300);
+    if (success && success[1].schema && !success[1].contentType) {
+      parts.push(['Response', success[1].schema]);
+    }
+    for (const [suffix, schema] of parts) {
+      if (schema) {
+        out.push(`export type ${typeName(route.operationId, suffix)} = ${toType(schema)};`);
+      }
+    }
+    out.push('');
+  }
+
+  return out.join('\n');
+}
+
+export const openapiRouter = Router();
+
+let document: any = null;
+
+// The OpenAPI document
+openapiRouter.get('/api/openapi.json', (req: Request, res: Response): void => {
+  document = document || buildOpenApiDocument();
+  res.json(document);
+});
+
+// Interactive docs page reading the document above
+openapiRouter.use('/api/docs', swaggerUi.serve, swaggerUi.setup(undefined, { swaggerOptions: { url: '/api/openapi.json' } }));
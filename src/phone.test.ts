@@ -0,0 +1,103 @@
+import { contactPhones, isPhoneQuery, isValidPhone, normalizePhone, parsePhone, phoneMatchKey, phoneSearchDigits } from './phone';
+import { rowToContact } from './contacts';
+
+describe('normalizePhone', () => {
+  it.each([
+    ['0803 123 4567', '08031234567'],
+    ['(0803) 123-4567', '08031234567'],
+    ['8031234567', '08031234567'],
+    ['00966501234567', '+966501234567'],
+    ['+234 803 123 4567', '+2348031234567'],
+    ['   ', '']
+  ])('normalises %p to %p', (raw, expected) => {
+    expect(normalizePhone(raw)).toBe(expected);
+  });
+});
+
+describe('parsePhone', () => {
+  it.each([
+    ['08031234567', '+2348031234567', 'NG'],
+    ['2348031234567', '+2348031234567', 'NG'],
+    ['+234 803 123 4567', '+2348031234567', 'NG'],
+    ['0501234567', '+966501234567', 'SA'],
+    ['00966501234567', '+966501234567', 'SA']
+  ])('parses %p as %p', (raw, e164, country) => {
+    expect(parsePhone(raw)).toMatchObject({ e164, country, valid: true });
+  });
+
+  it('returns null for something that cannot be a number', () => {
+    expect(parsePhone('12')).toBeNull();
+    expect(parsePhone('')).toBeNull();
+  });
+});
+
+describe('isValidPhone', () => {
+  it('accepts numbers with the usual formatting', () => {
+    expect(isValidPhone('0803-123-4567')).toBe(true);
+    expect(isValidPhone('+966 50 123 4567')).toBe(true);
+  });
+
+  it('rejects letters and wrong lengths', () => {
+    expect(isValidPhone('call me')).toBe(false);
+    expect(isValidPhone('080312')).toBe(false);
+    expect(isValidPhone('0803123456789012345')).toBe(false);
+  });
+});
+
+describe('WhatsApp numbers', () => {
+  it('flags the first mobile number, in international format without the +', () => {
+    const contact = rowToContact({ record_id: 1, phone: '0803 123 4567', phone1: '', phone2: '' });
+
+    expect(contact.whatsapp).toBe('2348031234567');
+    expect(contact.phones[0]).toMatchObject({
+      e164: '+2348031234567',
+      primary: true,
+      whatsapp: true,
+      telLink: 'tel:+2348031234567',
+      whatsappLink: 'https://wa.me/2348031234567'
+    });
+  });
+
+  it('formats Saudi numbers with their country code', () => {
+    const contact = rowToContact({ record_id: 1, phone: '00966 50 123 4567' });
+
+    expect(contact.whatsapp).toBe('966501234567');
+  });
+
+  it('skips landlines and invalid numbers', () => {
+    const phones = contactPhones({ phone: '011 401 2345', phone1: '12', phone2: '+966501234567' });
+
+    expect(phones.map(phone => phone.whatsapp)).toEqual([false, false, true]);
+    expect(phones[0]).toMatchObject({ field: 'phone', primary: true, type: 'FIXED_LINE' });
+    expect(phones[1]).toMatchObject({ field: 'phone1', e164: null, valid: false, telLink: null });
+    expect(rowToContact({ record_id: 1, phone: '011 401 2345', phone1: '12' }).whatsapp).toBe('');
+  });
+
+  it('is empty for a contact without numbers', () => {
+    const contact = rowToContact({ record_id: 1, phone: '', phone1: null });
+
+    expect(contact.phones).toEqual([]);
+    expect(contact.phone).toBe('');
+    expect(contact.whatsapp).toBe('');
+  });
+});
+
+describe('phone search', () => {
+  it('tells numbers from words', () => {
+    expect(isPhoneQuery('0803 123')).toBe(true);
+    expect(isPhoneQuery('+234-803')).toBe(true);
+    expect(isPhoneQuery('musa')).toBe(false);
+    expect(isPhoneQuery('080')).toBe(false);
+  });
+
+  it('reduces full numbers to the national number', () => {
+    expect(phoneSearchDigits('+234 803 123 4567')).toBe('8031234567');
+    expect(phoneSearchDigits('08031234567')).toBe('8031234567');
+    expect(phoneSearchDigits('0803 12')).toBe('80312');
+  });
+
+  it('matches the same number written in different formats', () => {
+    expect(phoneMatchKey('08031234567')).toBe(phoneMatchKey('+234 803 123 4567'));
+    expect(phoneMatchKey('0501234567')).toBe(phoneMatchKey('00966501234567'));
+  });
+});
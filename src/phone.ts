@@ -0,0 +1,152 @@
+import { CountryCode, PhoneNumber, parsePhoneNumberFromString } from 'libphonenumber-js/max';
+import { config } from './config';
+
+// Phone number helpers shared by the contact endpoints, the importer and search
+
+// Numbers without a country code are read as numbers from this country first (Nigeria),
+// then from the fallback countries (Saudi SIMs used by staff in Makkah and Madinah)
+const DEFAULT_PHONE_COUNTRY = config.phone.defaultCountry;
+const FALLBACK_PHONE_COUNTRIES = config.phone.fallbackCountries;
+
+// Number types that can receive WhatsApp messages
+const WHATSAPP_TYPES = ['MOBILE', 'FIXED_LINE_OR_MOBILE'];
+
+export const PHONE_FIELDS = ['phone', 'phone1', 'phone2'] as const;
+export type PhoneField = typeof PHONE_FIELDS[number];
+
+export interface ParsedPhone {
+  e164: string;
+  country: string | null;
+  nationalNumber: string;
+  type: string | null;
+  valid: boolean;
+}
+
+// A number on a contact as returned by the API
+export interface ContactPhone {
+  field: PhoneField;
+  raw: string;
+  e164: string | null;
+  country: string | null;
+  type: string | null;
+  valid: boolean;
+  primary: boolean;
+  whatsapp: boolean;
+  telLink: string | null;
+  whatsappLink: string | null;
+}
+
+// Validate a phone number as entered by staff: digits with optional +, spaces, dashes or brackets,
+// and a length that is possible for the country it belongs to
+export function isValidPhone(phone: string): boolean {
+  if (!/^\+?[0-9\s\-()]+$/.test(phone)) return false;
+  const digits = phone.replace(/\D/g, '');
+  if (digits.length < 7 || digits.length > 15) return false;
+  return parsePhone(phone) !== null;
+}
+
+// Normalise a phone number from a spreadsheet: strip formatting, turn a 00 prefix into +,
+// and put back the leading 0 that spreadsheets drop from Nigerian mobile numbers
+// stored as numbers (8031234567 -> 08031234567).
+export function normalizePhone(raw: string): string {
+  let phone = raw.trim();
+  if (!phone) return '';
+
+  const hasPlus = phone.startsWith('+') || phone.startsWith('00');
+  let digits = phone.replace(/\D/g, '');
+  if (phone.startsWith('00')) {
+    digits = digits.slice(2);
+  }
+
+  if (!hasPlus && /^[789]\d{9}$/.test(digits)) {
+    return '0' + digits;
+  }
+
+  return (hasPlus ? '+' : '') + digits;
+}
+
+function toParsedPhone(number: PhoneNumber): ParsedPhone {
+  return {
+    e164: number.number,
+    country: number.country || null,
+    nationalNumber: number.nationalNumber,
+    type: number.getType() || null,
+    valid: number.isValid()
+  };
+}
+
+// Parse a number in any of the formats found in the data (0803..., 234803..., +234 803...,
+// 00966..., 0501...) into E.164. Returns null when the number can't be a phone number
+// in any of the countries tried. A number that is possible but not valid (e.g. a range
+// newer than the metadata) is still returned, with valid = false.
+export function parsePhone(raw: string): ParsedPhone | null {
+  const phone = normalizePhone(raw);
+  if (!phone) return null;
+
+  const candidates: (PhoneNumber | undefined)[] = phone.startsWith('+')
+    ? [parsePhoneNumberFromString(phone)]
+    : [
+        parsePhoneNumberFromString(phone, DEFAULT_PHONE_COUNTRY),
+        ...FALLBACK_PHONE_COUNTRIES.map(country => parsePhoneNumberFromString(phone, country)),
+        // A country code written without the +
+        parsePhoneNumberFromString('+' + phone)
+      ];
+
+  const possible = candidates.filter((number): number is PhoneNumber => !!number && number.isPossible());
+  const best = possible.find(number => number.isValid()) || possible[0];
+  return best ? toParsedPhone(best) : null;
+}
+
+// Every number on a phone_record row, in phone, phone1, phone2 order. The first one is the
+// primary number; the first mobile number is the one flagged for WhatsApp.
+export function contactPhones(row: any): ContactPhone[] {
+  const phones: ContactPhone[] = [];
+
+  for (const field of PHONE_FIELDS) {
+    const raw = (row[field] || '').trim();
+    if (!raw) continue;
+    const parsed = parsePhone(raw);
+
+    phones.push({
+      field,
+      raw,
+      e164: parsed ? parsed.e164 : null,
+      country: parsed ? parsed.country : null,
+      type: parsed ? parsed.type : null,
+      valid: parsed ? parsed.valid : false,
+      primary: phones.length === 0,
+      whatsapp: false,
+      telLink: parsed ? `tel:${parsed.e164}` : null,
+      whatsappLink: null
+    });
+  }
+
+  const whatsapp = phones.find(phone => phone.valid && phone.type !== null && WHATSAPP_TYPES.includes(phone.type));
+  if (whatsapp) {
+    whatsapp.whatsapp = true;
+    whatsapp.whatsappLink = `https://wa.me/${whatsapp.e164!.slice(1)}`;
+  }
+
+  return phones;
+}
+
+// Whether a search query is a (possibly partial) phone number rather than words
+export function isPhoneQuery(query: string): boolean {
+  return /^[\d\s+\-().]+$/.test(query.trim()) && query.replace(/\D/g, '').length >= 4;
+}
+
+// Digits to look for in stored numbers when searching for a number typed in any format.
+// A full number is reduced to its national number (0803 123 4567, +234803..., 234803...
+// all give 8031234567); a partial one just loses its leading zeros.
+export function phoneSearchDigits(query: string): string {
+  const digits = query.replace(/\D/g, '');
+  const parsed = digits.length >= 9 ? parsePhone(query) : null;
+  if (parsed && parsed.valid) return parsed.nationalNumber;
+  return digits.replace(/^0+/, '');
+}
+
+// Key used to spot the same number written in different formats (0803..., 234803..., +234803...).
+// The last 9 digits cover the national number of both Nigerian and Saudi mobiles.
+export function phoneMatchKey(phone: string): string {
+  return phone.replace(/\D/g, '').slice(-9);
+}
@@ -0,0 +1,126 @@
+import request from 'supertest';
+import app from './server';
+import { maskPhone } from './privacy';
+import { authHeader, loadFixture } from './test/helpers';
+
+// In the fixture Amina Bello (1) is hidden from the public; Hauwa Ali (7) and Halima
+// Yakubu (11) are the help desk.
+
+beforeEach(async () => {
+  await loadFixture();
+});
+
+// Record ids of a contact list response
+function ids(res: request.Response): number[] {
+  return res.body.data.map((contact: { id: string }) => Number(contact.id));
+}
+
+describe('maskPhone', () => {
+  it.each([
+    ['08031234501', '********501'],
+    ['0803 123 4501', '**** *** *501'],
+    ['+966501234502', '+*********502'],
+    ['12', '12']
+  ])('masks %s', (phone, masked) => {
+    expect(maskPhone(phone)).toBe(masked);
+  });
+});
+
+describe('anonymous callers', () => {
+  it('list the public contacts with masked numbers', async () => {
+    const res = await request(app).get('/api/contacts').query({ limit: 100 });
+
+    expect(res.status).toBe(200);
+    expect(ids(res)).not.toContain(1);
+    expect(res.body.pagination.total).toBe(11);
+
+    const contact = res.body.data.find((entry: { id: string }) => entry.id === '2');
+    expect(contact).toMatchObject({
+      name: 'Ibrahim Musa Kano',
+      rank: 'Deputy Director',
+      location: 'Kano Zonal Office',
+      phone: '********502',
+      phone1: '+*********502'
+    });
+    expect(contact.phones[0]).toMatchObject({ raw: '********502', e164: '+**********502', telLink: null, whatsappLink: null });
+    expect(contact).not.toHaveProperty('hideFromPublic');
+  });
+
+  it('get a public contact, but not a hidden one', async () => {
+    const visible = await request(app).get('/api/contacts/2');
+    const hidden = await request(app).get('/api/contacts/1');
+
+    expect(visible.status).toBe(200);
+    expect(visible.body.data.phone).toBe('********502');
+    expect(hidden.status).toBe(404);
+  });
+
+  it('cannot search by number', async () => {
+    const like = await request(app).get('/api/contacts').query({ search: '08031234502' });
+    const partial = await request(app).get('/api/contacts').query({ search: '0803123450' });
+    const ranked = await request(app).get('/api/contacts').query({ search: '08031234502', searchMode: 'ranked' });
+    const name = await request(app).get('/api/contacts').query({ search: 'Musa' });
+
+    expect(ids(like)).toEqual([]);
+    expect(ids(partial)).toEqual([]);
+    expect(ids(ranked)).toEqual([]);
+    expect(ids(name)).toEqual([2, 4, 12]);
+  });
+
+  it('cannot download vCards', async () => {
+    const res = await request(app).get('/api/contacts/2/vcard');
+
+    expect(res.status).toBe(401);
+  });
+});
+
+describe('pilgrims', () => {
+  it('only see the help desk contacts, in full', async () => {
+    const res = await request(app).get('/api/contacts').set(authHeader('pilgrim'));
+
+    expect(ids(res)).toEqual([7, 11]);
+    expect(res.body.data[0].phone).toBe('08031234507');
+    expect(res.body.data[0]).not.toHaveProperty('helpDesk');
+  });
+
+  it('cannot search by number', async () => {
+    const res = await request(app).get('/api/contacts').query({ search: '08031234507' }).set(authHeader('pilgrim'));
+
+    expect(ids(res)).toEqual([]);
+  });
+
+  it('get help desk contacts and their vCards only', async () => {
+    const helpDesk = await request(app).get('/api/contacts/7/vcard').set(authHeader('pilgrim'));
+    const contact = await request(app).get('/api/contacts/2').set(authHeader('pilgrim'));
+    const vcard = await request(app).get('/api/contacts/2/vcard').set(authHeader('pilgrim'));
+
+    expect(helpDesk.status).toBe(200);
+    expect(helpDesk.text).toContain('Hauwa');
+    expect(contact.status).toBe(404);
+    expect(vcard.status).toBe(404);
+  });
+
+  it('cannot use staff routes', async () => {
+    const res = await request(app).get('/api/directory/tree').set(authHeader('pilgrim'));
+
+    expect(res.status).toBe(403);
+  });
+});
+
+describe('staff', () => {
+  it('see every contact with its visibility flags', async () => {
+    const res = await request(app).get('/api/contacts/1').set(authHeader('viewer'));
+
+    expect(res.body.data).toMatchObject({ phone: '08031234501', hideFromPublic: true, helpDesk: false });
+  });
+
+  it('set the flags', async () => {
+    const updated = await request(app).patch('/api/contacts/2').set(authHeader('editor')).send({ helpDesk: true, hideFromPublic: true });
+    const pilgrim = await request(app).get('/api/contacts').set(authHeader('pilgrim'));
+    const anonymous = await request(app).get('/api/contacts/2');
+
+    expect(updated.body.data).toMatchObject({ helpDesk: true, hideFromPublic: true });
+    expect(ids(pilgrim)).toEqual([2, 7, 11]);
+    expect(anonymous.status).toBe(404);
+  });
+});
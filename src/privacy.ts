@@ -0,0 +1,97 @@
+import { AuthContext, hasRole } from './auth';
+import { Contact } from './contacts';
+import { ContactPhone } from './phone';
+import { ContactFilters } from './repositories';
+
+// Who sees what of the directory. Staff (viewer and up) see every contact in full.
+// Registered pilgrims see only the help desk contacts. Callers who aren't signed in see
+// the contacts that aren't hidden from the public, with their numbers masked.
+
+export const AUDIENCES = ['public', 'pilgrim', 'staff'] as const;
+export type Audience = typeof AUDIENCES[number];
+
+// show: as is, mask: phone numbers with most digits replaced, hide: left out
+type FieldRule = 'show' | 'mask' | 'hide';
+
+// What each audience gets of every Contact field
+const FIELD_RULES: Record<Audience, Record<keyof Required<Contact>, FieldRule>> = {
+  public: {
+    id: 'show', name: 'show', location: 'show', rank: 'show', province: 'show', state: 'show',
+    categoryType: 'show', categoryId: 'show',
+    phone: 'mask', phone1: 'mask', phone2: 'mask', phones: 'mask', whatsapp: 'mask',
+    hideFromPublic: 'hide', helpDesk: 'hide'
+  },
+  pilgrim: {
+    id: 'show', name: 'show', location: 'show', rank: 'show', province: 'show', state: 'show',
+    categoryType: 'show', categoryId: 'show',
+    phone: 'show', phone1: 'show', phone2: 'show', phones: 'show', whatsapp: 'show',
+    hideFromPublic: 'hide', helpDesk: 'hide'
+  },
+  staff: {
+    id: 'show', name: 'show', location: 'show', rank: 'show', province: 'show', state: 'show',
+    categoryType: 'show', categoryId: 'show',
+    phone: 'show', phone1: 'show', phone2: 'show', phones: 'show', whatsapp: 'show',
+    hideFromPublic: 'show', helpDesk: 'show'
+  }
+};
+
+// Digits left readable at the end of a masked number
+const MASK_VISIBLE_DIGITS = 3;
+
+// The audience of a request: the public without credentials, otherwise by role
+export function audienceOf(auth: AuthContext | undefined): Audience {
+  if (!auth) return 'public';
+  return hasRole(auth.role, 'viewer') ? 'staff' : 'pilgrim';
+}
+
+// Replace all but the last few digits with *, keeping the formatting:
+// 0803 123 4501 -> **** *** *501
+export function maskPhone(value: string): string {
+  let digitsLeft = value.replace(/\D/g, '').length;
+  return value.replace(/\d/g, digit => (digitsLeft-- > MASK_VISIBLE_DIGITS ? '*' : digit));
+}
+
+function maskContactPhone(phone: ContactPhone): ContactPhone {
+  return {
+    ...phone,
+    raw: maskPhone(phone.raw),
+    e164: phone.e164 !== null ? maskPhone(phone.e164) : null,
+    telLink: null,
+    whatsappLink: null
+  };
+}
+
+// How the masked fields are masked
+const MASKS: { [K in keyof Contact]?: (value: Contact[K]) => Contact[K] } = {
+  phone: maskPhone,
+  phone1: maskPhone,
+  phone2: maskPhone,
+  whatsapp: maskPhone,
+  phones: phones => phones.map(maskContactPhone)
+};
+
+// Filters limiting a contact list to the contacts the audience may see. Only staff may
+// search by number: otherwise masked numbers could be guessed digit by digit.
+export function audienceFilters(audience: Audience): ContactFilters {
+  if (audience === 'public') return { publicOnly: true, skipPhoneSearch: true };
+  if (audience === 'pilgrim') return { helpDeskOnly: true, skipPhoneSearch: true };
+  return {};
+}
+
+// Whether the audience may see the contact at all
+export function canSee(contact: Contact, audience: Audience): boolean {
+  if (audience === 'public') return !contact.hideFromPublic;
+  if (audience === 'pilgrim') return contact.helpDesk === true;
+  return true;
+}
+
+// The fields of a contact the audience may see, masked where its rules say so
+export function projectContact(contact: Contact, audience: Audience): Contact {
+  const projected: Partial<Record<keyof Contact, unknown>> = {};
+  for (const [field, rule] of Object.entries(FIELD_RULES[audience]) as [keyof Contact, FieldRule][]) {
+    if (rule === 'hide' || contact[field] === undefined) continue;
+    const mask = MASKS[field] as ((value: unknown) => unknown) | undefined;
+    projected[field] = rule === 'mask' && mask ? mask(contact[field]) : contact[field];
+  }
+  return projected as Contact;
+}
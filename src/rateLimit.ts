@@ -0,0 +1,186 @@
+import { Request, Response, NextFunction } from 'express';
+import { config, RATE_LIMIT_BUDGETS, RateLimitBudget } from './config';
+import { logger } from './logger';
+
+// Rate limiting and scraping detection for the directory endpoints.
+// Every client gets a budget of requests per window, per budget name. Clients are told
+// where they stand with the RateLimit-* headers (IETF draft) and get a 429 with
+// Retry-After once a budget is used up.
+
+export { RATE_LIMIT_BUDGETS };
+export type { RateLimitBudget };
+
+// Requests per window for one IP, per budget; see RATE_LIMIT_<BUDGET> in config.ts
+const budgets = config.rateLimit.budgets;
+
+// An API key is usually shared by every install of an app, so it gets this many times
+// the budget of a single IP
+const API_KEY_FACTOR = config.rateLimit.apiKeyFactor;
+
+const RATE_LIMIT_ENABLED = config.rateLimit.enabled;
+
+// Where request counts are kept. The in-memory store only works for a single process;
+// run several instances behind a load balancer with a store on a shared backend.
+export interface RateLimitStore {
+  // Count a hit for the key and return the hits so far in the current window
+  increment(key: string, windowMs: number): Promise<{ count: number; resetAt: number }>;
+}
+
+// Fixed window counters in a Map, swept every minute
+export class MemoryRateLimitStore implements RateLimitStore {
+  private windows = new Map<string, { count: number; resetAt: number }>();
+  private timer: NodeJS.Timeout;
+
+  constructor() {
+    this.timer = setInterval(() => this.sweep(), 60 * 1000);
+    this.timer.unref();
+  }
+
+  async increment(key: string, windowMs: number): Promise<{ count: number; resetAt: number }> {
+    const now = Date.now();
+    let window = this.windows.get(key);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + windowMs };
+      this.windows.set(key, window);
+    }
+    window.count++;
+    return { count: window.count, resetAt: window.resetAt };
+  }
+
+  private sweep(): void {
+    const now = Date.now();
+    this.windows.forEach((window, key) => {
+      if (window.resetAt <= now) this.windows.delete(key);
+    });
+  }
+}
+
+let store: RateLimitStore = new MemoryRateLimitStore();
+
+export function setRateLimitStore(newStore: RateLimitStore): void {
+  store = newStore;
+}
+
+// Who a request is counted against: the caller authentication verified (a user or an API
+// key), otherwise its IP. Credentials that weren't checked yet count as the IP, or every
+// made-up key would get a budget of its own. Limiters of routes with authentication run
+// after it; the default budget on all of /api runs before, so it is always per IP.
+function clientKey(req: Request): { key: string; apiKey: boolean } {
+  if (req.auth) {
+    return { key: `${req.auth.type}:${req.auth.id}`, apiKey: req.auth.type === 'api_key' };
+  }
+  return { key: `ip:${req.ip}`, apiKey: false };
+}
+
+// Middleware enforcing a budget. The budget can depend on the request, e.g. searches
+// on the list endpoint count against the search budget.
+export function rateLimit(budget: RateLimitBudget | ((req: Request) => RateLimitBudget)) {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    if (!RATE_LIMIT_ENABLED) {
+      next();
+      return;
+    }
+
+    try {
+      const name = typeof budget === 'function' ? budget(req) : budget;
+      const { windowMs, max: ipMax } = budgets[name];
+      const client = clientKey(req);
+      const max = client.apiKey ? ipMax * API_KEY_FACTOR : ipMax;
+
+      const { count, resetAt } = await store.increment(`${name}:${client.key}`, windowMs);
+      const resetSeconds = Math.max(0, Math.ceil((resetAt - Date.now()) / 1000));
+
+      res.setHeader('RateLimit-Policy', `${max};w=${windowMs / 1000}`);
+      res.setHeader('RateLimit-Limit', max);
+      res.setHeader('RateLimit-Remaining', Math.max(0, max - count));
+      res.setHeader('RateLimit-Reset', resetSeconds);
+
+      if (count > max) {
+        if (count === max + 1) {
+          req.log.warn('Rate limit exceeded', { budget: name, client: client.key, method: req.method, path: req.path });
+        }
+        res.setHeader('Retry-After', resetSeconds);
+        res.status(429).json({
+          success: false,
+          error: 'Too many requests, please try again later'
+        });
+        return;
+      }
+
+      next();
+    } catch (error) {
+      // A broken store shouldn't take the API down with it
+      req.log.error('Rate limit store failed, letting request through', { error });
+      next();
+    }
+  };
+}
+
+// Window in which single-contact lookups of a client are looked at together
+const ENUMERATION_WINDOW_MS = 60 * 1000;
+// Lookups in one window before the pattern is checked
+const ENUMERATION_MIN_LOOKUPS = 20;
+// Share of consecutive lookups that are neighbouring ids for a walk to be reported
+const ENUMERATION_SEQUENTIAL_SHARE = 0.7;
+
+// Spots clients walking through contacts by id (/api/contacts/1, /2, /3, ...), which is
+// what a scraper does when list endpoints are throttled. Reports are logged as alerts.
+export class EnumerationDetector {
+  private clients = new Map<string, { ids: number[]; startedAt: number; alerted: boolean }>();
+
+  // Record a lookup; returns true when it completes a suspicious pattern
+  record(client: string, id: number): boolean {
+    const now = Date.now();
+    let entry = this.clients.get(client);
+    if (!entry || now - entry.startedAt > ENUMERATION_WINDOW_MS) {
+      entry = { ids: [], startedAt: now, alerted: false };
+      this.clients.set(client, entry);
+    }
+    entry.ids.push(id);
+
+    if (entry.alerted || entry.ids.length < ENUMERATION_MIN_LOOKUPS) return false;
+
+    const sorted = Array.from(new Set(entry.ids)).sort((a, b) => a - b);
+    let neighbours = 0;
+    for (let i = 1; i < sorted.length; i++) {
+      if (sorted[i]! - sorted[i - 1]! <= 2) neighbours++;
+    }
+    if (sorted.length < ENUMERATION_MIN_LOOKUPS || neighbours / (sorted.length - 1) < ENUMERATION_SEQUENTIAL_SHARE) {
+      return false;
+    }
+
+    entry.alerted = true;
+    return true;
+  }
+
+  // Forget clients whose window has passed
+  sweep(): void {
+    const now = Date.now();
+    this.clients.forEach((entry, client) => {
+      if (now - entry.startedAt > ENUMERATION_WINDOW_MS) this.clients.delete(client);
+    });
+  }
+}
+
+const enumerationDetector = new EnumerationDetector();
+setInterval(() => enumerationDetector.sweep(), ENUMERATION_WINDOW_MS).unref();
+
+// Middleware for routes taking a contact id, alerting on sequential walks through the ids
+export function detectEnumeration(req: Request, res: Response, next: NextFunction): void {
+  const id = parseInt(req.params.id || '', 10);
+  if (!isNaN(id)) {
+    const client = clientKey(req).key;
+    if (enumerationDetector.record(client, id)) {
+      const caller = req.auth ? `${req.auth.type}:${req.auth.name}` : 'unauthenticated';
+      req.log.warn('Possible contact enumeration', {
+        alert: 'contact_enumeration',
+        client,
+        caller,
+        lookups: ENUMERATION_MIN_LOOKUPS,
+        windowSeconds: ENUMERATION_WINDOW_MS / 1000,
+        latest: req.path
+      });
+    }
+  }
+  next();
+}
@@ -0,0 +1,90 @@
+import { CATEGORY_GROUPS, categoryResolver } from './categories';
+import { logger } from './logger';
+import { ProvinceRow, repositories, StateRow } from './repositories';
+
+// Server-side cache of the reference lists: provinces, states and locations. They almost
+// never change, so they are read once and kept until the change log (sync_changes, see
+// sql/004_sync_changes.sql) shows a change to one of their tables. Changes made directly
+// in MySQL are picked up too, at the next check.
+
+export interface ReferenceData {
+  provinces: ProvinceRow[];
+  states: StateRow[];
+  // Location labels, sorted
+  locations: string[];
+  // When the lookup tables last changed (or the lists were loaded, if the change log has
+  // nothing on them), for Last-Modified
+  lastModified: Date;
+}
+
+// Tables the lists are read from
+const REFERENCE_TABLES = ['province_info', 'state_info', ...CATEGORY_GROUPS.map(info => info.table)];
+
+export class ReferenceCache {
+  private loading: Promise<ReferenceData> | null = null;
+  // Latest change_id of the reference tables when the lists were loaded
+  private changeId = 0;
+  private timer: NodeJS.Timeout | null = null;
+
+  // The lists, loaded on first use; concurrent callers share the same load
+  get(): Promise<ReferenceData> {
+    if (!this.loading) {
+      const loading = this.load();
+      this.loading = loading;
+      // A failed load is retried by the next caller
+      loading.catch(() => {
+        if (this.loading === loading) this.loading = null;
+      });
+    }
+    return this.loading;
+  }
+
+  private async load(): Promise<ReferenceData> {
+    const repos = repositories();
+    // Read the position first: a change made while loading triggers another load
+    const change = await repos.changes.latest(REFERENCE_TABLES);
+    const [provinces, states] = await Promise.all([repos.lookups.provinces(), repos.lookups.states()]);
+    this.changeId = change ? change.change_id : 0;
+
+    // Served from the category resolver cache instead of scanning all eight tables
+    const locations = Array.from(new Set(categoryResolver.list().map(category => category.label))).sort();
+
+    return { provinces, states, locations, lastModified: change ? change.changed_at : new Date() };
+  }
+
+  // Drop the lists; the next request loads them again
+  invalidate(): void {
+    this.loading = null;
+  }
+
+  // Drop the lists if a reference table changed since they were loaded. Categories are
+  // reloaded first, so the locations are current too. Returns whether anything changed.
+  async check(): Promise<boolean> {
+    if (!this.loading) return false;
+    await this.loading;
+    const change = await repositories().changes.latest(REFERENCE_TABLES);
+    if (!change || change.change_id === this.changeId) return false;
+
+    await categoryResolver.refresh();
+    this.invalidate();
+    return true;
+  }
+
+  // Check every intervalMs until stop() is called
+  start(intervalMs: number): void {
+    this.stop();
+    this.timer = setInterval(() => {
+      this.check().catch(error => logger.error('Reference cache check failed', { error }));
+    }, intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+export const referenceCache = new ReferenceCache();
@@ -0,0 +1,84 @@
+import request from 'supertest';
+import app from './server';
+import { authHeader, loadFixture, readFixture } from './test/helpers';
+
+describe('GET /api/stats', () => {
+  beforeEach(async () => {
+    await loadFixture();
+  });
+
+  it('counts contacts by province, state, category and rank', async () => {
+    const res = await request(app).get('/api/stats').set(authHeader('viewer'));
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.total).toBe(12);
+    expect(res.body.data.byProvince).toContainEqual({ id: 3, name: 'North West', count: 7 });
+    expect(res.body.data.byState).toContainEqual({ id: 3, name: 'Kano', count: 4 });
+    expect(res.body.data.byCategoryGroup[0]).toEqual({ group: 'location', count: 3 });
+    expect(res.body.data.byCategory).toContainEqual({ group: 'location', id: 2, label: 'Kano Zonal Office', count: 2 });
+    expect(res.body.data.byRank[0]).toEqual({ rank: 'Deputy Director', count: 2 });
+  });
+
+  it('downloads as CSV', async () => {
+    const res = await request(app).get('/api/stats').query({ format: 'csv' }).set(authHeader('viewer'));
+
+    expect(res.status).toBe(200);
+    expect(res.headers['content-type']).toContain('text/csv');
+    expect(res.headers['content-disposition']).toMatch(/^attachment; filename="stats-\d{4}-\d\d-\d\d\.csv"$/);
+    const lines = res.text.trim().split('\r\n');
+    expect(lines.slice(0, 2)).toEqual(['dimension,id,name,count', 'total,,,12']);
+    expect(lines).toContain('category,location:2,Kano Zonal Office,2');
+  });
+});
+
+describe('GET /api/data-quality', () => {
+  beforeEach(async () => {
+    const fixture = readFixture();
+    const contacts = fixture.contacts!;
+    Object.assign(contacts[0]!, { phone: '', phone1: '', phone2: '' });
+    Object.assign(contacts[1]!, { phone1: '12345' });
+    Object.assign(contacts[2]!, { f_name: '', l_name: ' ' });
+    Object.assign(contacts[3]!, { province_id: 99, mk_cat_id: 42 });
+    await loadFixture(fixture);
+  });
+
+  it('lists records with missing or broken fields', async () => {
+    const res = await request(app).get('/api/data-quality').set(authHeader('editor'));
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toEqual([
+      { recordId: 1, name: 'Amina Bello', issue: 'no_phone', field: null, value: null },
+      { recordId: 2, name: 'Ibrahim Musa Kano', issue: 'invalid_phone', field: 'phone1', value: '12345' },
+      { recordId: 3, name: '', issue: 'missing_name', field: null, value: null },
+      expect.objectContaining({ recordId: 4, issue: 'unknown_province', field: 'province_id', value: '99' }),
+      expect.objectContaining({ recordId: 4, issue: 'unknown_category', field: 'mk_cat_id', value: '42' })
+    ]);
+    expect(res.body.summary).toEqual({
+      checked: 12,
+      issues: { no_phone: 1, invalid_phone: 1, missing_name: 1, unknown_province: 1, unknown_state: 0, unknown_category: 1 }
+    });
+  });
+
+  it('filters by issue and pages', async () => {
+    const res = await request(app).get('/api/data-quality').query({ type: 'unknown_category', limit: 1 }).set(authHeader('editor'));
+
+    expect(res.body.data).toHaveLength(1);
+    expect(res.body.pagination).toEqual({ total: 1, limit: 1, offset: 0, hasMore: false });
+  });
+
+  it('downloads every issue as CSV', async () => {
+    const res = await request(app).get('/api/data-quality').query({ format: 'csv', limit: 1 }).set(authHeader('editor'));
+
+    expect(res.headers['content-type']).toContain('text/csv');
+    const lines = res.text.trim().split('\r\n');
+    expect(lines[0]).toBe('record_id,name,issue,field,value');
+    expect(lines).toHaveLength(6);
+    expect(lines).toContain('2,Ibrahim Musa Kano,invalid_phone,phone1,12345');
+  });
+
+  it('needs the editor role', async () => {
+    const res = await request(app).get('/api/data-quality').set(authHeader('viewer'));
+
+    expect(res.status).toBe(403);
+  });
+});
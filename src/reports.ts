@@ -0,0 +1,240 @@
+import { Router, Request, Response } from 'express';
+import { requireRole } from './auth';
+import { validate } from './validation';
+import { CATEGORY_GROUPS, CategoryGroup, categoryResolver } from './categories';
+import { toCsvRow } from './export';
+import { PHONE_FIELDS, isValidPhone } from './phone';
+import { ContactRow, repositories } from './repositories';
+
+// Reports for management and for cleaning up the data: contact counts by province,
+// state, category and rank, and the records with missing or broken fields. Both can be
+// downloaded as CSV with format=csv.
+
+export const REPORT_FORMATS = ['json', 'csv'] as const;
+export type ReportFormat = typeof REPORT_FORMATS[number];
+
+export interface LookupCount {
+  id: number | null;
+  name: string;
+  count: number;
+}
+
+export interface DirectoryStats {
+  total: number;
+  // Every province and state, also those without contacts; id null counts the contacts
+  // without a known one
+  byProvince: LookupCount[];
+  byState: LookupCount[];
+  // Every group; group null counts the contacts without a known category
+  byCategoryGroup: { group: CategoryGroup | null; count: number }[];
+  byCategory: { group: CategoryGroup; id: number; label: string; count: number }[];
+  // Most common first; rank null counts the contacts without one
+  byRank: { rank: string | null; count: number }[];
+}
+
+export const QUALITY_ISSUES = [
+  'no_phone', 'invalid_phone', 'missing_name', 'unknown_province', 'unknown_state', 'unknown_category'
+] as const;
+export type QualityIssueType = typeof QUALITY_ISSUES[number];
+
+export interface QualityIssue {
+  recordId: number;
+  name: string;
+  issue: QualityIssueType;
+  // The offending column and its value, for issues about one field
+  field: string | null;
+  value: string | null;
+}
+
+export interface QualityReport {
+  // Non-deleted records checked
+  checked: number;
+  summary: Record<QualityIssueType, number>;
+  // By record id
+  issues: QualityIssue[];
+}
+
+const UNKNOWN = 'Unknown';
+
+// By name, the unknown entry last
+function byName(a: LookupCount, b: LookupCount): number {
+  if ((a.id === null) !== (b.id === null)) return a.id === null ? 1 : -1;
+  return a.name.localeCompare(b.name);
+}
+
+export async function directoryStats(): Promise<DirectoryStats> {
+  const repos = repositories();
+  const [provinces, states, placements, ranks] = await Promise.all([
+    repos.lookups.provinces(),
+    repos.lookups.states(),
+    repos.contacts.countByPlacement({}, CATEGORY_GROUPS),
+    repos.contacts.countByRank({})
+  ]);
+
+  const byProvince = new Map<number | null, LookupCount>(
+    provinces.map(row => [row.province_id, { id: row.province_id, name: row.province, count: 0 }])
+  );
+  const byState = new Map<number | null, LookupCount>(
+    states.map(row => [row.state_id, { id: row.state_id, name: row.state_name, count: 0 }])
+  );
+  const byGroup = new Map<CategoryGroup | null, number>(CATEGORY_GROUPS.map(info => [info.group, 0]));
+  const byCategory = new Map<string, { group: CategoryGroup; id: number; label: string; count: number }>();
+
+  // Ids without a lookup row are counted as unknown
+  const add = (counts: Map<number | null, LookupCount>, id: number | null, count: number) => {
+    const key = id !== null && counts.has(id) ? id : null;
+    const entry = counts.get(key) || { id: null, name: UNKNOWN, count: 0 };
+    entry.count += count;
+    counts.set(key, entry);
+  };
+
+  for (const row of placements) {
+    add(byProvince, row.province_id, row.count);
+    add(byState, row.state_id, row.count);
+
+    const category = categoryResolver.resolve(row);
+    const group = category ? category.group : null;
+    byGroup.set(group, (byGroup.get(group) || 0) + row.count);
+    if (category) {
+      const key = `${category.group}:${category.id}`;
+      const entry = byCategory.get(key) || { ...category, count: 0 };
+      entry.count += row.count;
+      byCategory.set(key, entry);
+    }
+  }
+
+  const groupOrder = (group: CategoryGroup) => CATEGORY_GROUPS.findIndex(info => info.group === group);
+  return {
+    total: placements.reduce((sum, row) => sum + row.count, 0),
+    byProvince: Array.from(byProvince.values()).sort(byName),
+    byState: Array.from(byState.values()).sort(byName),
+    byCategoryGroup: Array.from(byGroup.entries())
+      .filter(([group, count]) => group !== null || count > 0)
+      .map(([group, count]) => ({ group, count })),
+    byCategory: Array.from(byCategory.values())
+      .sort((a, b) => groupOrder(a.group) - groupOrder(b.group) || a.label.localeCompare(b.label)),
+    byRank: ranks.sort((a, b) => b.count - a.count || (a.rank || '').localeCompare(b.rank || ''))
+  };
+}
+
+// The problems of one phone_record row. knownCategories has the ids in each lookup
+// table, by *_cat_id column.
+function rowIssues(row: ContactRow, knownCategories: Map<string, Set<number>>): QualityIssue[] {
+  const name = `${row.f_name || ''} ${row.l_name || ''}`.trim();
+  const issues: QualityIssue[] = [];
+  const issue = (type: QualityIssueType, field: string | null = null, value: unknown = null) => {
+    issues.push({ recordId: row.record_id, name, issue: type, field, value: value === null ? null : String(value) });
+  };
+
+  const phones = PHONE_FIELDS
+    .map(field => ({ field, value: String(row[field] ?? '').trim() }))
+    .filter(phone => phone.value !== '');
+  if (phones.length === 0) issue('no_phone');
+  phones.filter(phone => !isValidPhone(phone.value)).forEach(phone => issue('invalid_phone', phone.field, phone.value));
+
+  if (!name) issue('missing_name');
+
+  // An id with no row behind it; the joins leave the name null
+  if (row.province_id > 0 && row.province === null) issue('unknown_province', 'province_id', row.province_id);
+  if (row.state_id > 0 && row.state_name === null) issue('unknown_state', 'state_id', row.state_id);
+  for (const { idColumn } of CATEGORY_GROUPS) {
+    const id = row[idColumn] || 0;
+    if (id > 0 && !knownCategories.get(idColumn)!.has(id)) issue('unknown_category', idColumn, id);
+  }
+  return issues;
+}
+
+export async function qualityReport(): Promise<QualityReport> {
+  const repos = repositories();
+  const [rows, ...labels] = await Promise.all([
+    repos.contacts.findAll({}),
+    ...CATEGORY_GROUPS.map(info => repos.lookups.categoryLabels(info))
+  ]);
+  const knownCategories = new Map(CATEGORY_GROUPS.map((info, index) => [
+    info.idColumn as string,
+    new Set(labels[index]!.map(label => label.id))
+  ]));
+
+  const issues = rows.flatMap(row => rowIssues(row, knownCategories));
+  const summary = Object.fromEntries(QUALITY_ISSUES.map(type => [type, 0])) as Record<QualityIssueType, number>;
+  issues.forEach(issue => summary[issue.issue]++);
+  return { checked: rows.length, summary, issues };
+}
+
+// Send a report as a CSV download named <name>-<date>.csv
+function sendCsv(res: Response, name: string, header: string[], rows: (string | number | null)[][]): void {
+  res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+  res.setHeader('Content-Disposition', `attachment; filename="${name}-${new Date().toISOString().slice(0, 10)}.csv"`);
+  res.send([header, ...rows].map(row => toCsvRow(row.map(cell => cell === null ? '' : String(cell)))).join(''));
+}
+
+export const reportsRouter = Router();
+
+// Contact counts by province, state, category and rank
+reportsRouter.get('/api/stats', requireRole('viewer'), validate('GET /api/stats'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const stats = await directoryStats();
+
+    if (req.query.format === 'csv') {
+      // One row per count: dimension, the id it is counted by, its name, the count
+      sendCsv(res, 'stats', ['dimension', 'id', 'name', 'count'], [
+        ['total', null, null, stats.total],
+        ...stats.byProvince.map(entry => ['province', entry.id, entry.name, entry.count]),
+        ...stats.byState.map(entry => ['state', entry.id, entry.name, entry.count]),
+        ...stats.byCategoryGroup.map(entry => ['category_group', entry.group, entry.group || UNKNOWN, entry.count]),
+        ...stats.byCategory.map(entry => ['category', `${entry.group}:${entry.id}`, entry.label, entry.count]),
+        ...stats.byRank.map(entry => ['rank', null, entry.rank || UNKNOWN, entry.count])
+      ]);
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: stats
+    });
+
+  } catch (error) {
+    req.log.error('Error computing directory statistics', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+});
+
+// Records with no or invalid phone numbers, no name, or ids of lookup rows that don't exist
+reportsRouter.get('/api/data-quality', requireRole('editor'), validate('GET /api/data-quality'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const report = await qualityReport();
+    const type = req.query.type as QualityIssueType | undefined;
+    const issues = type ? report.issues.filter(issue => issue.issue === type) : report.issues;
+
+    // The CSV has every issue, without paging
+    if (req.query.format === 'csv') {
+      sendCsv(res, 'data-quality', ['record_id', 'name', 'issue', 'field', 'value'],
+        issues.map(issue => [issue.recordId, issue.name, issue.issue, issue.field, issue.value]));
+      return;
+    }
+
+    const limit = Number(req.query.limit);
+    const offset = Number(req.query.offset);
+    res.json({
+      success: true,
+      data: issues.slice(offset, offset + limit),
+      summary: { checked: report.checked, issues: report.summary },
+      pagination: {
+        total: issues.length,
+        limit,
+        offset,
+        hasMore: offset + limit < issues.length
+      }
+    });
+
+  } catch (error) {
+    req.log.error('Error building data quality report', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+});
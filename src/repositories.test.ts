@@ -0,0 +1,23 @@
+import { connectWithRetry, Repositories } from './repositories';
+
+describe('connectWithRetry', () => {
+  const retry = { retries: 3, initialDelayMs: 1, maxDelayMs: 2 };
+
+  beforeEach(() => {
+    jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+  });
+
+  it('retries until the database can be reached', async () => {
+    const connect = jest.fn().mockResolvedValueOnce(false).mockResolvedValueOnce(false).mockResolvedValue(true);
+
+    expect(await connectWithRetry({ connect } as unknown as Repositories, retry)).toBe(true);
+    expect(connect).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up once the retries are used up', async () => {
+    const connect = jest.fn().mockResolvedValue(false);
+
+    expect(await connectWithRetry({ connect } as unknown as Repositories, retry)).toBe(false);
+    expect(connect).toHaveBeenCalledTimes(4);
+  });
+});
@@ -0,0 +1,266 @@
+import { Readable } from 'stream';
+import type { AuditContext } from './audit';
+import type { Role } from './auth';
+import type { Category, CategoryGroupInfo } from './categories';
+import { createMysqlRepositories } from './mysqlRepositories';
+import { createMemoryRepositories } from './memoryRepositories';
+import { config, DATA_BACKENDS, DataBackend, RetryConfig } from './config';
+import { logger } from './logger';
+
+// Data access for the routes. Every query goes through one of these repositories, so the
+// API can run on MySQL (the default) or, with DATA_BACKEND=memory, on an in-memory copy
+// of a fixture file for development and tests.
+
+export { DATA_BACKENDS };
+export type { DataBackend };
+
+// A phone_record row joined with its province and state names
+export type ContactRow = Record<string, any>;
+
+// phone_record columns to write
+export type ContactRecord = Record<string, string | number | null>;
+
+// A province_id, state_id and *_cat_id columns combination, and how many contacts have it
+export type PlacementCount = ContactRow & { count: number };
+
+export interface ContactFilters {
+  // Matched on names and numbers; something that looks like a phone number is matched
+  // on the digits of the stored numbers
+  search?: string;
+  province?: string;
+  state?: string;
+  location?: string;
+  // A whole category group, or one category of it
+  category?: { group: CategoryGroupInfo; id: number | null };
+  // Only these records
+  ids?: number[];
+  // Exact province and state ids, for browsing the directory
+  provinceId?: number;
+  stateId?: number;
+  // Leave out the contacts hidden from the public, or keep only the help desk contacts
+  publicOnly?: boolean;
+  helpDeskOnly?: boolean;
+  // Match the search on names only, for callers who may not see the numbers
+  skipPhoneSearch?: boolean;
+}
+
+// Sort orders of the contact list: how many keys each sorts on before the record id, and
+// in which direction. Every order ends with the record id so pages never repeat or skip rows.
+export const CONTACT_SORTS = {
+  id: { keys: 0, direction: 'ASC' },
+  name: { keys: 2, direction: 'ASC' },
+  rank: { keys: 1, direction: 'ASC' },
+  state: { keys: 1, direction: 'ASC' },
+  province: { keys: 1, direction: 'ASC' },
+  updated: { keys: 1, direction: 'DESC' }
+} as const;
+export type ContactSort = keyof typeof CONTACT_SORTS;
+
+export interface ContactPageQuery {
+  filters: ContactFilters;
+  sort: ContactSort;
+  // Continue after (or, backwards, before) the row with these sort keys and id instead
+  // of skipping `offset` rows
+  after: { keys: string[]; id: number; backwards: boolean } | null;
+  limit: number;
+  offset: number;
+}
+
+export interface ContactPage {
+  // In sort order, also when reading backwards
+  rows: ContactRow[];
+  // Sort keys of each row, as strings for cursors
+  sortKeys: string[][];
+  // Whether there are more rows in the direction read
+  more: boolean;
+}
+
+// Columns pages of contacts can be grouped by: the province, the state or a category id
+export type ContactGroupColumn = 'province_id' | 'state_id' | CategoryGroupInfo['idColumn'];
+
+export interface ContactRepository {
+  list(query: ContactPageQuery): Promise<ContactPage>;
+  // The page of list(query) for each of the values of column, e.g. one page per state,
+  // read in one go
+  listPerGroup(query: ContactPageQuery, column: ContactGroupColumn, values: number[]): Promise<Map<number, ContactPage>>;
+  count(filters: ContactFilters): Promise<number>;
+  // Every matching non-deleted contact, by record id
+  findAll(filters: ContactFilters): Promise<ContactRow[]>;
+  // Same as findAll, one row at a time for exports
+  stream(filters: ContactFilters): Readable;
+  // Matching non-deleted contacts counted per province, state and category ids (the
+  // *_cat_id columns of the given groups)
+  countByPlacement(filters: ContactFilters, groups: readonly CategoryGroupInfo[]): Promise<PlacementCount[]>;
+  // Matching non-deleted contacts counted per rank, trimmed; null for a blank rank
+  countByRank(filters: ContactFilters): Promise<{ rank: string | null; count: number }[]>;
+  // Non-deleted contacts whose column holds one of the ids, for any of the given columns
+  findReferencing(refs: { column: string; ids: number[] }[]): Promise<ContactRow[]>;
+  findById(id: number, includeDeleted?: boolean): Promise<ContactRow | null>;
+  // Id of the record a merged contact was merged into, or null if it was never merged
+  findMergedId(id: number): Promise<number | null>;
+  // Ids of the records merged into a contact
+  findMergedIds(survivorId: number): Promise<number[]>;
+  // Every row including deleted ones, and a few of them (joined like findById), for
+  // checking the data
+  countAll(): Promise<number>;
+  sample(limit: number): Promise<ContactRow[]>;
+
+  create(record: ContactRecord, audit: AuditContext): Promise<number>;
+  // Updates, deletes and restores return false when there was no such contact to change
+  update(id: number, record: ContactRecord, audit: AuditContext): Promise<boolean>;
+  softDelete(id: number, audit: AuditContext): Promise<boolean>;
+  restore(id: number, audit: AuditContext): Promise<boolean>;
+  // Write the merged fields to the survivor and soft-delete the merged records, all or
+  // nothing. False when the survivor or one of the merged records was deleted in the meantime.
+  merge(survivorId: number, mergeIds: number[], record: ContactRecord, audit: AuditContext): Promise<boolean>;
+  // Insert all records in one transaction
+  insertMany(records: ContactRecord[], audit: AuditContext): Promise<void>;
+}
+
+export interface ProvinceRow {
+  province_id: number;
+  province: string;
+}
+
+export interface StateRow {
+  state_id: number;
+  state_name: string;
+}
+
+export interface LookupRepository {
+  // All rows, or only the given ids, sorted by name
+  provinces(ids?: number[]): Promise<ProvinceRow[]>;
+  states(ids?: number[]): Promise<StateRow[]>;
+  // Id of the row with exactly this name
+  findProvinceId(name: string): Promise<number | null>;
+  findStateId(name: string): Promise<number | null>;
+  // Every label of a category table by id
+  categoryLabels(group: CategoryGroupInfo): Promise<{ id: number; label: string }[]>;
+  // First category with this label in the given groups, in order
+  findCategoryByLabel(label: string, groups: readonly CategoryGroupInfo[]): Promise<Category | null>;
+  findCategoryById(group: CategoryGroupInfo, id: number): Promise<Category | null>;
+  // Row counts of the location, province and state tables
+  countRows(): Promise<{ location: number; provinces: number; states: number }>;
+}
+
+export interface UserRow {
+  user_id: number;
+  username: string;
+  password_hash: string;
+  role: string;
+}
+
+export interface ApiKeyRow {
+  api_key_id: number;
+  name: string;
+  role: string;
+}
+
+export interface UserRepository {
+  // An enabled user by username
+  findLogin(username: string): Promise<UserRow | null>;
+  // Throws DuplicateError when the username is taken
+  createUser(username: string, passwordHash: string, role: Role): Promise<number>;
+  listUsers(): Promise<Record<string, unknown>[]>;
+  // A key that isn't revoked, by the hash of the key
+  findApiKey(keyHash: string): Promise<ApiKeyRow | null>;
+  touchApiKey(id: number): Promise<void>;
+  createApiKey(name: string, keyHash: string, keyPrefix: string, role: Role): Promise<number>;
+  listApiKeys(): Promise<Record<string, unknown>[]>;
+  // False when there was no such key or it was already revoked
+  revokeApiKey(id: number): Promise<boolean>;
+}
+
+export interface AuditFilters {
+  table?: string;
+  recordId?: number;
+  from?: Date;
+  to?: Date;
+  actor?: string;
+  action?: string;
+  requestId?: string;
+}
+
+export interface AuditRepository {
+  // Matching audit_log rows, newest first, and how many match in total
+  search(filters: AuditFilters, limit: number, offset: number): Promise<{ rows: any[]; total: number }>;
+  // audit_log rows of the given contacts, newest first
+  history(recordIds: number[]): Promise<any[]>;
+}
+
+export interface ChangeRow {
+  change_id: number;
+  table_name: string;
+  row_id: number;
+  changed_at: Date;
+}
+
+export interface ChangeRepository {
+  // Oldest and latest change_id still in the change log, and the latest one below every
+  // change made in the last settleSeconds: change_ids are taken when a transaction writes,
+  // not when it commits, so lower ones than a recent change may not be visible yet
+  bounds(settleSeconds: number): Promise<{ oldest: number | null; latest: number; settled: number }>;
+  // Changes after a change_id, oldest first
+  since(changeId: number, limit: number): Promise<ChangeRow[]>;
+  // Latest change of any of the tables (of any table without them), or null if none
+  latest(tables?: string[]): Promise<ChangeRow | null>;
+}
+
+export interface Repositories {
+  backend: DataBackend;
+  contacts: ContactRepository;
+  lookups: LookupRepository;
+  users: UserRepository;
+  audit: AuditRepository;
+  changes: ChangeRepository;
+  // Check the data can be reached (and load it, for the memory backend)
+  connect(): Promise<boolean>;
+  // Throws when the data can't be reached, for health checks
+  ping(): Promise<void>;
+  close(): Promise<void>;
+}
+
+// A write that would break a unique key, e.g. a username that is already taken
+export class DuplicateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DuplicateError';
+  }
+}
+
+export function isDataBackend(value: unknown): value is DataBackend {
+  return typeof value === 'string' && (DATA_BACKENDS as readonly string[]).includes(value);
+}
+
+// The backend chosen by DATA_BACKEND; DATA_FIXTURE is the file the memory backend loads
+export function createRepositories(): Repositories {
+  return config.dataBackend === 'memory'
+    ? createMemoryRepositories(config.dataFixture)
+    : createMysqlRepositories();
+}
+
+let current: Repositories | null = null;
+
+// The repositories in use, created on first use
+export function repositories(): Repositories {
+  current = current || createRepositories();
+  return current;
+}
+
+// Use other repositories from now on, e.g. an in-memory copy in tests
+export function setRepositories(next: Repositories): void {
+  current = next;
+}
+
+// Connect, retrying with a doubling delay while the database isn't reachable yet, e.g.
+// when it is still starting next to the API. False once the retries are used up.
+export async function connectWithRetry(repos: Repositories, retry: RetryConfig): Promise<boolean> {
+  for (let attempt = 1; ; attempt++) {
+    if (await repos.connect()) return true;
+    if (retry.retries > 0 && attempt > retry.retries) return false;
+
+    const delayMs = Math.min(retry.initialDelayMs * 2 ** (attempt - 1), retry.maxDelayMs);
+    logger.warn(`Database not reachable, retrying in ${delayMs} ms`, { attempt });
+    await new Promise(resolve => setTimeout(resolve, delayMs));
+  }
+}
@@ -0,0 +1,26 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { Logger, logger } from './logger';
+
+declare global {
+  namespace Express {
+    interface Request {
+      requestId?: string;
+      // Logger tagging every line with the request id
+      log: Logger;
+    }
+  }
+}
+
+// Request ids sent by a proxy or client are kept if they look sane, otherwise a new one is made
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{1,100}$/;
+
+// Middleware giving every request an id, echoed back in the X-Request-Id response header
+// and added to everything logged through req.log
+export function assignRequestId(req: Request, res: Response, next: NextFunction): void {
+  const incoming = req.get('X-Request-Id');
+  req.requestId = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : crypto.randomUUID();
+  req.log = logger.child({ requestId: req.requestId });
+  res.setHeader('X-Request-Id', req.requestId);
+  next();
+}
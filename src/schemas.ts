@@ -0,0 +1,763 @@
+import { AUDITED_TABLES } from './audit';
+import { ROLES } from './auth';
+import { CATEGORY_GROUPS } from './categories';
+import { EXPORT_FORMATS } from './export';
+import { PHONE_FIELDS } from './phone';
+import { QUALITY_ISSUES, REPORT_FORMATS } from './reports';
+import { ApiRoute, Schema } from './validation';
+
+// The one description of the API: JSON Schemas for request and response bodies and the
+// routes that use them. openapi.ts turns this into the OpenAPI document and the TypeScript
+// types for the app, and registers it for request validation (validation.ts).
+
+export function ref(name: string): Schema {
+  return { $ref: `#/components/schemas/${name}` };
+}
+
+function nullable(schema: Schema): Schema {
+  return { ...schema, type: [schema.type, 'null'] };
+}
+
+// Object schema where every listed property is required
+function object(properties: Record<string, Schema>, description?: string): Schema {
+  return {
+    type: 'object',
+    ...(description ? { description } : {}),
+    properties,
+    required: Object.keys(properties)
+  };
+}
+
+// The { success: true, data } envelope every endpoint answers with
+function success(data: Schema, extra: Record<string, Schema> = {}, optional: Record<string, Schema> = {}): Schema {
+  const envelope = object({ success: { type: 'boolean', const: true }, data, ...extra });
+  return { ...envelope, properties: { ...envelope.properties, ...optional } };
+}
+
+const CATEGORY_GROUP_NAMES = CATEGORY_GROUPS.map(info => info.group);
+
+export const SCHEMAS: Record<string, Schema> = {
+  ApiError: {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean', const: false },
+      error: { type: 'string' },
+      details: { type: 'array', items: ref('ValidationErrorDetail') }
+    },
+    required: ['success', 'error']
+  },
+  ValidationErrorDetail: object({
+    field: { type: 'string' },
+    message: { type: 'string' }
+  }),
+  Message: object({
+    success: { type: 'boolean', const: true },
+    message: { type: 'string' }
+  }),
+  Pagination: {
+    type: 'object',
+    properties: {
+      total: { type: 'integer' },
+      limit: { type: 'integer' },
+      offset: { type: 'integer' },
+      sort: { type: 'string' },
+      hasMore: { type: 'boolean' },
+      next: { type: ['string', 'null'], description: 'Cursor of the next page' },
+      prev: { type: ['string', 'null'], description: 'Cursor of the previous page' }
+    },
+    required: ['total', 'limit', 'offset', 'hasMore']
+  },
+  ContactPhone: object({
+    field: { type: 'string', enum: [...PHONE_FIELDS] },
+    raw: { type: 'string', description: 'The number as stored' },
+    e164: nullable({ type: 'string', description: 'The number in E.164 format, null when it cannot be parsed' }),
+    country: nullable({ type: 'string', description: 'ISO 3166 country code' }),
+    type: nullable({ type: 'string', description: 'MOBILE, FIXED_LINE, ...' }),
+    valid: { type: 'boolean' },
+    primary: { type: 'boolean' },
+    whatsapp: { type: 'boolean' },
+    telLink: nullable({ type: 'string' }),
+    whatsappLink: nullable({ type: 'string' })
+  }),
+  Contact: {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      name: { type: 'string' },
+      location: { type: 'string' },
+      phone: { type: 'string' },
+      phone1: { type: 'string' },
+      phone2: { type: 'string' },
+      phones: { type: 'array', items: ref('ContactPhone') },
+      whatsapp: { type: 'string', description: 'WhatsApp number in international format without +' },
+      rank: { type: 'string' },
+      province: { type: 'string' },
+      state: { type: 'string' },
+      categoryType: nullable({ type: 'string', enum: [...CATEGORY_GROUP_NAMES, null] }),
+      categoryId: nullable({ type: 'integer' }),
+      score: { type: 'number', description: 'Relevance, only with searchMode=ranked' },
+      hideFromPublic: { type: 'boolean', description: 'Left out for anonymous callers; only returned to staff' },
+      helpDesk: { type: 'boolean', description: 'Visible to pilgrims; only returned to staff' }
+    },
+    required: [
+      'id', 'name', 'location', 'phone', 'phone1', 'phone2', 'phones', 'whatsapp',
+      'rank', 'province', 'state', 'categoryType', 'categoryId'
+    ]
+  },
+  ContactInput: {
+    type: 'object',
+    properties: {
+      name: { type: 'string', minLength: 1, maxLength: 100 },
+      phone: { type: 'string' },
+      phone1: { type: 'string' },
+      phone2: { type: 'string' },
+      rank: { type: 'string', maxLength: 100 },
+      province: { type: 'string', minLength: 1 },
+      state: { type: 'string', minLength: 1 },
+      location: { type: 'string', minLength: 1 },
+      categoryType: { type: 'string', enum: CATEGORY_GROUP_NAMES },
+      categoryId: { type: 'integer', minimum: 1 },
+      hideFromPublic: { type: 'boolean' },
+      helpDesk: { type: 'boolean' }
+    },
+    additionalProperties: false
+  },
+  Category: object({
+    group: { type: 'string', enum: CATEGORY_GROUP_NAMES },
+    id: { type: 'integer' },
+    label: { type: 'string' }
+  }),
+  Province: {
+    type: 'object',
+    properties: { province_id: { type: 'integer' }, province: { type: 'string' } },
+    required: ['province_id', 'province']
+  },
+  State: {
+    type: 'object',
+    properties: { state_id: { type: 'integer' }, state_name: { type: 'string' } },
+    required: ['state_id', 'state_name']
+  },
+  DirectoryLocation: object({
+    group: nullable({ type: 'string', enum: [...CATEGORY_GROUP_NAMES, null] }),
+    id: nullable({ type: 'integer' }),
+    label: { type: 'string' },
+    count: { type: 'integer' }
+  }, 'A location (category) in a state; group and id are null for contacts without a known category'),
+  DirectoryState: object({
+    id: nullable({ type: 'integer', description: 'null for contacts without a known state' }),
+    name: { type: 'string' },
+    count: { type: 'integer' },
+    locations: { type: 'array', items: ref('DirectoryLocation') }
+  }),
+  DirectoryProvince: object({
+    id: nullable({ type: 'integer', description: 'null for contacts without a known province' }),
+    name: { type: 'string' },
+    count: { type: 'integer' },
+    states: { type: 'array', items: ref('DirectoryState') }
+  }),
+  DirectoryTree: object({
+    total: { type: 'integer' },
+    provinces: { type: 'array', items: ref('DirectoryProvince') }
+  }),
+  LookupCount: object({
+    id: nullable({ type: 'integer', description: 'null counts the contacts without a known one' }),
+    name: { type: 'string' },
+    count: { type: 'integer' }
+  }),
+  DirectoryStats: object({
+    total: { type: 'integer' },
+    byProvince: { type: 'array', items: ref('LookupCount') },
+    byState: { type: 'array', items: ref('LookupCount') },
+    byCategoryGroup: {
+      type: 'array',
+      items: object({ group: nullable({ type: 'string', enum: [...CATEGORY_GROUP_NAMES, null] }), count: { type: 'integer' } })
+    },
+    byCategory: {
+      type: 'array',
+      items: object({
+        group: { type: 'string', enum: CATEGORY_GROUP_NAMES },
+        id: { type: 'integer' },
+        label: { type: 'string' },
+        count: { type: 'integer' }
+      })
+    },
+    byRank: {
+      type: 'array',
+      items: object({ rank: nullable({ type: 'string' }), count: { type: 'integer' } })
+    }
+  }),
+  QualityIssue: object({
+    recordId: { type: 'integer' },
+    name: { type: 'string' },
+    issue: { type: 'string', enum: [...QUALITY_ISSUES] },
+    field: nullable({ type: 'string', description: 'The offending column, for issues about one field' }),
+    value: nullable({ type: 'string' })
+  }),
+  LookupEntry: object({
+    id: { type: 'integer' },
+    name: { type: 'string' }
+  }),
+  SyncContact: object({
+    id: { type: 'string' },
+    name: { type: 'string' },
+    rank: { type: 'string' },
+    phone: { type: 'string', description: 'As stored; the client parses the numbers and builds the links' },
+    phone1: { type: 'string' },
+    phone2: { type: 'string' },
+    provinceId: nullable({ type: 'integer' }),
+    stateId: nullable({ type: 'integer' }),
+    categoryType: nullable({ type: 'string', enum: [...CATEGORY_GROUP_NAMES, null] }),
+    categoryId: nullable({ type: 'integer' }),
+    hideFromPublic: { type: 'boolean' },
+    helpDesk: { type: 'boolean' }
+  }, 'A contact as stored, with the province, state and category by id'),
+  SyncResponse: object({
+    token: { type: 'string', description: 'Pass as since on the next call' },
+    full: { type: 'boolean', description: 'True for a full snapshot: replace everything stored locally' },
+    hasMore: { type: 'boolean', description: 'More changes are waiting, call again with the new token' },
+    contacts: object({
+      upserted: { type: 'array', items: ref('SyncContact') },
+      deleted: { type: 'array', items: { type: 'string' } }
+    }),
+    provinces: object({
+      upserted: { type: 'array', items: ref('LookupEntry') },
+      deleted: { type: 'array', items: { type: 'integer' } }
+    }),
+    states: object({
+      upserted: { type: 'array', items: ref('LookupEntry') },
+      deleted: { type: 'array', items: { type: 'integer' } }
+    }),
+    categories: object({
+      upserted: { type: 'array', items: ref('Category') },
+      deleted: {
+        type: 'array',
+        items: object({ group: { type: 'string', enum: CATEGORY_GROUP_NAMES }, id: { type: 'integer' } })
+      }
+    })
+  }),
+  DuplicateGroup: object({
+    confidence: { type: 'number', minimum: 0, maximum: 1 },
+    reasons: { type: 'array', items: { type: 'string', enum: ['name', 'phone'] } },
+    sharedPhones: { type: 'array', items: { type: 'string' } },
+    contacts: { type: 'array', items: ref('Contact') }
+  }),
+  MergeInput: {
+    type: 'object',
+    properties: {
+      survivorId: { type: ['integer', 'string'], description: 'Record that is kept' },
+      mergeIds: { type: 'array', items: { type: ['integer', 'string'] }, minItems: 1, maxItems: 20 },
+      fields: {
+        type: 'object',
+        description: 'For each field, the id of the record to take it from (default: the survivor)',
+        properties: Object.fromEntries(
+          ['name', 'rank', 'province', 'state', 'location'].map(field => [field, { type: ['integer', 'string'] }])
+        ),
+        additionalProperties: false
+      },
+      phones: {
+        type: 'array',
+        items: { type: 'string' },
+        minItems: 1,
+        maxItems: PHONE_FIELDS.length,
+        description: 'Numbers to keep, when the records have more than fit on one record'
+      }
+    },
+    required: ['survivorId', 'mergeIds'],
+    additionalProperties: false
+  },
+  AuditEntry: object({
+    id: { type: 'string' },
+    table: { type: 'string' },
+    recordId: { type: 'integer' },
+    action: { type: 'string', enum: ['create', 'update', 'delete', 'restore', 'merge', 'import'] },
+    actor: { type: 'string' },
+    requestId: nullable({ type: 'string' }),
+    at: { type: 'string', format: 'date-time' },
+    before: nullable({ type: 'object' }),
+    after: nullable({ type: 'object' }),
+    changes: {
+      type: 'array',
+      items: object({ field: { type: 'string' }, before: {}, after: {} })
+    }
+  }),
+  ImportReport: object({
+    dryRun: { type: 'boolean' },
+    committed: { type: 'boolean' },
+    summary: object({
+      total: { type: 'integer' },
+      ok: { type: 'integer' },
+      errors: { type: 'integer' },
+      duplicates: { type: 'integer' },
+      imported: { type: 'integer' }
+    }),
+    unknownNames: object({
+      province: { type: 'array', items: { type: 'string' } },
+      state: { type: 'array', items: { type: 'string' } },
+      location: { type: 'array', items: { type: 'string' } }
+    }),
+    rows: {
+      type: 'array',
+      items: object({
+        row: { type: 'integer' },
+        status: { type: 'string', enum: ['ok', 'error', 'duplicate'] },
+        name: { type: 'string' },
+        errors: { type: 'array', items: { type: 'string' } },
+        unknown: { type: 'array', items: object({ field: { type: 'string' }, value: { type: 'string' } }) },
+        duplicates: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              source: { type: 'string', enum: ['file', 'database'] },
+              row: { type: 'integer' },
+              id: { type: 'string' },
+              reason: { type: 'string' }
+            },
+            required: ['source', 'reason']
+          }
+        }
+      })
+    }
+  }),
+  AuthContext: object({
+    type: { type: 'string', enum: ['user', 'api_key'] },
+    id: { type: 'integer' },
+    name: { type: 'string' },
+    role: { type: 'string', enum: [...ROLES] }
+  }),
+  LoginInput: {
+    type: 'object',
+    properties: {
+      username: { type: 'string', minLength: 1 },
+      password: { type: 'string', minLength: 1 }
+    },
+    required: ['username', 'password']
+  },
+  LoginResult: object({
+    token: { type: 'string' },
+    expiresAt: { type: 'string', format: 'date-time' },
+    user: object({ id: { type: 'integer' }, username: { type: 'string' }, role: { type: 'string', enum: [...ROLES] } })
+  }),
+  UserInput: {
+    type: 'object',
+    properties: {
+      username: { type: 'string', pattern: '^[a-zA-Z0-9._-]{3,50}$' },
+      password: { type: 'string', minLength: 10 },
+      role: { type: 'string', enum: [...ROLES] }
+    },
+    required: ['username', 'password', 'role'],
+    additionalProperties: false
+  },
+  ApiKeyInput: {
+    type: 'object',
+    properties: {
+      name: { type: 'string', minLength: 1, maxLength: 100 },
+      role: { type: 'string', enum: [...ROLES] }
+    },
+    required: ['name', 'role'],
+    additionalProperties: false
+  },
+  GraphQLRequest: {
+    type: 'object',
+    properties: {
+      query: { type: 'string', minLength: 1 },
+      variables: { type: ['object', 'null'] },
+      operationName: { type: ['string', 'null'] }
+    },
+    required: ['query'],
+    additionalProperties: false
+  },
+  GraphQLResult: {
+    type: 'object',
+    description: 'Not the usual envelope: data and errors as in the GraphQL over HTTP spec',
+    properties: {
+      data: { type: ['object', 'null'] },
+      errors: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: { message: { type: 'string' }, path: { type: 'array' }, locations: { type: 'array' } },
+          required: ['message']
+        }
+      }
+    }
+  }
+};
+
+// Shared query parameters
+const PAGE_QUERY: Record<string, Schema> = {
+  limit: { type: 'integer', minimum: 1, default: 50, description: 'Page size' },
+  offset: { type: 'integer', minimum: 0, default: 0 }
+};
+
+const CONTACT_FILTER_QUERY: Record<string, Schema> = {
+  search: { type: 'string', description: 'Name or phone number, in any format' },
+  location: { type: 'string' },
+  province: { type: 'string' },
+  state: { type: 'string' },
+  category: { type: 'string', description: 'A category group (medical) or group and id (medical:12)' }
+};
+
+const ID_PARAMS: Schema = object({ id: { type: 'integer', minimum: 1 } });
+
+function query(properties: Record<string, Schema>, required: string[] = []): Schema {
+  return { type: 'object', properties, required };
+}
+
+// Every route of the API, keyed by "<METHOD> <path>" as used by validate()
+export const API_ROUTES: Record<string, ApiRoute> = {
+  'POST /api/auth/login': {
+    method: 'post', path: '/api/auth/login', operationId: 'login', tag: 'Auth', role: null,
+    summary: 'Exchange a username and password for a bearer token',
+    body: ref('LoginInput'),
+    responses: {
+      200: { description: 'Logged in', schema: success(ref('LoginResult')) },
+      401: { description: 'Invalid username or password', schema: ref('ApiError') }
+    }
+  },
+  'GET /api/auth/me': {
+    method: 'get', path: '/api/auth/me', operationId: 'getCurrentUser', tag: 'Auth', role: 'pilgrim',
+    summary: 'The authenticated caller',
+    responses: { 200: { description: 'Caller', schema: success(ref('AuthContext')) } }
+  },
+  'GET /api/users': {
+    method: 'get', path: '/api/users', operationId: 'listUsers', tag: 'Auth', role: 'admin',
+    summary: 'List user logins',
+    responses: { 200: { description: 'Users', schema: success({ type: 'array', items: { type: 'object' } }) } }
+  },
+  'POST /api/users': {
+    method: 'post', path: '/api/users', operationId: 'createUser', tag: 'Auth', role: 'admin',
+    summary: 'Create a user login',
+    body: ref('UserInput'),
+    responses: {
+      201: { description: 'Created', schema: success({ type: 'object' }) },
+      409: { description: 'Username already exists', schema: ref('ApiError') }
+    }
+  },
+  'GET /api/api-keys': {
+    method: 'get', path: '/api/api-keys', operationId: 'listApiKeys', tag: 'Auth', role: 'admin',
+    summary: 'List API keys (never the keys themselves)',
+    responses: { 200: { description: 'API keys', schema: success({ type: 'array', items: { type: 'object' } }) } }
+  },
+  'POST /api/api-keys': {
+    method: 'post', path: '/api/api-keys', operationId: 'createApiKey', tag: 'Auth', role: 'admin',
+    summary: 'Create an API key; the key is only returned here',
+    body: ref('ApiKeyInput'),
+    responses: { 201: { description: 'Created', schema: success({ type: 'object' }) } }
+  },
+  'DELETE /api/api-keys/:id': {
+    method: 'delete', path: '/api/api-keys/:id', operationId: 'revokeApiKey', tag: 'Auth', role: 'admin',
+    summary: 'Revoke an API key',
+    params: ID_PARAMS,
+    responses: {
+      200: { description: 'Revoked', schema: ref('Message') },
+      404: { description: 'API key not found', schema: ref('ApiError') }
+    }
+  },
+  'GET /api/contacts': {
+    method: 'get', path: '/api/contacts', operationId: 'listContacts', tag: 'Contacts', role: null, optionalAuth: true,
+    summary: 'List contacts, filtered and paginated by offset or cursor. Anonymous callers get the public contacts with masked numbers, pilgrims the help desk contacts',
+    query: query({
+      ...CONTACT_FILTER_QUERY,
+      searchMode: { type: 'string', enum: ['like', 'ranked'], default: 'like' },
+      sort: {
+        type: 'string', enum: ['id', 'name', 'rank', 'state', 'province', 'updated'], default: 'id',
+        description: 'name sorts by first and last name; state and province by id, keeping the contacts of each together'
+      },
+      cursor: { type: 'string', description: 'next or prev cursor of a previous page' },
+      ...PAGE_QUERY
+    }),
+    responses: {
+      200: { description: 'A page of contacts', schema: success({ type: 'array', items: ref('Contact') }, { pagination: ref('Pagination') }) }
+    }
+  },
+  'GET /api/contacts-alt': {
+    method: 'get', path: '/api/contacts-alt', operationId: 'listContactsAlt', tag: 'Contacts', role: null, optionalAuth: true,
+    summary: 'List contacts ordered by id (use /api/contacts)',
+    deprecated: true,
+    query: query({ ...CONTACT_FILTER_QUERY, ...PAGE_QUERY }),
+    responses: {
+      200: { description: 'A page of contacts', schema: success({ type: 'array', items: ref('Contact') }, { pagination: ref('Pagination') }) }
+    }
+  },
+  'GET /api/contacts/export': {
+    method: 'get', path: '/api/contacts/export', operationId: 'exportContacts', tag: 'Contacts', role: 'viewer',
+    summary: 'Download the filtered contacts as vCard or CSV',
+    query: query({
+      ...CONTACT_FILTER_QUERY,
+      format: { type: 'string', enum: [...EXPORT_FORMATS], default: 'vcf' },
+      version: { type: 'string', enum: ['3.0', '4.0'], default: '3.0', description: 'vCard version' }
+    }),
+    responses: {
+      200: { description: 'vCard or CSV file', contentType: 'text/vcard', schema: { type: 'string' } }
+    }
+  },
+  'POST /api/contacts/import': {
+    method: 'post', path: '/api/contacts/import', operationId: 'importContacts', tag: 'Contacts', role: 'editor',
+    summary: 'Import a CSV or XLSX file; a dry run unless dryRun=false',
+    query: query({
+      dryRun: { type: 'boolean', default: true },
+      allowDuplicates: { type: 'boolean', default: false },
+      format: { type: 'string', enum: ['csv', 'xlsx'] }
+    }),
+    bodyContentType: 'text/csv',
+    responses: {
+      200: { description: 'Dry run report', schema: success(ref('ImportReport')) },
+      201: { description: 'Imported', schema: success(ref('ImportReport')) }
+    }
+  },
+  'GET /api/contacts/duplicates': {
+    method: 'get', path: '/api/contacts/duplicates', operationId: 'findDuplicateContacts', tag: 'Contacts', role: 'editor',
+    summary: 'Groups of likely duplicate contacts, most confident first',
+    query: query({
+      minConfidence: { type: 'number', minimum: 0, maximum: 1, default: 0.6 },
+      limit: { type: 'integer', minimum: 1, maximum: 500, default: 50 },
+      offset: { type: 'integer', minimum: 0, default: 0 }
+    }),
+    responses: {
+      200: { description: 'Duplicate groups', schema: success({ type: 'array', items: ref('DuplicateGroup') }, { pagination: ref('Pagination') }) }
+    }
+  },
+  'POST /api/contacts/merge': {
+    method: 'post', path: '/api/contacts/merge', operationId: 'mergeContacts', tag: 'Contacts', role: 'editor',
+    summary: 'Merge records into a survivor',
+    body: ref('MergeInput'),
+    responses: {
+      200: { description: 'The survivor after the merge', schema: success(ref('Contact'), { mergedIds: { type: 'array', items: { type: 'string' } } }) },
+      404: { description: 'Contact not found', schema: ref('ApiError') },
+      409: { description: 'A record changed during the merge', schema: ref('ApiError') }
+    }
+  },
+  'GET /api/contacts/:id/vcard': {
+    method: 'get', path: '/api/contacts/:id/vcard', operationId: 'getContactVCard', tag: 'Contacts', role: 'pilgrim',
+    summary: 'Download one contact as a vCard',
+    params: ID_PARAMS,
+    query: query({ version: { type: 'string', enum: ['3.0', '4.0'], default: '3.0' } }),
+    responses: {
+      200: { description: 'vCard file', contentType: 'text/vcard', schema: { type: 'string' } },
+      404: { description: 'Contact not found', schema: ref('ApiError') }
+    }
+  },
+  'GET /api/contacts/:id/history': {
+    method: 'get', path: '/api/contacts/:id/history', operationId: 'getContactHistory', tag: 'Audit', role: 'editor',
+    summary: 'Change history of a contact, including records merged into it',
+    params: ID_PARAMS,
+    responses: {
+      200: { description: 'Audit entries, newest first', schema: success({ type: 'array', items: ref('AuditEntry') }) },
+      404: { description: 'No history', schema: ref('ApiError') }
+    }
+  },
+  'GET /api/contacts/:id': {
+    method: 'get', path: '/api/contacts/:id', operationId: 'getContact', tag: 'Contacts', role: null, optionalAuth: true,
+    summary: 'Get a contact; the id of a merged contact gives the record it was merged into. Anonymous callers and pilgrims get what they get in the list',
+    params: ID_PARAMS,
+    responses: {
+      200: {
+        description: 'Contact',
+        schema: success(ref('Contact'), {}, { mergedFrom: { type: 'string', description: 'The id asked for, when it was merged into this contact' } })
+      },
+      404: { description: 'Contact not found', schema: ref('ApiError') }
+    }
+  },
+  'POST /api/contacts': {
+    method: 'post', path: '/api/contacts', operationId: 'createContact', tag: 'Contacts', role: 'editor',
+    summary: 'Create a contact',
+    body: ref('ContactInput'),
+    responses: { 201: { description: 'Created', schema: success(ref('Contact')) } }
+  },
+  'PATCH /api/contacts/:id': {
+    method: 'patch', path: '/api/contacts/:id', operationId: 'updateContact', tag: 'Contacts', role: 'editor',
+    summary: 'Update selected fields of a contact',
+    params: ID_PARAMS,
+    body: ref('ContactInput'),
+    responses: {
+      200: { description: 'Updated', schema: success(ref('Contact')) },
+      404: { description: 'Contact not found', schema: ref('ApiError') }
+    }
+  },
+  'DELETE /api/contacts/:id': {
+    method: 'delete', path: '/api/contacts/:id', operationId: 'deleteContact', tag: 'Contacts', role: 'editor',
+    summary: 'Soft-delete a contact',
+    params: ID_PARAMS,
+    responses: {
+      200: {
+        description: 'Deleted',
+        schema: object({
+          success: { type: 'boolean', const: true },
+          message: { type: 'string' },
+          data: object({ id: { type: 'string' } })
+        })
+      },
+      404: { description: 'Contact not found', schema: ref('ApiError') }
+    }
+  },
+  'POST /api/contacts/:id/restore': {
+    method: 'post', path: '/api/contacts/:id/restore', operationId: 'restoreContact', tag: 'Contacts', role: 'editor',
+    summary: 'Restore a soft-deleted contact',
+    params: ID_PARAMS,
+    responses: {
+      200: { description: 'Restored', schema: success(ref('Contact')) },
+      404: { description: 'No deleted contact with this id', schema: ref('ApiError') }
+    }
+  },
+  'GET /api/sync': {
+    method: 'get', path: '/api/sync', operationId: 'syncDirectory', tag: 'Sync', role: 'viewer',
+    summary: 'Full snapshot without a token, changes since the token with one',
+    query: query({ since: { type: 'string', description: 'token of the previous sync' } }),
+    responses: {
+      200: { description: 'Snapshot or changes', schema: success(ref('SyncResponse')) },
+      410: { description: 'Token expired, sync again without a token', schema: ref('ApiError') }
+    }
+  },
+  'GET /api/audit': {
+    method: 'get', path: '/api/audit', operationId: 'listAuditEntries', tag: 'Audit', role: 'editor',
+    summary: 'Search the audit trail, newest first',
+    query: query({
+      table: { type: 'string', enum: AUDITED_TABLES },
+      recordId: { type: 'integer' },
+      actor: { type: 'string', description: 'e.g. user:amina or api_key:mobile-app' },
+      action: { type: 'string' },
+      requestId: { type: 'string' },
+      from: { type: 'string', description: 'Date or date-time' },
+      to: { type: 'string', description: 'Date or date-time' },
+      limit: { type: 'integer', minimum: 1, maximum: 200, default: 50 },
+      offset: { type: 'integer', minimum: 0, default: 0 }
+    }),
+    responses: {
+      200: { description: 'Audit entries', schema: success({ type: 'array', items: ref('AuditEntry') }, { pagination: ref('Pagination') }) }
+    }
+  },
+  'GET /api/categories': {
+    method: 'get', path: '/api/categories', operationId: 'listCategories', tag: 'Lookups', role: 'viewer',
+    summary: 'All categories, optionally of one group',
+    query: query({ group: { type: 'string', enum: CATEGORY_GROUP_NAMES } }),
+    responses: { 200: { description: 'Categories', schema: success({ type: 'array', items: ref('Category') }) } }
+  },
+  'GET /api/categories/stats': {
+    method: 'get', path: '/api/categories/stats', operationId: 'getCategoryStats', tag: 'Admin', role: 'admin',
+    summary: 'Category cache statistics',
+    responses: { 200: { description: 'Statistics', schema: success({ type: 'object' }) } }
+  },
+  'POST /api/categories/refresh': {
+    method: 'post', path: '/api/categories/refresh', operationId: 'refreshCategories', tag: 'Admin', role: 'admin',
+    summary: 'Reload the category tables now',
+    responses: { 200: { description: 'Statistics after the refresh', schema: success({ type: 'object' }) } }
+  },
+  'GET /api/search/stats': {
+    method: 'get', path: '/api/search/stats', operationId: 'getSearchStats', tag: 'Admin', role: 'admin',
+    summary: 'Search index statistics',
+    responses: { 200: { description: 'Statistics', schema: success({ type: 'object' }) } }
+  },
+  'POST /api/search/rebuild': {
+    method: 'post', path: '/api/search/rebuild', operationId: 'rebuildSearchIndex', tag: 'Admin', role: 'admin',
+    summary: 'Rebuild the search index now',
+    responses: { 200: { description: 'Statistics after the rebuild', schema: success({ type: 'object' }) } }
+  },
+  'GET /api/locations': {
+    method: 'get', path: '/api/locations', operationId: 'listLocations', tag: 'Lookups', role: 'viewer',
+    summary: 'Location names',
+    responses: { 200: { description: 'Locations', schema: success({ type: 'array', items: { type: 'string' } }) } }
+  },
+  'GET /api/provinces': {
+    method: 'get', path: '/api/provinces', operationId: 'listProvinces', tag: 'Lookups', role: 'viewer',
+    summary: 'All provinces',
+    responses: { 200: { description: 'Provinces', schema: success({ type: 'array', items: ref('Province') }) } }
+  },
+  'GET /api/states': {
+    method: 'get', path: '/api/states', operationId: 'listStates', tag: 'Lookups', role: 'viewer',
+    summary: 'All states',
+    responses: { 200: { description: 'States', schema: success({ type: 'array', items: ref('State') }) } }
+  },
+  'GET /api/directory/tree': {
+    method: 'get', path: '/api/directory/tree', operationId: 'getDirectoryTree', tag: 'Lookups', role: 'viewer',
+    summary: 'Provinces containing their states and locations, with contact counts',
+    responses: { 200: { description: 'Directory tree', schema: success(ref('DirectoryTree')) } }
+  },
+  'GET /api/provinces/:id/states': {
+    method: 'get', path: '/api/provinces/:id/states', operationId: 'listProvinceStates', tag: 'Lookups', role: 'viewer',
+    summary: 'States of a province with their locations and contact counts',
+    params: ID_PARAMS,
+    responses: {
+      200: { description: 'States', schema: success({ type: 'array', items: ref('DirectoryState') }) },
+      404: { description: 'Province not found', schema: ref('ApiError') }
+    }
+  },
+  'GET /api/states/:id/contacts': {
+    method: 'get', path: '/api/states/:id/contacts', operationId: 'listStateContacts', tag: 'Contacts', role: 'viewer',
+    summary: 'Contacts in a state by name, optionally of one province or category',
+    params: ID_PARAMS,
+    query: query({
+      provinceId: { type: 'integer', minimum: 1 },
+      category: CONTACT_FILTER_QUERY.category!,
+      ...PAGE_QUERY
+    }),
+    responses: {
+      200: { description: 'A page of contacts', schema: success({ type: 'array', items: ref('Contact') }, { pagination: ref('Pagination') }) },
+      404: { description: 'State not found', schema: ref('ApiError') }
+    }
+  },
+  'GET /api/stats': {
+    method: 'get', path: '/api/stats', operationId: 'getDirectoryStats', tag: 'Reports', role: 'viewer',
+    summary: 'Contact counts by province, state, category and rank; CSV with format=csv',
+    query: query({ format: { type: 'string', enum: [...REPORT_FORMATS], default: 'json' } }),
+    responses: { 200: { description: 'Statistics', schema: success(ref('DirectoryStats')) } }
+  },
+  'GET /api/data-quality': {
+    method: 'get', path: '/api/data-quality', operationId: 'getDataQuality', tag: 'Reports', role: 'editor',
+    summary: 'Records with missing or invalid fields; CSV of every issue with format=csv',
+    query: query({
+      type: { type: 'string', enum: [...QUALITY_ISSUES] },
+      format: { type: 'string', enum: [...REPORT_FORMATS], default: 'json' },
+      limit: { type: 'integer', minimum: 1, maximum: 500, default: 50 },
+      offset: { type: 'integer', minimum: 0, default: 0 }
+    }),
+    responses: {
+      200: {
+        description: 'A page of issues',
+        schema: success({ type: 'array', items: ref('QualityIssue') }, {
+          summary: object({
+            checked: { type: 'integer' },
+            issues: object(Object.fromEntries(QUALITY_ISSUES.map(issue => [issue, { type: 'integer' }])))
+          }),
+          pagination: ref('Pagination')
+        })
+      }
+    }
+  },
+  'GET /api/test-data': {
+    method: 'get', path: '/api/test-data', operationId: 'getTestData', tag: 'Admin', role: 'admin',
+    summary: 'Row counts and sample rows for checking the database',
+    responses: { 200: { description: 'Counts and samples', schema: { type: 'object' } } }
+  },
+  'GET /api/health': {
+    method: 'get', path: '/api/health', operationId: 'getHealth', tag: 'Admin', role: null,
+    summary: 'Health check including the database connection',
+    responses: {
+      200: { description: 'Healthy', schema: { type: 'object' } },
+      500: { description: 'Database unreachable', schema: { type: 'object' } },
+      503: { description: 'Shutting down', schema: { type: 'object' } }
+    }
+  },
+  'POST /graphql': {
+    method: 'post', path: '/graphql', operationId: 'graphqlQuery', tag: 'GraphQL', role: null, optionalAuth: true,
+    summary: 'Run a GraphQL query over contacts, provinces, states and categories; visibility as on GET /api/contacts',
+    body: ref('GraphQLRequest'),
+    responses: {
+      200: { description: 'Result, with errors raised while resolving', schema: ref('GraphQLResult') },
+      400: { description: 'Query could not be parsed or validated', schema: ref('GraphQLResult') }
+    }
+  },
+  'GET /graphql': {
+    method: 'get', path: '/graphql', operationId: 'graphqlQueryGet', tag: 'GraphQL', role: null, optionalAuth: true,
+    summary: 'Run a GraphQL query given in the query string, for HTTP caching',
+    query: query({
+      query: { type: 'string', minLength: 1 },
+      variables: { type: 'string', description: 'JSON object' },
+      operationName: { type: 'string' }
+    }, ['query']),
+    responses: {
+      200: { description: 'Result, with errors raised while resolving', schema: ref('GraphQLResult') },
+      400: { description: 'Query could not be parsed or validated', schema: ref('GraphQLResult') }
+    }
+  }
+};
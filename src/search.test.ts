@@ -0,0 +1,51 @@
+import request from 'supertest';
+import app from './server';
+import { boundedLevenshtein, phoneticKey, searchIndex, tokenize } from './search';
+import { authHeader, loadFixture } from './test/helpers';
+
+beforeEach(async () => {
+  await loadFixture();
+});
+
+describe('tokenize', () => {
+  it('lower-cases, strips accents and punctuation and canonicalises name variants', () => {
+    expect(tokenize("Dr. Aishat  Lawal-Ibraheem")).toEqual(['dr', 'aisha', 'lawal', 'ibrahim']);
+    expect(tokenize('Fátimah')).toEqual(['fatima']);
+  });
+});
+
+describe('phoneticKey', () => {
+  it('gives sound-alike spellings the same key', () => {
+    expect(phoneticKey('mohammed')).toBe(phoneticKey('muhamad'));
+    expect(phoneticKey('musa')).not.toBe(phoneticKey('bello'));
+  });
+});
+
+describe('boundedLevenshtein', () => {
+  it('counts edits up to the bound', () => {
+    expect(boundedLevenshtein('danjuma', 'danjuma', 2)).toBe(0);
+    expect(boundedLevenshtein('danjuma', 'danjumma', 2)).toBe(1);
+    expect(boundedLevenshtein('garba', 'bello', 2)).toBe(3);
+  });
+});
+
+describe('searchIndex.search', () => {
+  it('finds names despite spelling variants and typos', () => {
+    expect(searchIndex.search('moussa abdullah', 5)[0]).toMatchObject({ id: 4 });
+    expect(searchIndex.search('danjumma', 5)[0]).toMatchObject({ id: 8 });
+  });
+
+  it('finds nothing for unrelated words', () => {
+    expect(searchIndex.search('xylophone', 5)).toEqual([]);
+  });
+});
+
+describe('/api/search', () => {
+  it('rebuilds the index and reports on it', async () => {
+    const rebuilt = await request(app).post('/api/search/rebuild').set(authHeader('admin'));
+    const stats = await request(app).get('/api/search/stats').set(authHeader('admin'));
+
+    expect(rebuilt.status).toBe(200);
+    expect(stats.body.data.documents).toBe(12);
+  });
+});
@@ -0,0 +1,382 @@
+import { Router, Request, Response } from 'express';
+import { requireRole } from './auth';
+import { validate } from './validation';
+import { logger } from './logger';
+import { categoryResolver } from './categories';
+import { isPhoneQuery, phoneSearchDigits } from './phone';
+import { repositories } from './repositories';
+
+// Ranked, typo tolerant search over the directory using an in-memory index rebuilt from MySQL
+
+type SearchField = 'name' | 'rank' | 'location' | 'state' | 'province' | 'phone';
+
+// How much a match in each field counts towards the score
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  name: 3,
+  phone: 3,
+  rank: 2,
+  location: 1.5,
+  state: 1.5,
+  province: 1
+};
+const MAX_FIELD_WEIGHT = 3;
+
+// Common transliterations of names, mapped onto one spelling
+const NAME_VARIANTS: Record<string, string[]> = {
+  muhammad: ['mohammed', 'muhammed', 'mohammad', 'mohamed', 'muhamed', 'mohamad', 'muhammadu', 'mohd', 'muhd'],
+  abubakar: ['abubakr', 'abubakari', 'abu-bakar'],
+  ahmad: ['ahmed', 'ahmadu'],
+  usman: ['uthman', 'othman', 'osman', 'usmanu', 'usmaan'],
+  yusuf: ['yusuff', 'yousef', 'yusif', 'yousuf', 'yussuf'],
+  ibrahim: ['ibraheem', 'ibrahima', 'ibrahym'],
+  abdullahi: ['abdullah', 'abdallah', 'abdulahi'],
+  hassan: ['hasan', 'hasanu'],
+  hussain: ['husain', 'hussein', 'husseini', 'hussaini', 'husaini'],
+  sulaiman: ['suleiman', 'sulaimanu', 'suleman', 'sulayman'],
+  aisha: ['aishat', 'aishatu', 'ayesha', 'aysha'],
+  fatima: ['fatimah', 'fatimatu', 'fatuma'],
+  khadija: ['khadijah', 'hadiza', 'hadizat', 'khadijat'],
+  zainab: ['zaynab', 'zainabu'],
+  umar: ['omar', 'umaru'],
+  isa: ['issa', 'isah'],
+  musa: ['moussa', 'mousa'],
+  yakubu: ['yaqub', 'yaqoob', 'yakub', 'yaakub'],
+  idris: ['idrees', 'idrisu'],
+  haruna: ['harun', 'haroon'],
+  abdulrahman: ['abdurrahman', 'abdulrahaman', 'abdurahman', 'abdul-rahman'],
+  abdulkadir: ['abdulqadir', 'abdulkadri', 'abdul-kadir'],
+  nasir: ['nasiru', 'naseer', 'nasser'],
+  sadiq: ['sadik', 'siddiq', 'sadiku']
+};
+
+const CANONICAL_NAMES = new Map<string, string>();
+for (const [canonical, variants] of Object.entries(NAME_VARIANTS)) {
+  CANONICAL_NAMES.set(canonical, canonical);
+  variants.forEach(variant => CANONICAL_NAMES.set(variant.replace(/-/g, ''), canonical));
+}
+
+// Lower-case, strip accents and punctuation, split into tokens, canonicalise name variants
+export function tokenize(text: string): string[] {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(token => CANONICAL_NAMES.get(token) || token);
+}
+
+// Rough sound-alike key: all vowel runs become 'a', common digraphs are simplified
+// and doubled letters collapsed, so Mohammed/Muhamad end up the same
+export function phoneticKey(token: string): string {
+  return token
+    .replace(/ph/g, 'f')
+    .replace(/q/g, 'k')
+    .replace(/([kgtd])h/g, '$1')
+    .replace(/[aeiouy]+/g, 'a')
+    .replace(/(.)\1+/g, '$1');
+}
+
+// Levenshtein distance, giving up (returning max + 1) once it exceeds max
+export function boundedLevenshtein(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      const value = Math.min(previous[j]! + 1, current[j - 1]! + 1, previous[j - 1]! + cost);
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length]!;
+}
+
+interface QueryTerm {
+  text: string;
+  phonetic: string;
+  numeric: boolean;
+  // National number digits of a numeric term, parsed once per query
+  digits: string;
+}
+
+function toTerm(text: string): QueryTerm {
+  const numeric = /^\d+$/.test(text);
+  return { text, phonetic: phoneticKey(text), numeric, digits: numeric ? phoneSearchDigits(text) : '' };
+}
+
+// How well a query term matches an indexed token, from 0 (no match) to 1 (exact)
+function termSimilarity(term: QueryTerm, token: string, tokenPhonetic: string): number {
+  if (term.numeric) {
+    // Phone digits: match the national number, whatever format it was typed in
+    return term.digits.length >= 4 && token.includes(term.digits) ? 1 : 0;
+  }
+
+  if (term.text === token) return 1;
+  if (term.phonetic === tokenPhonetic) return 0.85;
+  if (term.text.length >= 2 && token.startsWith(term.text)) {
+    return 0.6 + 0.2 * (term.text.length / token.length);
+  }
+
+  const maxEdits = term.text.length >= 8 ? 2 : term.text.length >= 5 ? 1 : 0;
+  if (maxEdits > 0) {
+    const distance = boundedLevenshtein(term.phonetic, tokenPhonetic, maxEdits);
+    if (distance <= maxEdits) {
+      return distance <= 1 ? 0.7 : 0.5;
+    }
+  }
+  return 0;
+}
+
+interface Posting {
+  doc: number;
+  field: SearchField;
+}
+
+interface IndexedToken {
+  phonetic: string;
+  postings: Posting[];
+}
+
+export interface SearchResult {
+  id: number;
+  score: number;
+}
+
+export interface SearchIndexStats {
+  documents: number;
+  tokens: number;
+  builds: number;
+  buildFailures: number;
+  lastBuildAt: string | null;
+  lastBuildDurationMs: number | null;
+  lastBuildError: string | null;
+  searches: number;
+}
+
+// Minimum similarity for two query words joined together to count as a match
+const JOINED_MIN_SIMILARITY = 0.85;
+
+// Delay before rebuilding after a change, so a burst of writes causes one rebuild
+const STALE_REBUILD_DELAY_MS = 2000;
+
+export class SearchIndex {
+  private ids: number[] = [];
+  private vocabulary = new Map<string, IndexedToken>();
+  private building: Promise<void> | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private staleTimer: NodeJS.Timeout | null = null;
+  private stats: Omit<SearchIndexStats, 'documents' | 'tokens'> = {
+    builds: 0,
+    buildFailures: 0,
+    lastBuildAt: null,
+    lastBuildDurationMs: null,
+    lastBuildError: null,
+    searches: 0
+  };
+
+  // Rebuild the index from phone_record; concurrent callers share the same build
+  rebuild(): Promise<void> {
+    if (!this.building) {
+      this.building = this.build().finally(() => {
+        this.building = null;
+      });
+    }
+    return this.building;
+  }
+
+  private async build(): Promise<void> {
+    const started = Date.now();
+    try {
+      const rows = await repositories().contacts.findAll({});
+
+      const ids: number[] = [];
+      const vocabulary = new Map<string, IndexedToken>();
+      const add = (token: string, doc: number, field: SearchField) => {
+        let entry = vocabulary.get(token);
+        if (!entry) {
+          entry = { phonetic: field === 'phone' ? token : phoneticKey(token), postings: [] };
+          vocabulary.set(token, entry);
+        }
+        // Rows are added one at a time, so a repeat within a row is always the last posting
+        const last = entry.postings[entry.postings.length - 1];
+        if (!last || last.doc !== doc || last.field !== field) {
+          entry.postings.push({ doc, field });
+        }
+      };
+
+      rows.forEach((row, doc) => {
+        ids.push(row.record_id);
+
+        // Adjacent name parts are also indexed joined, so "abubakarsadiq" finds "Abubakar Sadiq"
+        const nameTokens = tokenize(`${row.f_name || ''} ${row.l_name || ''}`);
+        nameTokens.forEach((token, i) => {
+          add(token, doc, 'name');
+          if (i > 0) add(nameTokens[i - 1] + token, doc, 'name');
+        });
+
+        tokenize(row.rank || '').forEach(token => add(token, doc, 'rank'));
+        tokenize(categoryResolver.resolve(row)?.label || '').forEach(token => add(token, doc, 'location'));
+        tokenize(row.state_name || '').forEach(token => add(token, doc, 'state'));
+        tokenize(row.province || '').forEach(token => add(token, doc, 'province'));
+
+        [row.phone, row.phone1, row.phone2].forEach(phone => {
+          const digits = (phone || '').replace(/\D/g, '');
+          if (digits) add(digits, doc, 'phone');
+        });
+      });
+
+      this.ids = ids;
+      this.vocabulary = vocabulary;
+      this.stats.builds++;
+      this.stats.lastBuildAt = new Date().toISOString();
+      this.stats.lastBuildError = null;
+    } catch (error) {
+      this.stats.buildFailures++;
+      this.stats.lastBuildError = (error as Error).message;
+      throw error;
+    } finally {
+      this.stats.lastBuildDurationMs = Date.now() - started;
+    }
+  }
+
+  // Rebuild every intervalMs until stop() is called
+  start(intervalMs: number): void {
+    this.stop();
+    this.timer = setInterval(() => {
+      this.rebuild().catch(error => logger.error('Scheduled search index rebuild failed', { error }));
+    }, intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    if (this.staleTimer) {
+      clearTimeout(this.staleTimer);
+      this.staleTimer = null;
+    }
+  }
+
+  // Call after contacts change; the index is rebuilt shortly after
+  markStale(): void {
+    if (this.staleTimer) return;
+    this.staleTimer = setTimeout(() => {
+      this.staleTimer = null;
+      this.rebuild().catch(error => logger.error('Search index rebuild failed', { error }));
+    }, STALE_REBUILD_DELAY_MS);
+    this.staleTimer.unref();
+  }
+
+  // Score of every document matching each term, keeping the best field match per document.
+  // Matches below minSimilarity are ignored.
+  private matchTerm(term: QueryTerm, minSimilarity = 0): Map<number, number> {
+    const scores = new Map<number, number>();
+    this.vocabulary.forEach((entry, token) => {
+      const similarity = termSimilarity(term, token, entry.phonetic);
+      if (similarity === 0 || similarity < minSimilarity) return;
+
+      entry.postings.forEach(({ doc, field }) => {
+        // Numbers are matched against phone numbers only, words against everything else
+        if ((field === 'phone') !== term.numeric) return;
+        const score = similarity * FIELD_WEIGHTS[field];
+        if (score > (scores.get(doc) || 0)) {
+          scores.set(doc, score);
+        }
+      });
+    });
+    return scores;
+  }
+
+  // Documents matching every token of the query, best first, with a score between 0 and 1.
+  // Without phones, numbers in the query match nothing.
+  search(query: string, maxResults: number, phones = true): SearchResult[] {
+    this.stats.searches++;
+
+    // Something that looks like a phone number is searched as one number, whatever its formatting
+    const terms = isPhoneQuery(query)
+      ? [toTerm(query.replace(/\D/g, ''))]
+      : tokenize(query).map(toTerm);
+    if (terms.length === 0 || (!phones && terms.some(term => term.numeric))) return [];
+
+    const single = terms.map(term => this.matchTerm(term));
+
+    // Two query words typed apart can match one indexed word ("abu bakar" -> "abubakar").
+    // Joined words must match closely, otherwise a typo in one word hides behind the other.
+    const joined = terms.slice(1).map((term, i) =>
+      term.numeric || terms[i]!.numeric
+        ? new Map<number, number>()
+        : this.matchTerm(toTerm(terms[i]!.text + term.text), JOINED_MIN_SIMILARITY)
+    );
+
+    const termScore = (i: number, doc: number): number => Math.max(
+      single[i]!.get(doc) || 0,
+      i > 0 ? joined[i - 1]!.get(doc) || 0 : 0,
+      i < joined.length ? joined[i]!.get(doc) || 0 : 0
+    );
+
+    // Candidates must match the first term somehow, then every other term too
+    const candidates = new Set<number>([...single[0]!.keys(), ...(joined[0]?.keys() || [])]);
+    const results: SearchResult[] = [];
+
+    candidates.forEach(doc => {
+      let total = 0;
+      for (let i = 0; i < terms.length; i++) {
+        const score = termScore(i, doc);
+        if (score === 0) return;
+        total += score;
+      }
+      results.push({
+        id: this.ids[doc]!,
+        score: Math.round((total / (terms.length * MAX_FIELD_WEIGHT)) * 1000) / 1000
+      });
+    });
+
+    return results
+      .sort((a, b) => b.score - a.score || a.id - b.id)
+      .slice(0, maxResults);
+  }
+
+  getStats(): SearchIndexStats {
+    return { ...this.stats, documents: this.ids.length, tokens: this.vocabulary.size };
+  }
+}
+
+export const searchIndex = new SearchIndex();
+
+export const searchRouter = Router();
+
+// Search index statistics
+searchRouter.get('/api/search/stats', requireRole('admin'), validate('GET /api/search/stats'), (req: Request, res: Response): void => {
+  res.json({
+    success: true,
+    data: searchIndex.getStats()
+  });
+});
+
+// Rebuild the search index now
+searchRouter.post('/api/search/rebuild', requireRole('admin'), validate('POST /api/search/rebuild'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    await searchIndex.rebuild();
+
+    res.json({
+      success: true,
+      data: searchIndex.getStats()
+    });
+
+  } catch (error) {
+    req.log.error('Error rebuilding search index', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+});
@@ -0,0 +1,54 @@
+import { CATEGORY_GROUPS, categoryResolver } from './categories';
+import { findDuplicateGroups } from './duplicates';
+import { createMemoryRepositories } from './memoryRepositories';
+import { isValidPhone, PHONE_FIELDS } from './phone';
+import { setRepositories } from './repositories';
+import { generateSeedData } from './seed';
+
+describe('generateSeedData', () => {
+  const data = generateSeedData({ contacts: 500, seed: 7 });
+
+  it('gives the same data for the same seed', () => {
+    expect(generateSeedData({ contacts: 500, seed: 7 })).toEqual(data);
+    expect(generateSeedData({ contacts: 500, seed: 8 }).contacts).not.toEqual(data.contacts);
+  });
+
+  it('creates the zones, all states and every category table', () => {
+    expect(data.provinces).toHaveLength(6);
+    expect(data.states).toHaveLength(37);
+    for (const { group } of CATEGORY_GROUPS) {
+      expect(data.categories![group]!.length).toBeGreaterThan(0);
+    }
+  });
+
+  it('creates contacts that reference existing rows', () => {
+    const contacts = data.contacts!;
+    expect(contacts).toHaveLength(500);
+    expect(contacts.map(contact => contact.record_id)).toEqual(contacts.map((_, index) => index + 1));
+
+    for (const contact of contacts) {
+      expect(data.provinces!.some(province => province.province_id === contact.province_id)).toBe(true);
+      expect(data.states!.some(state => state.state_id === contact.state_id)).toBe(true);
+
+      // Exactly one lookup table, with an id that exists
+      const used = CATEGORY_GROUPS.filter(info => contact[info.idColumn] !== 0);
+      expect(used).toHaveLength(1);
+      expect(data.categories![used[0]!.group]!.some(category => category.id === contact[used[0]!.idColumn])).toBe(true);
+
+      for (const field of PHONE_FIELDS) {
+        const phone = String(contact[field] || '');
+        if (phone) expect(isValidPhone(phone)).toBe(true);
+      }
+    }
+  });
+
+  it('loads into the memory backend, with duplicates for the duplicate finder', async () => {
+    setRepositories(createMemoryRepositories(data));
+    await categoryResolver.refresh();
+
+    const groups = await findDuplicateGroups(0.5);
+
+    expect(groups.length).toBeGreaterThan(0);
+    expect(categoryResolver.getStats().entries.location).toBe(data.categories!.location!.length);
+  });
+});
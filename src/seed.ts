@@ -0,0 +1,230 @@
+import { RowDataPacket } from 'mysql2/promise';
+import type { AuditContext } from './audit';
+import { CATEGORY_GROUPS, CategoryGroup } from './categories';
+import type { Fixture } from './memoryRepositories';
+import { withAudit } from './mysqlRepositories';
+import { parsePhone } from './phone';
+import { ContactRecord } from './repositories';
+
+// Sample data for development: the geopolitical zones and states, categories for every
+// lookup table and a few thousand contacts with Nigerian and Saudi numbers. The same seed
+// always gives the same data. It can be loaded into an empty MySQL database or written
+// out as a fixture for DATA_BACKEND=memory.
+
+export interface SeedOptions {
+  contacts: number;
+  // Seed of the random generator
+  seed: number;
+}
+
+export const DEFAULT_SEED_OPTIONS: SeedOptions = { contacts: 3000, seed: 1 };
+
+// Zones (stored as provinces) and their states
+const ZONES: Record<string, string[]> = {
+  'North Central': ['Benue', 'FCT Abuja', 'Kogi', 'Kwara', 'Nasarawa', 'Niger', 'Plateau'],
+  'North East': ['Adamawa', 'Bauchi', 'Borno', 'Gombe', 'Taraba', 'Yobe'],
+  'North West': ['Jigawa', 'Kaduna', 'Kano', 'Katsina', 'Kebbi', 'Sokoto', 'Zamfara'],
+  'South East': ['Abia', 'Anambra', 'Ebonyi', 'Enugu', 'Imo'],
+  'South South': ['Akwa Ibom', 'Bayelsa', 'Cross River', 'Delta', 'Edo', 'Rivers'],
+  'South West': ['Ekiti', 'Lagos', 'Ogun', 'Ondo', 'Osun', 'Oyo']
+};
+
+const CATEGORIES: Record<CategoryGroup, string[]> = {
+  location: ['Headquarters Abuja', 'Kano Zonal Office', 'Lagos Zonal Office', 'Maiduguri Zonal Office', 'Sokoto Zonal Office', 'Ilorin Zonal Office'],
+  mk: ['Makkah Operations', 'Makkah Accommodation', 'Makkah Feeding', 'Makkah Transport', 'Makkah Guidance'],
+  md: ['Madinah Operations', 'Madinah Accommodation', 'Madinah Feeding', 'Madinah Transport'],
+  muas: ['Mashair Transport', 'Mina Camp', 'Arafat Camp', 'Muzdalifah Coordination'],
+  nrt: ['National Reception Team Jeddah', 'National Reception Team Madinah', 'Airport Liaison'],
+  field: ['Field Supervision', 'State Pilgrims Welfare Liaison', 'Monitoring and Evaluation'],
+  medical: ['Medical Team Makkah', 'Medical Team Madinah', 'Medical Team Mashair', 'Pharmacy'],
+  service: ['Service Providers Desk', 'Tour Operators Desk', 'Catering Contracts']
+};
+
+// Share of contacts in each lookup table
+const CATEGORY_WEIGHTS: Record<CategoryGroup, number> = {
+  location: 30, mk: 20, md: 15, muas: 8, nrt: 6, field: 8, medical: 8, service: 5
+};
+
+const FIRST_NAMES = [
+  'Abdullahi', 'Abubakar', 'Adamu', 'Aisha', 'Amina', 'Aminu', 'Bashir', 'Bello', 'Fatima', 'Garba',
+  'Hadiza', 'Halima', 'Haruna', 'Hauwa', 'Ibrahim', 'Idris', 'Isa', 'Jamila', 'Khadija', 'Lawal',
+  'Maryam', 'Muhammad', 'Musa', 'Nafisa', 'Nasiru', 'Rabi', 'Sadiq', 'Safiya', 'Sani', 'Sulaiman',
+  'Umar', 'Usman', 'Yahaya', 'Yakubu', 'Yusuf', 'Zainab', 'Abdulrahman', 'Abdulkadir', 'Hassan', 'Hussaini',
+  'Adebayo', 'Akeem', 'Azeez', 'Kabiru', 'Lateef', 'Mariam', 'Olanrewaju', 'Rasheed', 'Ridwan', 'Taofeek'
+];
+
+const LAST_NAMES = [
+  'Abdullahi', 'Abubakar', 'Adamu', 'Ahmed', 'Aliyu', 'Bala', 'Bello', 'Danjuma', 'Dikko', 'Garba',
+  'Gwarzo', 'Hassan', 'Ibrahim', 'Idris', 'Jibril', 'Kabir', 'Lawal', 'Mohammed', 'Musa', 'Nuhu',
+  'Sadiq', 'Salisu', 'Sani', 'Shehu', 'Suleiman', 'Tijani', 'Umar', 'Usman', 'Yakubu', 'Yusuf',
+  'Zubairu', 'Adeyemi', 'Akinola', 'Bakare', 'Lawal-Ogun', 'Oyewole', 'Raji', 'Salami', 'Yusuff', 'Balogun'
+];
+
+const TITLES = ['Dr.', 'Alhaji', 'Hajiya', 'Mallam'];
+
+const RANKS = [
+  'Director', 'Deputy Director', 'Assistant Director', 'Chief Officer', 'Principal Officer',
+  'Senior Officer', 'Officer', 'Desk Officer', 'Field Supervisor', 'Medical Officer', 'Nurse',
+  'Pharmacist', 'Driver', 'Liaison Officer', 'Volunteer'
+];
+
+const NIGERIAN_PREFIXES = [
+  '0803', '0806', '0703', '0706', '0813', '0816', '0810', '0814', '0903', '0906',
+  '0805', '0807', '0705', '0815', '0811', '0905', '0802', '0808', '0708', '0812', '0701', '0902'
+];
+
+const SAUDI_PREFIXES = ['050', '053', '054', '055', '056', '058', '059'];
+
+// Logins for a fixture written out for the memory backend. seedDatabase doesn't create
+// users; use the create-user command for MySQL.
+const DEV_USERS = [
+  { username: 'admin', password: 'admin-password', role: 'admin' },
+  { username: 'editor', password: 'editor-password', role: 'editor' },
+  { username: 'viewer', password: 'viewer-password', role: 'viewer' },
+  { username: 'pilgrim', password: 'pilgrim-password', role: 'pilgrim' }
+];
+
+// Small seeded generator (mulberry32), so a seed always gives the same data
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Generate the sample data. Contact ids start at 1, and about 1% of the contacts are
+// re-entries of an earlier contact with the number written differently, for the
+// duplicate finder.
+export function generateSeedData(options: SeedOptions = DEFAULT_SEED_OPTIONS): Fixture {
+  const random = createRandom(options.seed);
+  const pick = <T>(items: readonly T[]): T => items[Math.floor(random() * items.length)]!;
+  const digits = (count: number): string =>
+    Array.from({ length: count }, () => Math.floor(random() * 10)).join('');
+
+  const provinces = Object.keys(ZONES).map((province, index) => ({ province_id: index + 1, province }));
+  const states = Object.values(ZONES).flat().sort().map((state_name, index) => ({ state_id: index + 1, state_name }));
+  const stateId = new Map(states.map(state => [state.state_name, state.state_id]));
+
+  const categories: Fixture['categories'] = {};
+  for (const { group } of CATEGORY_GROUPS) {
+    categories[group] = CATEGORIES[group].map((label, index) => ({ id: index + 1, label }));
+  }
+
+  const totalWeight = Object.values(CATEGORY_WEIGHTS).reduce((sum, weight) => sum + weight, 0);
+  const pickGroup = (): typeof CATEGORY_GROUPS[number] => {
+    let roll = random() * totalWeight;
+    for (const info of CATEGORY_GROUPS) {
+      roll -= CATEGORY_WEIGHTS[info.group];
+      if (roll < 0) return info;
+    }
+    return CATEGORY_GROUPS[0];
+  };
+
+  // The same number in the formats found in the data
+  const nigerianNumber = (): string => {
+    const number = pick(NIGERIAN_PREFIXES) + digits(7);
+    const format = random();
+    if (format < 0.6) return number;
+    if (format < 0.8) return `${number.slice(0, 4)} ${number.slice(4, 7)} ${number.slice(7)}`;
+    if (format < 0.95) return `+234${number.slice(1)}`;
+    return `234${number.slice(1)}`;
+  };
+  const saudiNumber = (): string => {
+    const number = pick(SAUDI_PREFIXES) + digits(7);
+    return random() < 0.5 ? `+966${number.slice(1)}` : number;
+  };
+  // The same number written the other way: international if it was national and back
+  const reformat = (phone: string): string => {
+    const parsed = parsePhone(phone)!;
+    return phone.startsWith('+') ? `0${parsed.nationalNumber}` : parsed.e164;
+  };
+
+  const contacts: ContactRecord[] = [];
+  for (let index = 0; index < options.contacts; index++) {
+    const recordId = index + 1;
+
+    if (contacts.length > 10 && random() < 0.01) {
+      const original = pick(contacts);
+      contacts.push({ ...original, record_id: recordId, phone: reformat(String(original.phone)), phone1: '', phone2: '' });
+      continue;
+    }
+
+    const zone = pick(provinces);
+    const state = pick(ZONES[zone.province]!);
+    const group = pickGroup();
+    const rank = pick(RANKS);
+    const title = rank === 'Medical Officer' ? 'Dr.' : random() < 0.08 ? pick(TITLES) : '';
+
+    const record: ContactRecord = {
+      record_id: recordId,
+      f_name: [title, pick(FIRST_NAMES)].filter(Boolean).join(' '),
+      l_name: random() < 0.15 ? `${pick(LAST_NAMES)} ${pick(LAST_NAMES)}` : pick(LAST_NAMES),
+      rank,
+      phone: random() < 0.9 ? nigerianNumber() : saudiNumber(),
+      phone1: random() < 0.3 ? saudiNumber() : '',
+      phone2: random() < 0.05 ? nigerianNumber() : '',
+      province_id: zone.province_id,
+      state_id: stateId.get(state)!,
+      // Desk officers are the help desk pilgrims can reach
+      help_desk: rank === 'Desk Officer' ? 1 : 0
+    };
+    for (const info of CATEGORY_GROUPS) {
+      record[info.idColumn] = info === group ? 1 + Math.floor(random() * CATEGORIES[info.group].length) : 0;
+    }
+    contacts.push(record);
+  }
+
+  return { provinces, states, categories, contacts, users: DEV_USERS };
+}
+
+// Tables the seed writes to. They must be empty: seeding never touches existing data.
+const SEEDED_TABLES = ['province_info', 'state_info', ...CATEGORY_GROUPS.map(info => info.table), 'phone_record'];
+
+// Rows inserted per statement
+const SEED_BATCH_SIZE = 500;
+
+// Insert the sample data into the MySQL database, all or nothing. Throws when any of the
+// tables already has rows.
+export async function seedDatabase(data: Fixture, audit: AuditContext): Promise<void> {
+  await withAudit(audit, async connection => {
+    for (const table of SEEDED_TABLES) {
+      const [rows] = await connection.query<RowDataPacket[]>(`SELECT 1 FROM ${table} LIMIT 1`);
+      if (rows.length > 0) {
+        throw new Error(`${table} already has data, only an empty database can be seeded`);
+      }
+    }
+
+    const insert = async (table: string, columns: string[], rows: unknown[][]): Promise<void> => {
+      for (let start = 0; start < rows.length; start += SEED_BATCH_SIZE) {
+        await connection.query(
+          `INSERT INTO ${table} (${columns.map(column => `\`${column}\``).join(', ')}) VALUES ?`,
+          [rows.slice(start, start + SEED_BATCH_SIZE)]
+        );
+      }
+    };
+
+    await connection.beginTransaction();
+    try {
+      await insert('province_info', ['province_id', 'province'], (data.provinces || []).map(row => [row.province_id, row.province]));
+      await insert('state_info', ['state_id', 'state_name'], (data.states || []).map(row => [row.state_id, row.state_name]));
+      for (const { group, table, idColumn, labelColumn } of CATEGORY_GROUPS) {
+        const labels = (data.categories && data.categories[group]) || [];
+        await insert(table, [idColumn, labelColumn], labels.map(row => [row.id, row.label]));
+      }
+
+      const contacts = data.contacts || [];
+      if (contacts.length > 0) {
+        const columns = Object.keys(contacts[0]!);
+        await insert('phone_record', columns, contacts.map(record => columns.map(column => record[column] ?? null)));
+      }
+      await connection.commit();
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    }
+  });
+}
@@ -0,0 +1,489 @@
+import request from 'supertest';
+import app from './server';
+import { Repositories } from './repositories';
+import { authHeader, loadFixture, readFixture } from './test/helpers';
+
+let repos: Repositories;
+
+beforeEach(async () => {
+  repos = await loadFixture();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+// Record ids of a contact list response
+function ids(res: request.Response): number[] {
+  return res.body.data.map((contact: { id: string }) => Number(contact.id));
+}
+
+describe('GET /api/contacts', () => {
+  const list = (query: Record<string, string | number> = {}) =>
+    request(app).get('/api/contacts').query(query).set(authHeader('viewer'));
+
+  it('lists contacts by id with offset pagination', async () => {
+    const res = await list({ limit: 5 });
+
+    expect(res.status).toBe(200);
+    expect(ids(res)).toEqual([1, 2, 3, 4, 5]);
+    expect(res.body.pagination).toMatchObject({ total: 12, limit: 5, offset: 0, sort: 'id', hasMore: true, prev: null });
+    expect(res.body.data[0]).toMatchObject({
+      id: '1',
+      name: 'Amina Bello',
+      location: 'Headquarters Abuja',
+      province: 'North Central',
+      state: 'FCT Abuja',
+      categoryType: 'location',
+      categoryId: 1
+    });
+  });
+
+  it('rejects invalid credentials', async () => {
+    const res = await request(app).get('/api/contacts').set('X-API-Key', 'nk_no_such_key');
+
+    expect(res.status).toBe(401);
+    expect(res.body).toEqual({ success: false, error: 'Invalid credentials' });
+  });
+
+  it('accepts an API key', async () => {
+    const res = await request(app).get('/api/contacts').set('X-API-Key', 'nk_dev_mobile_app_key');
+
+    expect(res.status).toBe(200);
+    expect(res.body.pagination.total).toBe(12);
+  });
+
+  describe('filters', () => {
+    it('searches names', async () => {
+      const res = await list({ search: 'abubakar' });
+
+      expect(ids(res)).toEqual([3, 6]);
+    });
+
+    it('searches phone numbers written in another format', async () => {
+      const res = await list({ search: '+234 803 123 4502' });
+
+      expect(ids(res)).toEqual([2, 12]);
+    });
+
+    it('searches partial phone numbers', async () => {
+      const res = await list({ search: '501234509' });
+
+      expect(ids(res)).toEqual([9]);
+    });
+
+    it('filters by province and state', async () => {
+      expect(ids(await list({ province: 'North West' }))).toEqual([2, 3, 4, 6, 8, 10, 12]);
+      expect(ids(await list({ province: 'North West', state: 'Kano' }))).toEqual([2, 6, 10, 12]);
+    });
+
+    it('filters by location label', async () => {
+      const res = await list({ location: 'Kano Zonal' });
+
+      expect(ids(res)).toEqual([2, 12]);
+    });
+
+    it('filters by category group and id', async () => {
+      expect(ids(await list({ category: 'medical' }))).toEqual([9, 10]);
+      expect(ids(await list({ category: 'medical:2' }))).toEqual([10]);
+      expect(ids(await list({ category: 'mk' }))).toEqual([3, 4]);
+    });
+
+    it('rejects an unknown category', async () => {
+      const res = await list({ category: 'canteen' });
+
+      expect(res.status).toBe(400);
+      expect(res.body.success).toBe(false);
+    });
+
+    it('combines filters', async () => {
+      const res = await list({ search: 'ibrahim', state: 'Kano', category: 'location:2' });
+
+      expect(ids(res)).toEqual([2, 12]);
+      expect(res.body.pagination.total).toBe(2);
+    });
+
+    it('returns an empty page when nothing matches', async () => {
+      const res = await list({ search: 'nobody by this name' });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data).toEqual([]);
+      expect(res.body.pagination).toMatchObject({ total: 0, hasMore: false, next: null, prev: null });
+    });
+  });
+
+  describe('pagination', () => {
+    it.each([
+      ['negative limit', { limit: -1 }, 'limit'],
+      ['zero limit', { limit: 0 }, 'limit'],
+      ['non-numeric limit', { limit: 'ten' }, 'limit'],
+      ['fractional limit', { limit: 2.5 }, 'limit'],
+      ['negative offset', { offset: -5 }, 'offset'],
+      ['non-numeric offset', { offset: 'abc' }, 'offset']
+    ])('rejects a %s', async (_case, query, field) => {
+      const res = await list(query);
+
+      expect(res.status).toBe(400);
+      expect(res.body.error).toBe('Validation failed');
+      expect(res.body.details).toEqual([expect.objectContaining({ field })]);
+    });
+
+    it('caps the limit', async () => {
+      const res = await list({ limit: 5000 });
+
+      expect(res.status).toBe(200);
+      expect(res.body.pagination.limit).toBe(200);
+      expect(res.body.data).toHaveLength(12);
+    });
+
+    it('returns the last partial page', async () => {
+      const res = await list({ limit: 5, offset: 10 });
+
+      expect(ids(res)).toEqual([11, 12]);
+      expect(res.body.pagination).toMatchObject({ total: 12, hasMore: false, next: null });
+      expect(res.body.pagination.prev).toEqual(expect.any(String));
+    });
+
+    it('returns no rows past the end', async () => {
+      const res = await list({ offset: 50 });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data).toEqual([]);
+      expect(res.body.pagination.hasMore).toBe(false);
+    });
+
+    it('walks pages forwards and back with cursors', async () => {
+      const first = await list({ sort: 'name', limit: 5 });
+      const second = await list({ sort: 'name', limit: 5, cursor: first.body.pagination.next });
+      const third = await list({ sort: 'name', limit: 5, cursor: second.body.pagination.next });
+      const back = await list({ sort: 'name', limit: 5, cursor: third.body.pagination.prev });
+
+      const all = [...ids(first), ...ids(second), ...ids(third)];
+      expect(all).toHaveLength(12);
+      expect(new Set(all).size).toBe(12);
+      expect(third.body.pagination.next).toBeNull();
+      expect(ids(back)).toEqual(ids(second));
+    });
+
+    it('orders by name with the record id as tiebreak', async () => {
+      const res = await list({ sort: 'name', search: 'ibrahim' });
+
+      // Same first name, sorted by last name
+      expect(ids(res)).toEqual([12, 2]);
+    });
+
+    it('orders by state id, not by the state name', async () => {
+      const first = await list({ sort: 'state', limit: 4 });
+      const second = await list({ sort: 'state', limit: 4, cursor: first.body.pagination.next });
+
+      expect(ids(first)).toEqual([1, 7, 5, 2]);
+      expect(ids(second)).toEqual([6, 10, 12, 3]);
+    });
+
+    it('rejects a malformed cursor', async () => {
+      const res = await list({ cursor: 'not-a-cursor' });
+
+      expect(res.status).toBe(400);
+      expect(res.body.error).toBe('Invalid cursor for this sort');
+    });
+
+    it('rejects a cursor from another sort', async () => {
+      const first = await list({ sort: 'name', limit: 2 });
+      const res = await list({ sort: 'state', cursor: first.body.pagination.next });
+
+      expect(res.status).toBe(400);
+      expect(res.body.error).toBe('Invalid cursor for this sort');
+    });
+
+    it('rejects a cursor together with an offset', async () => {
+      const first = await list({ limit: 2 });
+      const res = await list({ offset: 2, cursor: first.body.pagination.next });
+
+      expect(res.status).toBe(400);
+      expect(res.body.error).toBe('Use either cursor or offset, not both');
+    });
+  });
+
+  describe('ranked search', () => {
+    it('orders matches by score', async () => {
+      const res = await list({ search: 'ibrahim musa', searchMode: 'ranked' });
+
+      expect(res.status).toBe(200);
+      expect(ids(res).slice(0, 2).sort()).toEqual([12, 2].sort());
+      expect(res.body.data[0].score).toBeGreaterThanOrEqual(res.body.data[1].score);
+    });
+
+    it('does not take a cursor', async () => {
+      const first = await list({ limit: 2 });
+      const res = await list({ search: 'musa', searchMode: 'ranked', cursor: first.body.pagination.next });
+
+      expect(res.status).toBe(400);
+    });
+  });
+
+  it('returns a 500 when the repository fails', async () => {
+    jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    jest.spyOn(repos.contacts, 'list').mockRejectedValue(new Error('connection lost'));
+
+    const res = await list();
+
+    expect(res.status).toBe(500);
+    expect(res.body).toMatchObject({ success: false, error: 'Internal server error' });
+  });
+});
+
+describe('GET /api/contacts-alt', () => {
+  it('lists the same contacts as /api/contacts', async () => {
+    const query = { limit: 4, offset: 4, province: 'North West' };
+    const alt = await request(app).get('/api/contacts-alt').query(query).set(authHeader('viewer'));
+    const main = await request(app).get('/api/contacts').query(query).set(authHeader('viewer'));
+
+    expect(alt.status).toBe(200);
+    expect(alt.body.data).toEqual(main.body.data);
+    expect(alt.body.pagination.total).toBe(7);
+  });
+});
+
+describe('GET /api/contacts/:id', () => {
+  it('returns a contact', async () => {
+    const res = await request(app).get('/api/contacts/9').set(authHeader('viewer'));
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toMatchObject({ id: '9', name: 'Dr. Aisha Lawal', location: 'Medical Team Makkah', whatsapp: '2348031234509' });
+  });
+
+  it('returns a 404 for an unknown contact', async () => {
+    const res = await request(app).get('/api/contacts/999').set(authHeader('viewer'));
+
+    expect(res.status).toBe(404);
+    expect(res.body).toEqual({ success: false, error: 'Contact not found' });
+  });
+
+  it('rejects an id that is not a number', async () => {
+    const res = await request(app).get('/api/contacts/abc').set(authHeader('viewer'));
+
+    expect(res.status).toBe(400);
+    expect(res.body.error).toBe('Validation failed');
+  });
+
+  it('returns a deleted contact as not found', async () => {
+    await request(app).delete('/api/contacts/4').set(authHeader('editor'));
+    const res = await request(app).get('/api/contacts/4').set(authHeader('viewer'));
+
+    expect(res.status).toBe(404);
+  });
+});
+
+describe('GET /api/contacts/:id/vcard', () => {
+  it('returns a vCard', async () => {
+    const res = await request(app).get('/api/contacts/1/vcard').set(authHeader('viewer'));
+
+    expect(res.status).toBe(200);
+    expect(res.headers['content-type']).toMatch(/^text\/vcard/);
+    expect(res.text).toContain('BEGIN:VCARD');
+    expect(res.text).toContain('Amina');
+  });
+
+  it('returns a 404 for an unknown contact', async () => {
+    const res = await request(app).get('/api/contacts/999/vcard').set(authHeader('viewer'));
+
+    expect(res.status).toBe(404);
+  });
+});
+
+describe('GET /api/contacts/export', () => {
+  it('exports the filtered contacts as vCards', async () => {
+    const res = await request(app).get('/api/contacts/export').query({ state: 'Kano' }).set(authHeader('viewer'));
+
+    expect(res.status).toBe(200);
+    expect(res.headers['content-type']).toMatch(/^text\/vcard/);
+    expect(res.text.match(/BEGIN:VCARD/g)).toHaveLength(4);
+  });
+
+  it('exports the filtered contacts as CSV', async () => {
+    const res = await request(app)
+      .get('/api/contacts/export')
+      .query({ category: 'medical', format: 'csv' })
+      .set(authHeader('viewer'));
+
+    expect(res.status).toBe(200);
+    expect(res.headers['content-type']).toMatch(/^text\/csv/);
+    const lines = res.text.trim().split(/\r?\n/);
+    expect(lines).toHaveLength(3);
+    expect(lines[1]).toContain('Lawal');
+    expect(lines[2]).toContain('Garba');
+  });
+
+  it('writes the numbers under their own columns and neutralises formulas', async () => {
+    const fixture = readFixture();
+    Object.assign(fixture.contacts![8]!, {
+      l_name: '-Lawal', rank: '+SUM(A1)', phone: '', phone1: '+966501234509'
+    });
+    await loadFixture(fixture);
+
+    const res = await request(app)
+      .get('/api/contacts/export')
+      .query({ category: 'medical', format: 'csv' })
+      .set(authHeader('viewer'));
+
+    const [header, row] = res.text.replace('\uFEFF', '').split('\r\n');
+    const cells = Object.fromEntries(header!.split(',').map((column, index) => [column, row!.split(',')[index]]));
+    expect(cells).toMatchObject({ last_name: "'-Lawal", rank: "'+SUM(A1)", phone: '', phone1: '+966501234509', phone2: '' });
+  });
+});
+
+describe('contact writes', () => {
+  const newContact = {
+    name: 'Maryam Idris',
+    phone: '08031234599',
+    province: 'North Central',
+    state: 'FCT Abuja',
+    location: 'Lagos Zonal Office'
+  };
+
+  it('creates, updates, deletes and restores a contact', async () => {
+    const created = await request(app).post('/api/contacts').set(authHeader('editor')).send(newContact);
+    expect(created.status).toBe(201);
+    expect(created.body.data).toMatchObject({ name: 'Maryam Idris', location: 'Lagos Zonal Office', categoryType: 'location' });
+    const id = created.body.data.id;
+
+    const updated = await request(app).patch(`/api/contacts/${id}`).set(authHeader('editor')).send({ rank: 'Officer' });
+    expect(updated.status).toBe(200);
+    expect(updated.body.data).toMatchObject({ id, rank: 'Officer', name: 'Maryam Idris' });
+
+    const deleted = await request(app).delete(`/api/contacts/${id}`).set(authHeader('editor'));
+    expect(deleted.status).toBe(200);
+    expect((await request(app).get(`/api/contacts/${id}`).set(authHeader('viewer'))).status).toBe(404);
+
+    const restored = await request(app).post(`/api/contacts/${id}/restore`).set(authHeader('editor'));
+    expect(restored.status).toBe(200);
+    expect(restored.body.data.id).toBe(id);
+  });
+
+  it('rejects invalid fields', async () => {
+    const res = await request(app)
+      .post('/api/contacts')
+      .set(authHeader('editor'))
+      .send({ ...newContact, province: 'Atlantis', phone: 'call me' });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error).toBe('Validation failed');
+    expect(res.body.details).toEqual(expect.arrayContaining([
+      expect.objectContaining({ field: 'phone' }),
+      { field: 'province', message: "Unknown province 'Atlantis'" }
+    ]));
+  });
+
+  it('rejects an empty update', async () => {
+    const res = await request(app).patch('/api/contacts/1').set(authHeader('editor')).send({});
+
+    expect(res.status).toBe(400);
+    expect(res.body.details).toEqual([{ field: 'body', message: 'No fields to update' }]);
+  });
+
+  it('returns 404s for unknown contacts', async () => {
+    const editor = authHeader('editor');
+
+    expect((await request(app).patch('/api/contacts/999').set(editor).send({ rank: 'Officer' })).status).toBe(404);
+    expect((await request(app).delete('/api/contacts/999').set(editor)).status).toBe(404);
+    expect((await request(app).post('/api/contacts/999/restore').set(editor)).status).toBe(404);
+    // Only deleted contacts can be restored
+    expect((await request(app).post('/api/contacts/1/restore').set(editor)).status).toBe(404);
+  });
+
+  it('needs the editor role', async () => {
+    const res = await request(app).post('/api/contacts').set(authHeader('viewer')).send(newContact);
+
+    expect(res.status).toBe(403);
+    expect(res.body).toEqual({ success: false, error: 'This action requires the editor role' });
+  });
+});
+
+describe('lookup routes', () => {
+  it('lists locations from every category table', async () => {
+    const res = await request(app).get('/api/locations').set(authHeader('viewer'));
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toHaveLength(12);
+    expect(res.body.data).toEqual(expect.arrayContaining(['Headquarters Abuja', 'Mashair Transport', 'Service Providers Desk']));
+  });
+
+  it('lists provinces and states', async () => {
+    const provinces = await request(app).get('/api/provinces').set(authHeader('viewer'));
+    const states = await request(app).get('/api/states').set(authHeader('viewer'));
+
+    expect(provinces.body.data).toHaveLength(4);
+    expect(provinces.body.data[0]).toEqual({ province_id: 1, province: 'North Central' });
+    expect(states.body.data.map((state: { state_name: string }) => state.state_name)).toEqual(
+      ['Borno', 'FCT Abuja', 'Kaduna', 'Kano', 'Lagos', 'Sokoto']
+    );
+  });
+
+  it('reports the data behind the API to admins', async () => {
+    const res = await request(app).get('/api/test-data').set(authHeader('admin'));
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({
+      backend: 'memory',
+      phone_record_count: 12,
+      tables_info: { location: 3, provinces: 4, states: 6 }
+    });
+    expect(res.body.sample_data).toHaveLength(5);
+  });
+});
+
+describe('GET /api/health', () => {
+  it('reports a reachable database', async () => {
+    const res = await request(app).get('/api/health');
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ success: true, database: 'connected' });
+  });
+
+  it('reports a database that cannot be reached', async () => {
+    jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    jest.spyOn(repos, 'ping').mockRejectedValue(new Error('ECONNREFUSED'));
+
+    const res = await request(app).get('/api/health');
+
+    expect(res.status).toBe(500);
+    expect(res.body).toMatchObject({ success: false, database: 'disconnected', error: 'ECONNREFUSED' });
+  });
+});
+
+describe('error handling', () => {
+  it('answers a malformed JSON body with a 400', async () => {
+    const res = await request(app)
+      .post('/api/contacts')
+      .set(authHeader('editor'))
+      .set('Content-Type', 'application/json')
+      .send('{"name": ');
+
+    expect(res.status).toBe(400);
+    expect(res.body).toEqual({ success: false, error: 'Malformed JSON body' });
+  });
+
+  it('answers errors passed to next() with a 500 and logs them', async () => {
+    const write = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    jest.spyOn(repos.users, 'findApiKey').mockRejectedValue(new Error('users table is missing'));
+
+    const res = await request(app).get('/api/contacts').set('X-API-Key', 'nk_dev_mobile_app_key');
+
+    expect(res.status).toBe(500);
+    expect(res.body).toEqual({ success: false, error: 'Internal server error' });
+    const logged = write.mock.calls.map(([line]) => JSON.parse(String(line)));
+    expect(logged).toContainEqual(expect.objectContaining({
+      level: 'error',
+      msg: 'Unhandled error',
+      requestId: res.headers['x-request-id'],
+      error: expect.objectContaining({ message: 'users table is missing' })
+    }));
+  });
+
+  it('answers unknown routes with a 404', async () => {
+    const res = await request(app).get('/api/nothing-here');
+
+    expect(res.status).toBe(404);
+    expect(res.body).toEqual({ success: false, error: 'Route not found', path: '/api/nothing-here' });
+  });
+});
@@ -3,317 +3,442 @@
 // npm install -D @types/express @types/node @types/cors typescript ts-node nodemon
 
 import express, { Request, Response, NextFunction } from 'express';
-import mysql from 'mysql2/promise';
 import cors from 'cors';
+import compression from 'compression';
 import helmet from 'helmet';
-import dotenv from 'dotenv';
-
-dotenv.config();
+import { Server } from 'http';
+import { pipeline, Transform } from 'stream';
+import { authRouter, optionalAuth, requireRole } from './auth';
+import {
+  categoriesRouter,
+  Category,
+  CategoryGroup,
+  CategoryGroupInfo,
+  CATEGORY_GROUPS,
+  categoryResolver,
+  findCategoryGroup
+} from './categories';
+import {
+  createExportStream,
+  ExportContact,
+  ExportFormat,
+  toVCard,
+  VCardVersion
+} from './export';
+import { importRouter } from './import';
+import { isValidPhone } from './phone';
+import {
+  Contact,
+  ContactFilterParams,
+  decodeCursor,
+  encodeCursor,
+  findContactById,
+  parseContactFilters,
+  rowToContact
+} from './contacts';
+import { audienceFilters, audienceOf, canSee, projectContact } from './privacy';
+import {
+  CONTACT_SORTS,
+  ContactRecord,
+  ContactRow,
+  ContactSort,
+  connectWithRetry,
+  repositories
+} from './repositories';
+import { searchIndex, searchRouter } from './search';
+import { duplicatesRouter } from './duplicates';
+import { directoryRouter } from './directory';
+import { reportsRouter } from './reports';
+import { syncRouter } from './sync';
+import { auditContext, auditRouter } from './audit';
+import { assignRequestId } from './requestId';
+import { accessLog, logger } from './logger';
+import { metricsRouter, recordRequestMetrics } from './metrics';
+import { detectEnumeration, rateLimit, RateLimitBudget } from './rateLimit';
+import { validate } from './validation';
+import { directoryLastModified, httpCache } from './httpCache';
+import { referenceCache } from './referenceCache';
+import { openapiRouter } from './openapi';
+import { graphqlRouter } from './graphql';
+import { config } from './config';
 
 const app = express();
-const PORT = process.env.PORT || 3000;
+const PORT = config.port;
+const CATEGORY_REFRESH_INTERVAL_MS = config.categoryRefreshIntervalMs;
+const SEARCH_INDEX_REFRESH_INTERVAL_MS = config.searchIndexRefreshIntervalMs;
+const REFERENCE_CACHE_CHECK_INTERVAL_MS = config.referenceCacheCheckIntervalMs;
+// Largest page the contact list endpoints return
+const CONTACTS_MAX_LIMIT = config.contactsMaxLimit;
+// Ranked search only considers this many best matches
+const SEARCH_MAX_RESULTS = 1000;
+
+// Only browser origins listed in CORS_ORIGINS (comma separated) may call the API;
+// the mobile app doesn't send an Origin header so it is unaffected
+const corsOrigins = config.corsOrigins;
+
+// Behind a reverse proxy, TRUST_PROXY (hop count or proxy addresses) makes req.ip the
+// client's address instead of the proxy's, which rate limiting depends on
+if (config.trustProxy !== null) {
+  app.set('trust proxy', config.trustProxy);
+}
+
+// Set once SIGTERM or SIGINT is received; health checks then fail so load balancers
+// stop sending requests while the ones in flight finish
+let shuttingDown = false;
 
 // Middleware
+app.use(assignRequestId);
+app.use(accessLog);
+app.use(recordRequestMetrics);
 app.use(helmet());
-app.use(cors());
+app.use(cors({ origin: corsOrigins.length > 0 ? corsOrigins : false, exposedHeaders: ['X-Request-Id'] }));
+// gzip/deflate for clients that accept it; COMPRESSION_ENABLED=false when a proxy does it
+if (config.http.compression) {
+  app.use(compression());
+}
 app.use(express.json());
 
-// Add this function before your dbConfig object (around line 18)
-function parseDatabaseUrl(url: string) {
-  const urlObj = new URL(url);
-  return {
-    host: urlObj.hostname,
-    user: urlObj.username,
-    password: urlObj.password,
-    database: urlObj.pathname.slice(1), // Remove leading slash
-    port: parseInt(urlObj.port)
-  };
-}
+// Every API request counts against the default budget; the directory listing, search
+// and export routes have their own, smaller budgets on top
+app.use('/api', rateLimit('default'));
 
-// Replace your existing dbConfig object (around line 20-26) with this:
-const dbConfig = process.env.DATABASE_URL 
-  ? parseDatabaseUrl(process.env.DATABASE_URL)
-  : {
-      host: process.env.DB_HOST || 'localhost',
-      user: process.env.DB_USER || 'root',
-      password: process.env.DB_PASSWORD || '',
-      database: process.env.DB_NAME || 'nahcongov_contacts23',
-      port: parseInt(process.env.DB_PORT || '3306')
-    };
-
-// Add connection logging and testing
-console.log('Database configuration:', {
-  ...dbConfig,
-  password: '[HIDDEN]' // Don't log the actual password
-});
+// Login, users and API keys
+app.use(authRouter);
 
-// Create database connection pool
-const pool = mysql.createPool(dbConfig);
+// Category taxonomy
+app.use(categoriesRouter);
 
-// Test database connection function
-async function testDatabaseConnection() {
-  try {
-    console.log('Testing database connection...');
-    const connection = await pool.getConnection();
-    console.log('✅ Database connected successfully');
-    
-    // Test a simple query
-    const [rows] = await connection.execute('SELECT 1 as test');
-    console.log('✅ Database query test passed:', rows);
-    
-    connection.release();
-    return true;
-  } catch (error: any) {
-    console.error('❌ Database connection failed:', error.message);
-    console.error('Error code:', error.code);
-    return false;
-  }
-}
+// Bulk import of staff lists
+app.use(importRouter);
 
-// Interfaces matching your React Native structure
-function safeParseInt(value: string | undefined, defaultValue: number): number {
-  if (!value) return defaultValue;
-  const parsed = parseInt(value, 10);
-  return isNaN(parsed) ? defaultValue : parsed;
-}
+// Search index administration
+app.use(searchRouter);
+
+// Delta sync for the mobile app
+app.use(syncRouter);
+
+// Duplicate detection and merging
+app.use(duplicatesRouter);
+
+// Audit trail
+app.use(auditRouter);
+
+// Directory tree and drill-down browsing
+app.use(directoryRouter);
+
+// Statistics and data quality reports
+app.use(reportsRouter);
+
+// OpenAPI document and docs page
+app.use(openapiRouter);
+
+// Prometheus metrics
+app.use(metricsRouter);
+
+// GraphQL over contacts, provinces, states and categories
+app.use(graphqlRouter);
 
 // You'll also need this interface if not already defined
-interface ContactQueryParams {
-  search?: string;
-  location?: string;
-  province?: string;
-  state?: string;
-  category?: string;
+interface ContactQueryParams extends ContactFilterParams {
+  searchMode?: string;
+  sort?: string;
+  cursor?: string;
   limit?: string;
   offset?: string;
 }
 
-interface Contact {
-  id: string;
-  name: string;
-  location: string;
-  phone: string;
-  whatsapp: string;
-  rank: string;
-  province: string;
-  state: string;
-  category: string;
+// Request body accepted by the contact write endpoints (same shape as Contact)
+interface ContactInput {
+  name?: string;
+  phone?: string;
+  phone1?: string;
+  phone2?: string;
+  rank?: string;
+  province?: string;
+  state?: string;
+  location?: string;
+  categoryType?: string;
+  categoryId?: number;
+  hideFromPublic?: boolean;
+  helpDesk?: boolean;
 }
 
-// Helper function to get location name from various category tables
-async function getLocationName(
-  locationId: number,
-  mkCatId: number,
-  mdCatId: number,
-  muasCatId: number,
-  nrtCatId: number,
-  fieldCatId: number,
-  medicalCatId: number,
-  serviceCatId: number
-): Promise<string> {
-  try {
-    // Check location table first
-    if (locationId > 0) {
-      const [locationRows] = await pool.execute(
-        'SELECT location FROM location WHERE location_id = ?',
-        [locationId]
-      );
-      if (Array.isArray(locationRows) && locationRows.length > 0) {
-        return (locationRows[0] as any).location;
-      }
-    }
+interface ValidationError {
+  field: string;
+  message: string;
+}
 
-    // Check specific category tables based on non-zero IDs
-    if (mkCatId > 0) {
-      const [rows] = await pool.execute(
-        'SELECT mk_category FROM mk_cat_info WHERE mk_cat_id = ?',
-        [mkCatId]
-      );
-      if (Array.isArray(rows) && rows.length > 0) {
-        return (rows[0] as any).mk_category;
-      }
+// Transform a phone_record row into the export shape, which keeps every phone number
+function rowToExportContact(row: ContactRow): ExportContact {
+  const contact = rowToContact(row);
+
+  return {
+    id: contact.id,
+    firstName: row.f_name || '',
+    lastName: row.l_name || '',
+    name: contact.name,
+    rank: contact.rank,
+    phones: contact.phones.map(phone => phone.raw),
+    phone: row.phone || '',
+    phone1: row.phone1 || '',
+    phone2: row.phone2 || '',
+    whatsapp: contact.whatsapp,
+    location: contact.categoryType ? contact.location : '',
+    categoryType: contact.categoryType || '',
+    province: contact.province,
+    state: contact.state
+  };
+}
+
+// Check a contact write body against the lookup tables and map it onto phone_record
+// columns; its shape has already been checked by validate().
+// With partial = true (PATCH) only the supplied fields are validated and returned.
+async function buildContactRecord(
+  body: any,
+  partial: boolean
+): Promise<{ errors: ValidationError[]; record: ContactRecord }> {
+  const errors: ValidationError[] = [];
+  const record: ContactRecord = {};
+
+  const input = body as ContactInput;
+
+  // Name is stored split into first name and the rest
+  if (input.name !== undefined) {
+    if (typeof input.name !== 'string' || !input.name.trim()) {
+      errors.push({ field: 'name', message: 'name must be a non-empty string' });
+    } else if (input.name.trim().length > 100) {
+      errors.push({ field: 'name', message: 'name must be at most 100 characters' });
+    } else {
+      const parts = input.name.trim().split(/\s+/);
+      record.f_name = parts[0];
+      record.l_name = parts.slice(1).join(' ');
+    }
+  } else if (!partial) {
+    errors.push({ field: 'name', message: 'name is required' });
+  }
+
+  // Phone numbers: empty string clears a number
+  for (const field of ['phone', 'phone1', 'phone2'] as const) {
+    const value = input[field];
+    if (value === undefined) continue;
+    if (typeof value !== 'string') {
+      errors.push({ field, message: `${field} must be a string` });
+    } else if (value.trim() && !isValidPhone(value.trim())) {
+      errors.push({ field, message: `${field} is not a valid phone number` });
+    } else {
+      record[field] = value.trim();
     }
+  }
 
-    if (mdCatId > 0) {
-      const [rows] = await pool.execute(
-        'SELECT md_category FROM md_cat_info WHERE md_cat_id = ?',
-        [mdCatId]
-      );
-      if (Array.isArray(rows) && rows.length > 0) {
-        return (rows[0] as any).md_category;
-      }
+  if (!partial && !record.phone && !record.phone1 && !record.phone2) {
+    errors.push({ field: 'phone', message: 'At least one of phone, phone1 or phone2 is required' });
+  }
+
+  if (input.rank !== undefined) {
+    if (typeof input.rank !== 'string') {
+      errors.push({ field: 'rank', message: 'rank must be a string' });
+    } else if (input.rank.trim().length > 100) {
+      errors.push({ field: 'rank', message: 'rank must be at most 100 characters' });
+    } else {
+      record.rank = input.rank.trim();
     }
+  }
 
-    if (muasCatId > 0) {
-      const [rows] = await pool.execute(
-        'SELECT muas_category FROM muas_cat_info WHERE muas_cat_id = ?',
-        [muasCatId]
-      );
-      if (Array.isArray(rows) && rows.length > 0) {
-        return (rows[0] as any).muas_category;
+  // Province and state are given by name and stored by id
+  if (input.province !== undefined) {
+    if (typeof input.province !== 'string' || !input.province.trim()) {
+      errors.push({ field: 'province', message: 'province must be a non-empty string' });
+    } else {
+      const provinceId = await repositories().lookups.findProvinceId(input.province.trim());
+      if (provinceId !== null) {
+        record.province_id = provinceId;
+      } else {
+        errors.push({ field: 'province', message: `Unknown province '${input.province.trim()}'` });
       }
     }
+  }
 
-    if (nrtCatId > 0) {
-      const [rows] = await pool.execute(
-        'SELECT nrt_category FROM nrt_cat_info WHERE nrt_cat_id = ?',
-        [nrtCatId]
-      );
-      if (Array.isArray(rows) && rows.length > 0) {
-        return (rows[0] as any).nrt_category;
+  if (input.state !== undefined) {
+    if (typeof input.state !== 'string' || !input.state.trim()) {
+      errors.push({ field: 'state', message: 'state must be a non-empty string' });
+    } else {
+      const stateId = await repositories().lookups.findStateId(input.state.trim());
+      if (stateId !== null) {
+        record.state_id = stateId;
+      } else {
+        errors.push({ field: 'state', message: `Unknown state '${input.state.trim()}'` });
       }
     }
+  }
 
-    if (fieldCatId > 0) {
-      const [rows] = await pool.execute(
-        'SELECT field_category FROM field_cat_info WHERE field_cat_id = ?',
-        [fieldCatId]
-      );
-      if (Array.isArray(rows) && rows.length > 0) {
-        return (rows[0] as any).field_category;
-      }
+  // Location picks the *_cat_id column to set: either by label (optionally narrowed to one
+  // categoryType) or by categoryType + categoryId. Exactly one of the category columns is
+  // populated, the rest are reset to 0.
+  let group: CategoryGroupInfo | undefined;
+  if (input.categoryType !== undefined) {
+    group = typeof input.categoryType === 'string' ? findCategoryGroup(input.categoryType) : undefined;
+    if (!group) {
+      errors.push({
+        field: 'categoryType',
+        message: `categoryType must be one of ${CATEGORY_GROUPS.map(info => info.group).join(', ')}`
+      });
     }
+  }
 
-    if (medicalCatId > 0) {
-      const [rows] = await pool.execute(
-        'SELECT medical_category FROM medical_cat_info WHERE medical_cat_id = ?',
-        [medicalCatId]
-      );
-      if (Array.isArray(rows) && rows.length > 0) {
-        return (rows[0] as any).medical_category;
+  let category: Category | null = null;
+  let categoryGiven = false;
+  if (input.categoryId !== undefined) {
+    categoryGiven = true;
+    if (!Number.isInteger(input.categoryId) || input.categoryId <= 0) {
+      errors.push({ field: 'categoryId', message: 'categoryId must be a positive integer' });
+    } else if (input.categoryType === undefined) {
+      errors.push({ field: 'categoryType', message: 'categoryType is required with categoryId' });
+    } else if (group) {
+      category = await repositories().lookups.findCategoryById(group, input.categoryId);
+      if (!category) {
+        errors.push({ field: 'categoryId', message: `Unknown ${group.group} category ${input.categoryId}` });
+      } else if (input.location !== undefined && input.location !== category.label) {
+        errors.push({ field: 'location', message: `location does not match ${group.group} category ${input.categoryId}` });
       }
     }
-
-    if (serviceCatId > 0) {
-      const [rows] = await pool.execute(
-        'SELECT service_category FROM service_cat_info WHERE service_cat_id = ?',
-        [serviceCatId]
-      );
-      if (Array.isArray(rows) && rows.length > 0) {
-        return (rows[0] as any).service_category;
+  } else if (input.location !== undefined) {
+    categoryGiven = true;
+    if (typeof input.location !== 'string' || !input.location.trim()) {
+      errors.push({ field: 'location', message: 'location must be a non-empty string' });
+    } else if (input.categoryType === undefined || group) {
+      category = await repositories().lookups.findCategoryByLabel(input.location.trim(), group ? [group] : CATEGORY_GROUPS);
+      if (!category) {
+        errors.push({ field: 'location', message: `Unknown location '${input.location.trim()}'` });
       }
     }
-
-    return 'Unknown';
-  } catch (error) {
-    console.error('Error getting location name:', error);
-    return 'Unknown';
+  } else if (input.categoryType !== undefined) {
+    errors.push({ field: 'categoryType', message: 'categoryType needs a location or categoryId' });
   }
-}
 
-// Format phone number to include WhatsApp format
-function formatWhatsAppNumber(phone: string): string {
-  if (!phone) return '';
-  
-  // Remove any non-digit characters
-  const cleaned = phone.replace(/\D/g, '');
-  
-  // If it starts with 0, replace with 234 (Nigeria country code)
-  if (cleaned.startsWith('0')) {
-    return '234' + cleaned.substring(1);
+  // Visibility flags, see privacy.ts
+  if (input.hideFromPublic !== undefined) record.hide_from_public = input.hideFromPublic ? 1 : 0;
+  if (input.helpDesk !== undefined) record.help_desk = input.helpDesk ? 1 : 0;
+
+  if (category || (!partial && !categoryGiven)) {
+    for (const { idColumn } of CATEGORY_GROUPS) {
+      record[idColumn] = 0;
+    }
   }
-  
-  // If it doesn't start with 234, add it
-  if (!cleaned.startsWith('234')) {
-    return '234' + cleaned;
+  if (category) {
+    record[findCategoryGroup(category.group)!.idColumn] = category.id;
   }
-  
-  return cleaned;
+
+  return { errors, record };
+}
+
+// List requests with a search term count against the search budget
+function contactListBudget(req: Request): RateLimitBudget {
+  return typeof req.query.search === 'string' && req.query.search.trim() ? 'search' : 'list';
 }
 
-// Main API endpoint to get all contacts - FIXED VERSION
-app.get('/api/contacts', async (req: Request, res: Response): Promise<void> => {
+// List contacts, for /api/contacts and the older /api/contacts-alt. The alt route takes
+// no sort, cursor or searchMode, so it lists by id with offset pagination.
+async function listContacts(req: Request, res: Response): Promise<void> {
   try {
     const { search, location, province, state, category } = req.query as ContactQueryParams;
     
-    // Safely parse limit and offset with proper integer conversion
-    const limitParam = req.query.limit as string;
-    const offsetParam = req.query.offset as string;
+    // Types, enums and defaults are checked by validate()
+    const limit = Math.min(CONTACTS_MAX_LIMIT, Number(req.query.limit));
+    const offset = Number(req.query.offset);
+    const sort = (req.query.sort || 'id') as ContactSort;
     
-    const limit = limitParam ? Math.max(1, Math.min(1000, parseInt(limitParam, 10))) : 50;
-    const offset = offsetParam ? Math.max(0, parseInt(offsetParam, 10)) : 0;
-    
-    // Ensure they are valid numbers
-    if (isNaN(limit) || isNaN(offset)) {
+    // A cursor replaces the offset; it must come from a page with the same sort
+    const cursorParam = req.query.cursor as string | undefined;
+    const cursor = cursorParam ? decodeCursor(cursorParam) : null;
+    if (cursorParam && (!cursor || cursor.sort !== sort || cursor.keys.length !== CONTACT_SORTS[sort].keys)) {
       res.status(400).json({ 
         success: false, 
-        error: 'Invalid limit or offset parameters' 
+        error: 'Invalid cursor for this sort' 
       });
       return;
     }
-    
-    console.log('Query params:', { search, location, province, state, category, limit, offset });
-    
-    let query = `
-      SELECT 
-        pr.record_id,
-        pr.rank,
-        pr.f_name,
-        pr.l_name,
-        pr.phone,
-        pr.phone1,
-        pr.phone2,
-        pr.location_id,
-        pr.mk_cat_id,
-        pr.md_cat_id,
-        pr.muas_cat_id,
-        pr.nrt_cat_id,
-        pr.field_cat_id,
-        pr.medical_cat_id,
-        pr.service_cat_id,
-        pr.province_id,
-        pr.state_id,
-        p.province,
-        s.state_name
-      FROM phone_record pr
-      LEFT JOIN province_info p ON pr.province_id = p.province_id
-      LEFT JOIN state_info s ON pr.state_id = s.state_id
-      WHERE 1=1
-    `;
-    
-    const queryParams: any[] = [];
-    
-    // Add search filter
-    if (search && search.trim()) {
-      query += ` AND (pr.f_name LIKE ? OR pr.l_name LIKE ? OR pr.phone LIKE ? OR pr.phone1 LIKE ? OR pr.phone2 LIKE ?)`;
-      const searchTerm = `%${search.trim()}%`;
-      queryParams.push(searchTerm, searchTerm, searchTerm, searchTerm, searchTerm);
-    }
-    
-    // Add province filter
-    if (province && province.trim()) {
-      query += ` AND p.province LIKE ?`;
-      queryParams.push(`%${province.trim()}%`);
-    }
-    
-    // Add state filter
-    if (state && state.trim()) {
-      query += ` AND s.state_name LIKE ?`;
-      queryParams.push(`%${state.trim()}%`);
+    if (cursor && offset > 0) {
+      res.status(400).json({ 
+        success: false, 
+        error: 'Use either cursor or offset, not both' 
+      });
+      return;
     }
     
-    // Add location filter based on category
-    if (location && location.trim()) {
-      query += ` AND pr.location_id = (SELECT location_id FROM location WHERE location LIKE ? LIMIT 1)`;
-      queryParams.push(`%${location.trim()}%`);
+    const parsed = parseContactFilters(req.query as ContactQueryParams);
+    if (typeof parsed === 'string') {
+      res.status(400).json({ 
+        success: false, 
+        error: parsed 
+      });
+      return;
     }
     
-    // First, let's try without LIMIT/OFFSET in prepared statement
-    // We'll use string interpolation for LIMIT/OFFSET as they must be integers
-    const finalQuery = query + ` LIMIT ${limit} OFFSET ${offset}`;
+    // Only the contacts the caller may see, with only the fields they may see
+    const audience = audienceOf(req.auth);
+    const filters = { ...parsed, ...audienceFilters(audience) };
+    const toContact = (row: ContactRow): Contact => projectContact(rowToContact(row), audience);
     
-    console.log('Final query:', finalQuery);
-    console.log('Query params:', queryParams);
-    console.log('Param types:', queryParams.map(p => typeof p));
+    const searchMode = req.query.searchMode as string | undefined;
     
-    const [rows] = await pool.execute(finalQuery, queryParams);
+    req.log.debug('Listing contacts', { search, location, province, state, category, searchMode, sort, limit, offset });
     
-    if (!Array.isArray(rows)) {
-      res.status(500).json({ error: 'Invalid database response' });
+    // Ranked search: the index picks and orders the matches, the repository applies the
+    // remaining filters
+    if (searchMode === 'ranked' && search && search.trim()) {
+      if (cursor) {
+        res.status(400).json({ 
+          success: false, 
+          error: 'cursor is not supported with searchMode=ranked, use offset' 
+        });
+        return;
+      }
+      
+      const { search: _search, ...otherFilters } = filters;
+      const results = searchIndex.search(search, SEARCH_MAX_RESULTS, !filters.skipPhoneSearch);
+      const scores = new Map(results.map(result => [result.id, result.score]));
+      
+      const matched = results.length > 0
+        ? await repositories().contacts.findAll({ ...otherFilters, ids: results.map(result => result.id) })
+        : [];
+      
+      matched.sort((a, b) => scores.get(b.record_id)! - scores.get(a.record_id)! || a.record_id - b.record_id);
+      const page = matched
+        .slice(offset, offset + limit)
+        .map(row => ({ ...toContact(row), score: scores.get(row.record_id)! }));
+      
+      res.json({
+        success: true,
+        data: page,
+        pagination: {
+          total: matched.length,
+          limit,
+          offset,
+          hasMore: offset + page.length < matched.length
+        }
+      });
       return;
     }
     
-    console.log(`Found ${rows.length} rows`);
+    const result = await repositories().contacts.list({
+      filters,
+      sort,
+      after: cursor ? { keys: cursor.keys, id: cursor.id, backwards: cursor.direction === 'prev' } : null,
+      limit,
+      offset
+    });
+    const { rows, sortKeys } = result;
+    
+    req.log.debug('Contacts found', { rows: rows.length });
+    
+    // next/prev cursors continue from the last/first row of this page
+    const backwards = cursor !== null && cursor.direction === 'prev';
+    const hasNext = backwards ? rows.length > 0 : result.more;
+    const hasPrev = backwards ? result.more : rows.length > 0 && (cursor !== null || offset > 0);
+    const cursorAt = (index: number, direction: 'next' | 'prev'): string =>
+      encodeCursor({ sort, keys: sortKeys[index]!, id: rows[index]!.record_id, direction });
+    const next = hasNext && rows.length > 0 ? cursorAt(rows.length - 1, 'next') : null;
+    const prev = hasPrev && rows.length > 0 ? cursorAt(0, 'prev') : null;
     
     // If no data found, return empty array
     if (rows.length === 0) {
@@ -324,77 +449,20 @@ app.get('/api/contacts', async (req: Request, res: Response): Promise<void> => {
           total: 0,
           limit,
           offset,
-          hasMore: false
+          sort,
+          hasMore: false,
+          next: null,
+          prev: null
         }
       });
       return;
     }
     
     // Transform data to match React Native interface
-    const contacts: Contact[] = await Promise.all(
-      rows.map(async (row: any) => {
-        const locationName = await getLocationName(
-          row.location_id || 0,
-          row.mk_cat_id || 0,
-          row.md_cat_id || 0,
-          row.muas_cat_id || 0,
-          row.nrt_cat_id || 0,
-          row.field_cat_id || 0,
-          row.medical_cat_id || 0,
-          row.service_cat_id || 0
-        );
-        
-        const fullName = `${row.f_name || ''} ${row.l_name || ''}`.trim();
-        const primaryPhone = row.phone || row.phone1 || row.phone2 || '';
-        
-        return {
-          id: row.record_id.toString(),
-          name: fullName || 'Unknown',
-          location: locationName,
-          phone: primaryPhone,
-          whatsapp: formatWhatsAppNumber(primaryPhone),
-          rank: row.rank || '',
-          province: row.province || '',
-          state: row.state_name || '',
-          category: locationName
-        };
-      })
-    );
+    const contacts: Contact[] = rows.map(toContact);
     
     // Get total count for pagination
-    let countQuery = `
-      SELECT COUNT(*) as total
-      FROM phone_record pr
-      LEFT JOIN province_info p ON pr.province_id = p.province_id
-      LEFT JOIN state_info s ON pr.state_id = s.state_id
-      WHERE 1=1
-    `;
-    
-    const countParams: any[] = [];
-    
-    if (search && search.trim()) {
-      countQuery += ` AND (pr.f_name LIKE ? OR pr.l_name LIKE ? OR pr.phone LIKE ? OR pr.phone1 LIKE ? OR pr.phone2 LIKE ?)`;
-      const searchTerm = `%${search.trim()}%`;
-      countParams.push(searchTerm, searchTerm, searchTerm, searchTerm, searchTerm);
-    }
-    
-    if (province && province.trim()) {
-      countQuery += ` AND p.province LIKE ?`;
-      countParams.push(`%${province.trim()}%`);
-    }
-    
-    if (state && state.trim()) {
-      countQuery += ` AND s.state_name LIKE ?`;
-      countParams.push(`%${state.trim()}%`);
-    }
-    
-    if (location && location.trim()) {
-      countQuery += ` AND pr.location_id = (SELECT location_id FROM location WHERE location LIKE ? LIMIT 1)`;
-      countParams.push(`%${location.trim()}%`);
-    }
-    
-    const [countRows] = await pool.execute(countQuery, countParams);
-    const total = Array.isArray(countRows) ? (countRows[0] as any).total : 0;
+    const total = await repositories().contacts.count(filters);
     
     res.json({
       success: true,
@@ -403,268 +471,279 @@ app.get('/api/contacts', async (req: Request, res: Response): Promise<void> => {
         total,
         limit,
         offset,
-        hasMore: offset + contacts.length < total
+        sort,
+        hasMore: next !== null,
+        next,
+        prev
       }
     });
     
   } catch (error) {
-    console.error('Error fetching contacts:', error);
+    req.log.error('Error fetching contacts', { error });
     res.status(500).json({ 
       success: false, 
       error: 'Internal server error',
-      message: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+      message: config.nodeEnv === 'development' ? (error as Error).message : undefined
+    });
+  }
+}
+
+// Main API endpoint to get all contacts. Open to anonymous callers; what they and
+// pilgrims get is limited by privacy.ts.
+app.get('/api/contacts', optionalAuth(), rateLimit(contactListBudget), validate('GET /api/contacts'), httpCache('contacts', directoryLastModified), listContacts);
+
+// Older list endpoint, ordered by id; kept for app versions that still call it
+app.get('/api/contacts-alt', optionalAuth(), rateLimit(contactListBudget), validate('GET /api/contacts-alt'), httpCache('contacts', directoryLastModified), listContacts);
+
+// Export the filtered contact list as a vCard or CSV file.
+// Rows are streamed from the repository so large exports don't have to fit in memory.
+app.get('/api/contacts/export', requireRole('viewer'), rateLimit('export'), validate('GET /api/contacts/export'), httpCache('contacts', directoryLastModified), (req: Request, res: Response): void => {
+  const format = req.query.format as ExportFormat;
+  const version = req.query.version as VCardVersion;
+  
+  const filters = parseContactFilters(req.query as ContactQueryParams);
+  if (typeof filters === 'string') {
+    res.status(400).json({ 
+      success: false, 
+      error: filters 
     });
+    return;
   }
+  
+  const filename = `contacts-${new Date().toISOString().slice(0, 10)}.${format}`;
+  
+  res.setHeader('Content-Type', format === 'csv' ? 'text/csv; charset=utf-8' : 'text/vcard; charset=utf-8');
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+  
+  const rows = repositories().contacts.stream(filters);
+  const toContact = new Transform({
+    objectMode: true,
+    transform(row: any, _encoding, callback) {
+      callback(null, rowToExportContact(row));
+    }
+  });
+  
+  const output = pipeline(rows, toContact, createExportStream(format, version), (error) => {
+    if (!error) return;
+    req.log.error('Error exporting contacts', { error });
+    if (!res.headersSent) {
+      res.removeHeader('Content-Disposition');
+      res.status(500).json({ 
+        success: false, 
+        error: 'Internal server error' 
+      });
+    } else {
+      res.destroy(error);
+    }
+  });
+  output.pipe(res);
+  
+  // Stop reading rows when the client goes away mid-download
+  res.on('close', () => {
+    if (!res.writableFinished) {
+      output.destroy();
+    }
+  });
 });
 
-// Alternative implementation using query method instead of execute for LIMIT/OFFSET
-app.get('/api/contacts-alt', async (req: Request, res: Response): Promise<void> => {
+// Download a single contact as a vCard; pilgrims only get the help desk contacts
+app.get('/api/contacts/:id/vcard', requireRole('pilgrim'), validate('GET /api/contacts/:id/vcard'), detectEnumeration, httpCache('contacts', directoryLastModified), async (req: Request, res: Response): Promise<void> => {
   try {
-    const { search, location, province, state, category } = req.query as ContactQueryParams;
-    
-    const limitParam = req.query.limit as string;
-    const offsetParam = req.query.offset as string;
+    const contactId = Number(req.params.id);
+    const version = req.query.version as VCardVersion;
     
-    const limit = limitParam ? Math.max(1, Math.min(1000, parseInt(limitParam, 10))) : 50;
-    const offset = offsetParam ? Math.max(0, parseInt(offsetParam, 10)) : 0;
-    
-    if (isNaN(limit) || isNaN(offset)) {
-      res.status(400).json({ 
+    // A merged contact's old id gives the record it was merged into
+    const contacts = repositories().contacts;
+    let row = await contacts.findById(contactId);
+    if (!row) {
+      const survivorId = await contacts.findMergedId(contactId);
+      row = survivorId !== null ? await contacts.findById(survivorId) : null;
+    }
+    if (!row || !canSee(rowToContact(row), audienceOf(req.auth))) {
+      res.status(404).json({ 
         success: false, 
-        error: 'Invalid limit or offset parameters' 
+        error: 'Contact not found' 
       });
       return;
     }
     
-    let query = `
-      SELECT 
-        pr.record_id,
-        pr.rank,
-        pr.f_name,
-        pr.l_name,
-        pr.phone,
-        pr.phone1,
-        pr.phone2,
-        pr.location_id,
-        pr.mk_cat_id,
-        pr.md_cat_id,
-        pr.muas_cat_id,
-        pr.nrt_cat_id,
-        pr.field_cat_id,
-        pr.medical_cat_id,
-        pr.service_cat_id,
-        pr.province_id,
-        pr.state_id,
-        p.province,
-        s.state_name
-      FROM phone_record pr
-      LEFT JOIN province_info p ON pr.province_id = p.province_id
-      LEFT JOIN state_info s ON pr.state_id = s.state_id
-      WHERE 1=1
-    `;
-    
-    const queryParams: any[] = [];
-    
-    // Add filters
-    if (search && search.trim()) {
-      query += ` AND (pr.f_name LIKE ? OR pr.l_name LIKE ? OR pr.phone LIKE ? OR pr.phone1 LIKE ? OR pr.phone2 LIKE ?)`;
-      const searchTerm = `%${search.trim()}%`;
-      queryParams.push(searchTerm, searchTerm, searchTerm, searchTerm, searchTerm);
-    }
-    
-    if (province && province.trim()) {
-      query += ` AND p.province LIKE ?`;
-      queryParams.push(`%${province.trim()}%`);
-    }
+    res.setHeader('Content-Type', 'text/vcard; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="contact-${contactId}.vcf"`);
+    res.send(toVCard(rowToExportContact(row), version));
     
-    if (state && state.trim()) {
-      query += ` AND s.state_name LIKE ?`;
-      queryParams.push(`%${state.trim()}%`);
-    }
+  } catch (error) {
+    req.log.error('Error exporting contact', { error });
+    res.status(500).json({ 
+      success: false, 
+      error: 'Internal server error' 
+    });
+  }
+});
+
+// Get contact by ID, with the fields the caller may see. Contacts the caller may not see
+// at all are not found.
+app.get('/api/contacts/:id', optionalAuth(), validate('GET /api/contacts/:id'), detectEnumeration, httpCache('contacts', directoryLastModified), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const contactId = Number(req.params.id);
     
-    if (location && location.trim()) {
-      query += ` AND pr.location_id = (SELECT location_id FROM location WHERE location LIKE ? LIMIT 1)`;
-      queryParams.push(`%${location.trim()}%`);
+    // A merged contact's old id gives the record it was merged into
+    let contact = await findContactById(contactId);
+    let mergedInto: number | null = null;
+    if (!contact) {
+      mergedInto = await repositories().contacts.findMergedId(contactId);
+      contact = mergedInto !== null ? await findContactById(mergedInto) : null;
     }
     
-    // Use pool.query instead of pool.execute for LIMIT/OFFSET
-    query += ` LIMIT ${limit} OFFSET ${offset}`;
-    
-    console.log('Final query:', query);
-    console.log('Query params:', queryParams);
-    
-    const [rows] = await pool.query(query, queryParams);
-    
-    if (!Array.isArray(rows)) {
-      res.status(500).json({ error: 'Invalid database response' });
+    const audience = audienceOf(req.auth);
+    if (!contact || !canSee(contact, audience)) {
+      res.status(404).json({ 
+        success: false, 
+        error: 'Contact not found' 
+      });
       return;
     }
     
-    console.log(`Found ${rows.length} rows`);
+    res.json({
+      success: true,
+      data: projectContact(contact, audience),
+      ...(mergedInto !== null ? { mergedFrom: String(contactId) } : {})
+    });
     
-    if (rows.length === 0) {
-      res.json({
-        success: true,
-        data: [],
-        pagination: {
-          total: 0,
-          limit,
-          offset,
-          hasMore: false
-        }
+  } catch (error) {
+    req.log.error('Error fetching contact', { error });
+    res.status(500).json({ 
+      success: false, 
+      error: 'Internal server error' 
+    });
+  }
+});
+
+// Create a contact
+app.post('/api/contacts', requireRole('editor'), validate('POST /api/contacts'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { errors, record } = await buildContactRecord(req.body, false);
+    if (errors.length > 0) {
+      res.status(400).json({ 
+        success: false, 
+        error: 'Validation failed',
+        details: errors
       });
       return;
     }
     
-    // Transform data
-    const contacts: Contact[] = await Promise.all(
-      rows.map(async (row: any) => {
-        const locationName = await getLocationName(
-          row.location_id || 0,
-          row.mk_cat_id || 0,
-          row.md_cat_id || 0,
-          row.muas_cat_id || 0,
-          row.nrt_cat_id || 0,
-          row.field_cat_id || 0,
-          row.medical_cat_id || 0,
-          row.service_cat_id || 0
-        );
-        
-        const fullName = `${row.f_name || ''} ${row.l_name || ''}`.trim();
-        const primaryPhone = row.phone || row.phone1 || row.phone2 || '';
-        
-        return {
-          id: row.record_id.toString(),
-          name: fullName || 'Unknown',
-          location: locationName,
-          phone: primaryPhone,
-          whatsapp: formatWhatsAppNumber(primaryPhone),
-          rank: row.rank || '',
-          province: row.province || '',
-          state: row.state_name || '',
-          category: locationName
-        };
-      })
-    );
-    
-    // Get total count
-    let countQuery = `
-      SELECT COUNT(*) as total
-      FROM phone_record pr
-      LEFT JOIN province_info p ON pr.province_id = p.province_id
-      LEFT JOIN state_info s ON pr.state_id = s.state_id
-      WHERE 1=1
-    `;
-    
-    const countParams: any[] = [];
-    
-    if (search && search.trim()) {
-      countQuery += ` AND (pr.f_name LIKE ? OR pr.l_name LIKE ? OR pr.phone LIKE ? OR pr.phone1 LIKE ? OR pr.phone2 LIKE ?)`;
-      const searchTerm = `%${search.trim()}%`;
-      countParams.push(searchTerm, searchTerm, searchTerm, searchTerm, searchTerm);
-    }
+    const id = await repositories().contacts.create(record, auditContext(req));
     
-    if (province && province.trim()) {
-      countQuery += ` AND p.province LIKE ?`;
-      countParams.push(`%${province.trim()}%`);
-    }
+    searchIndex.markStale();
+    const contact = await findContactById(id);
+    
+    res.status(201).json({
+      success: true,
+      data: contact
+    });
+    
+  } catch (error) {
+    req.log.error('Error creating contact', { error });
+    res.status(500).json({ 
+      success: false, 
+      error: 'Internal server error' 
+    });
+  }
+});
+
+// Update selected fields of a contact
+app.patch('/api/contacts/:id', requireRole('editor'), validate('PATCH /api/contacts/:id'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const contactId = Number(req.params.id);
     
-    if (state && state.trim()) {
-      countQuery += ` AND s.state_name LIKE ?`;
-      countParams.push(`%${state.trim()}%`);
+    const { errors, record } = await buildContactRecord(req.body, true);
+    if (errors.length === 0 && Object.keys(record).length === 0) {
+      errors.push({ field: 'body', message: 'No fields to update' });
     }
+    if (errors.length > 0) {
+      res.status(400).json({ 
+        success: false, 
+        error: 'Validation failed',
+        details: errors
+      });
+      return;
+    }
+    
+    const updated = await repositories().contacts.update(contactId, record, auditContext(req));
     
-    if (location && location.trim()) {
-      countQuery += ` AND pr.location_id = (SELECT location_id FROM location WHERE location LIKE ? LIMIT 1)`;
-      countParams.push(`%${location.trim()}%`);
+    if (!updated) {
+      res.status(404).json({ 
+        success: false, 
+        error: 'Contact not found' 
+      });
+      return;
     }
     
-    const [countRows] = await pool.query(countQuery, countParams);
-    const total = Array.isArray(countRows) ? (countRows[0] as any).total : 0;
+    searchIndex.markStale();
+    const contact = await findContactById(contactId);
     
     res.json({
       success: true,
-      data: contacts,
-      pagination: {
-        total,
-        limit,
-        offset,
-        hasMore: offset + contacts.length < total
-      }
+      data: contact
     });
     
   } catch (error) {
-    console.error('Error fetching contacts:', error);
+    req.log.error('Error updating contact', { error });
     res.status(500).json({ 
       success: false, 
-      error: 'Internal server error',
-      message: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+      error: 'Internal server error' 
     });
   }
 });
 
-// Get contact by ID - FIXED VERSION
-app.get('/api/contacts/:id', async (req: Request, res: Response): Promise<void> => {
+// Soft delete a contact; it can be brought back with the restore endpoint
+app.delete('/api/contacts/:id', requireRole('editor'), validate('DELETE /api/contacts/:id'), async (req: Request, res: Response): Promise<void> => {
   try {
-    const { id } = req.params;
+    const contactId = Number(req.params.id);
     
-    // Validate ID is a number
-    const contactId = parseInt(id, 10);
-    if (isNaN(contactId)) {
-      res.status(400).json({ 
+    const deleted = await repositories().contacts.softDelete(contactId, auditContext(req));
+    
+    if (!deleted) {
+      res.status(404).json({ 
         success: false, 
-        error: 'Invalid contact ID' 
+        error: 'Contact not found' 
       });
       return;
     }
     
-    const query = `
-      SELECT 
-        pr.*,
-        p.province,
-        s.state_name
-      FROM phone_record pr
-      LEFT JOIN province_info p ON pr.province_id = p.province_id
-      LEFT JOIN state_info s ON pr.state_id = s.state_id
-      WHERE pr.record_id = ?
-    `;
+    searchIndex.markStale();
     
-    const [rows] = await pool.execute(query, [contactId]);
+    res.json({
+      success: true,
+      message: 'Contact deleted',
+      data: { id: contactId.toString() }
+    });
+    
+  } catch (error) {
+    req.log.error('Error deleting contact', { error });
+    res.status(500).json({ 
+      success: false, 
+      error: 'Internal server error' 
+    });
+  }
+});
+
+// Restore a soft-deleted contact
+app.post('/api/contacts/:id/restore', requireRole('editor'), validate('POST /api/contacts/:id/restore'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const contactId = Number(req.params.id);
+    
+    const restored = await repositories().contacts.restore(contactId, auditContext(req));
     
-    if (!Array.isArray(rows) || rows.length === 0) {
+    if (!restored) {
       res.status(404).json({ 
         success: false, 
-        error: 'Contact not found' 
+        error: 'Deleted contact not found' 
       });
       return;
     }
     
-    const row = rows[0] as any;
-    const locationName = await getLocationName(
-      row.location_id || 0,
-      row.mk_cat_id || 0,
-      row.md_cat_id || 0,
-      row.muas_cat_id || 0,
-      row.nrt_cat_id || 0,
-      row.field_cat_id || 0,
-      row.medical_cat_id || 0,
-      row.service_cat_id || 0
-    );
-    
-    const fullName = `${row.f_name || ''} ${row.l_name || ''}`.trim();
-    const primaryPhone = row.phone || row.phone1 || row.phone2 || '';
-    
-    const contact: Contact = {
-      id: row.record_id.toString(),
-      name: fullName || 'Unknown',
-      location: locationName,
-      phone: primaryPhone,
-      whatsapp: formatWhatsAppNumber(primaryPhone),
-      rank: row.rank || '',
-      province: row.province || '',
-      state: row.state_name || '',
-      category: locationName
-    };
+    searchIndex.markStale();
+    const contact = await findContactById(contactId);
     
     res.json({
       success: true,
@@ -672,7 +751,7 @@ app.get('/api/contacts/:id', async (req: Request, res: Response): Promise<void>
     });
     
   } catch (error) {
-    console.error('Error fetching contact:', error);
+    req.log.error('Error restoring contact', { error });
     res.status(500).json({ 
       success: false, 
       error: 'Internal server error' 
@@ -680,45 +759,19 @@ app.get('/api/contacts/:id', async (req: Request, res: Response): Promise<void>
   }
 });
 
+// The reference lists below come from referenceCache, and change when its tables do
+const referenceLastModified = async (): Promise<Date> => (await referenceCache.get()).lastModified;
+
 // Get all locations for filtering
-app.get('/api/locations', async (req: Request, res: Response): Promise<void> => {
+app.get('/api/locations', requireRole('viewer'), validate('GET /api/locations'), httpCache('reference', referenceLastModified), async (req: Request, res: Response): Promise<void> => {
   try {
-    const locations: string[] = [];
-    
-    // Get all location types
-    const tables = [
-      { table: 'location', column: 'location' },
-      { table: 'mk_cat_info', column: 'mk_category' },
-      { table: 'md_cat_info', column: 'md_category' },
-      { table: 'muas_cat_info', column: 'muas_category' },
-      { table: 'nrt_cat_info', column: 'nrt_category' },
-      { table: 'field_cat_info', column: 'field_category' },
-      { table: 'medical_cat_info', column: 'medical_category' },
-      { table: 'service_cat_info', column: 'service_category' }
-    ];
-    
-    for (const { table, column } of tables) {
-      try {
-        const [rows] = await pool.execute(`SELECT ${column} FROM ${table}`);
-        if (Array.isArray(rows)) {
-          rows.forEach((row: any) => {
-            if (row[column] && !locations.includes(row[column])) {
-              locations.push(row[column]);
-            }
-          });
-        }
-      } catch (tableError) {
-        console.warn(`Error fetching from ${table}:`, tableError);
-      }
-    }
-    
     res.json({
       success: true,
-      data: locations.sort()
+      data: (await referenceCache.get()).locations
     });
     
   } catch (error) {
-    console.error('Error fetching locations:', error);
+    req.log.error('Error fetching locations', { error });
     res.status(500).json({ 
       success: false, 
       error: 'Internal server error' 
@@ -727,17 +780,15 @@ app.get('/api/locations', async (req: Request, res: Response): Promise<void> =>
 });
 
 // Get all provinces
-app.get('/api/provinces', async (req: Request, res: Response): Promise<void> => {
+app.get('/api/provinces', requireRole('viewer'), validate('GET /api/provinces'), httpCache('reference', referenceLastModified), async (req: Request, res: Response): Promise<void> => {
   try {
-    const [rows] = await pool.execute('SELECT * FROM province_info ORDER BY province');
-    
     res.json({
       success: true,
-      data: rows
+      data: (await referenceCache.get()).provinces
     });
     
   } catch (error) {
-    console.error('Error fetching provinces:', error);
+    req.log.error('Error fetching provinces', { error });
     res.status(500).json({ 
       success: false, 
       error: 'Internal server error' 
@@ -746,17 +797,15 @@ app.get('/api/provinces', async (req: Request, res: Response): Promise<void> =>
 });
 
 // Get all states
-app.get('/api/states', async (req: Request, res: Response): Promise<void> => {
+app.get('/api/states', requireRole('viewer'), validate('GET /api/states'), httpCache('reference', referenceLastModified), async (req: Request, res: Response): Promise<void> => {
   try {
-    const [rows] = await pool.execute('SELECT * FROM state_info ORDER BY state_name');
-    
     res.json({
       success: true,
-      data: rows
+      data: (await referenceCache.get()).states
     });
     
   } catch (error) {
-    console.error('Error fetching states:', error);
+    req.log.error('Error fetching states', { error });
     res.status(500).json({ 
       success: false, 
       error: 'Internal server error' 
@@ -765,26 +814,20 @@ app.get('/api/states', async (req: Request, res: Response): Promise<void> => {
 });
 
 // Add a test endpoint to check if there's data in phone_record
-app.get('/api/test-data', async (req: Request, res: Response): Promise<void> => {
+app.get('/api/test-data', requireRole('admin'), validate('GET /api/test-data'), httpCache('none'), async (req: Request, res: Response): Promise<void> => {
   try {
-    const [countResult] = await pool.execute('SELECT COUNT(*) as count FROM phone_record');
-    const count = Array.isArray(countResult) ? (countResult[0] as any).count : 0;
-    
-    const [sampleRows] = await pool.execute('SELECT * FROM phone_record LIMIT 5');
+    const contacts = repositories().contacts;
     
     res.json({
       success: true,
-      phone_record_count: count,
-      sample_data: sampleRows,
-      tables_info: {
-        location: await pool.execute('SELECT COUNT(*) as count FROM location'),
-        provinces: await pool.execute('SELECT COUNT(*) as count FROM province_info'),
-        states: await pool.execute('SELECT COUNT(*) as count FROM state_info')
-      }
+      backend: repositories().backend,
+      phone_record_count: await contacts.countAll(),
+      sample_data: (await contacts.sample(5)).map(rowToContact),
+      tables_info: await repositories().lookups.countRows()
     });
     
   } catch (error) {
-    console.error('Error in test endpoint:', error);
+    req.log.error('Error in test endpoint', { error });
     res.status(500).json({ 
       success: false, 
       error: 'Internal server error',
@@ -794,12 +837,19 @@ app.get('/api/test-data', async (req: Request, res: Response): Promise<void> =>
 });
 
 // Enhanced health check endpoint with database test
-app.get('/api/health', async (req: Request, res: Response): Promise<void> => {
+app.get('/api/health', validate('GET /api/health'), httpCache('none'), async (req: Request, res: Response): Promise<void> => {
+  if (shuttingDown) {
+    res.status(503).json({
+      success: false,
+      message: 'API is shutting down',
+      timestamp: new Date().toISOString()
+    });
+    return;
+  }
+
   try {
     // Test database connection
-    const connection = await pool.getConnection();
-    await connection.execute('SELECT 1 as test');
-    connection.release();
+    await repositories().ping();
     
     res.json({ 
       success: true, 
@@ -820,7 +870,16 @@ app.get('/api/health', async (req: Request, res: Response): Promise<void> => {
 
 // Error handling middleware
 app.use((err: Error, req: Request, res: Response, next: NextFunction): void => {
-  console.error('Unhandled error:', err);
+  // Malformed JSON bodies are a client error, not a server one
+  if ((err as any).type === 'entity.parse.failed') {
+    res.status(400).json({ 
+      success: false, 
+      error: 'Malformed JSON body' 
+    });
+    return;
+  }
+  
+  req.log.error('Unhandled error', { error: err });
   res.status(500).json({ 
     success: false, 
     error: 'Internal server error' 
@@ -836,20 +895,78 @@ app.use((req: Request, res: Response): void => {
   });
 });
 
-// Test database connection on startup
-testDatabaseConnection().then((connected) => {
-  if (connected) {
-    // Start server
-    app.listen(PORT, () => {
-      console.log(`Server is running on port ${PORT}`);
-      console.log(`Health check: http://localhost:${PORT}/api/health`);
-      console.log(`Contacts API: http://localhost:${PORT}/api/contacts`);
-      console.log(`Test data: http://localhost:${PORT}/api/test-data`);
+// Stop taking new connections, give the requests in flight SHUTDOWN_TIMEOUT_MS to finish,
+// then close the database pool and exit
+function shutdown(server: Server | null, signal: string): void {
+  if (shuttingDown) return;
+  shuttingDown = true;
+  logger.info(`${signal} received, shutting down`);
+  categoryResolver.stop();
+  searchIndex.stop();
+  referenceCache.stop();
+
+  const timeout = setTimeout(() => {
+    logger.warn('Requests still running after the shutdown timeout, closing their connections');
+    server?.closeAllConnections();
+  }, config.shutdownTimeoutMs);
+  timeout.unref();
+
+  new Promise<void>(resolve => (server ? server.close(() => resolve()) : resolve()))
+    .then(() => repositories().close())
+    .then(() => {
+      logger.info('Shutdown complete');
+      process.exit(0);
+    })
+    .catch((error) => {
+      logger.error('Failed to shut down cleanly', { error });
+      process.exit(1);
     });
-  } else {
-    console.error('Failed to start server due to database connection issues');
+}
+
+// Connect to the database (or load the fixture) and start listening
+async function start(): Promise<void> {
+  let server: Server | null = null;
+  process.on('SIGTERM', () => shutdown(server, 'SIGTERM'));
+  process.on('SIGINT', () => shutdown(server, 'SIGINT'));
+
+  // Wait for a database that is still starting; a broken fixture won't fix itself
+  const repos = repositories();
+  const connected = repos.backend === 'memory' ? await repos.connect() : await connectWithRetry(repos, config.databaseRetry);
+  if (!connected) {
+    logger.error('Failed to start server due to database connection issues');
     process.exit(1);
   }
-});
+
+  // Preload the lookup tables so contacts resolve without per-row queries
+  await categoryResolver.refresh();
+  logger.info('Category lookup tables loaded', { entries: categoryResolver.getStats().entries });
+  categoryResolver.start(CATEGORY_REFRESH_INTERVAL_MS);
+  referenceCache.start(REFERENCE_CACHE_CHECK_INTERVAL_MS);
+
+  // Build the ranked search index; contacts stay searchable with LIKE if this fails
+  try {
+    await searchIndex.rebuild();
+    logger.info('Search index built', { documents: searchIndex.getStats().documents });
+  } catch (error) {
+    logger.error('Failed to build search index, will retry on schedule', { error });
+  }
+  searchIndex.start(SEARCH_INDEX_REFRESH_INTERVAL_MS);
+
+  // Start server
+  server = app.listen(PORT, () => {
+    logger.info(`Server is running on port ${PORT}`, {
+      health: `http://localhost:${PORT}/api/health`,
+      docs: `http://localhost:${PORT}/api/docs`
+    });
+  });
+}
+
+// Start unless the app was imported (e.g. by the tests)
+if (require.main === module) {
+  start().catch((error) => {
+    logger.error('Failed to start server', { error });
+    process.exit(1);
+  });
+}
 
 export default app;
\ No newline at end of file
@@ -0,0 +1,98 @@
+import request from 'supertest';
+import app from './server';
+import { config } from './config';
+import { Repositories } from './repositories';
+import { encodeSyncToken } from './sync';
+import { authHeader, loadFixture } from './test/helpers';
+
+let repos: Repositories;
+
+beforeEach(async () => {
+  repos = await loadFixture();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+const sync = (since?: string) =>
+  request(app).get('/api/sync').query(since ? { since } : {}).set(authHeader('viewer'));
+
+describe('GET /api/sync', () => {
+  it('sends a full snapshot without a token', async () => {
+    const res = await sync();
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toMatchObject({ full: true, hasMore: false });
+    expect(res.body.data.contacts.upserted).toHaveLength(12);
+    // Stored numbers and ids; the client derives names of places and phone links
+    expect(res.body.data.contacts.upserted[1]).toEqual({
+      id: '2',
+      name: 'Ibrahim Musa Kano',
+      rank: 'Deputy Director',
+      phone: '08031234502',
+      phone1: '+966501234502',
+      phone2: '',
+      provinceId: 3,
+      stateId: 3,
+      categoryType: 'location',
+      categoryId: 2,
+      hideFromPublic: false,
+      helpDesk: false
+    });
+    expect(res.body.data.provinces.upserted).toHaveLength(4);
+    expect(res.body.data.states.upserted).toHaveLength(6);
+    expect(res.body.data.categories.upserted).toHaveLength(12);
+  });
+
+  it('sends the changes since a token', async () => {
+    const snapshot = await sync();
+    await request(app).patch('/api/contacts/5').set(authHeader('editor')).send({ rank: 'Director' });
+    await request(app).delete('/api/contacts/6').set(authHeader('editor'));
+
+    const delta = await sync(snapshot.body.data.token);
+
+    expect(delta.status).toBe(200);
+    expect(delta.body.data).toMatchObject({ full: false, hasMore: false });
+    expect(delta.body.data.contacts.upserted).toEqual([expect.objectContaining({ id: '5', rank: 'Director' })]);
+    expect(delta.body.data.contacts.deleted).toEqual(['6']);
+
+    // Nothing new since the delta
+    const next = await sync(delta.body.data.token);
+    expect(next.body.data.contacts).toEqual({ upserted: [], deleted: [] });
+  });
+
+  it('does not move the token past a change that may not be committed yet', async () => {
+    const snapshot = await sync();
+    await request(app).patch('/api/contacts/5').set(authHeader('editor')).send({ rank: 'Director' });
+    await request(app).patch('/api/contacts/7').set(authHeader('editor')).send({ rank: 'Director' });
+    // The change to contact 5 is still in an open transaction: only the later one is visible
+    const since = repos.changes.since.bind(repos.changes);
+    const hidden = jest.spyOn(repos.changes, 'since')
+      .mockImplementation(async (changeId, limit) => (await since(changeId, limit)).filter(change => change.row_id !== 5));
+    jest.replaceProperty(config, 'syncSettleSeconds', 60);
+
+    const early = await sync(snapshot.body.data.token);
+    hidden.mockRestore();
+    // Both committed and older than the settle window
+    jest.replaceProperty(config, 'syncSettleSeconds', 0);
+    const later = await sync(early.body.data.token);
+
+    expect(early.body.data.contacts).toEqual({ upserted: [], deleted: [] });
+    expect(early.body.data.token).toBe(snapshot.body.data.token);
+    expect(later.body.data.contacts.upserted.map((contact: { id: string }) => contact.id)).toEqual(['5', '7']);
+  });
+
+  it('rejects a malformed token', async () => {
+    const res = await sync('garbage');
+
+    expect(res.status).toBe(400);
+    expect(res.body).toEqual({ success: false, error: 'Invalid sync token' });
+  });
+
+  it('rejects a token from ahead of the change log', async () => {
+    const res = await sync(encodeSyncToken(1000));
+
+    expect(res.status).toBe(410);
+  });
+});
@@ -0,0 +1,231 @@
+import { Router, Request, Response } from 'express';
+import { requireRole } from './auth';
+import { validate } from './validation';
+import { rateLimit } from './rateLimit';
+import { CATEGORY_GROUPS, Category, CategoryGroup, categoryResolver } from './categories';
+import { ContactRow, repositories } from './repositories';
+import { config } from './config';
+
+// Delta sync for offline clients. Triggers on phone_record and the lookup tables write
+// to sync_changes (sql/004_sync_changes.sql); a sync token is the last change_id a client
+// has applied. Changes are returned as the current state of each changed row, or a
+// tombstone when the row is gone or soft-deleted.
+//
+// change_ids are taken in the order transactions write, not the order they commit, so a
+// change can become visible after a higher one. A token therefore never moves past the
+// first change of the last SYNC_SETTLE_SECONDS; such changes are sent on a later call.
+// A transaction open for longer than that (a very large import) can still be missed.
+
+// Maximum number of change log entries handled per call; clients keep calling while hasMore
+const SYNC_MAX_CHANGES = 5000;
+
+interface LookupEntry {
+  id: number;
+  name: string;
+}
+
+// A contact as stored: the numbers as entered, and the province, state and category by id,
+// which the client looks up in its synced lists. Clients parse the numbers and build the
+// links themselves, which keeps a snapshot of the whole directory small.
+interface SyncContact {
+  id: string;
+  name: string;
+  rank: string;
+  phone: string;
+  phone1: string;
+  phone2: string;
+  provinceId: number | null;
+  stateId: number | null;
+  categoryType: CategoryGroup | null;
+  categoryId: number | null;
+  hideFromPublic: boolean;
+  helpDesk: boolean;
+}
+
+interface LookupChanges<T, K> {
+  upserted: T[];
+  deleted: K[];
+}
+
+interface SyncResponse {
+  token: string;
+  full: boolean;
+  hasMore: boolean;
+  contacts: LookupChanges<SyncContact, string>;
+  provinces: LookupChanges<LookupEntry, number>;
+  states: LookupChanges<LookupEntry, number>;
+  categories: LookupChanges<Category, { group: CategoryGroup; id: number }>;
+}
+
+// A token that can't be used: malformed (400) or older than the change log (410)
+class SyncTokenError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+  }
+}
+
+export function encodeSyncToken(changeId: number): string {
+  return Buffer.from(JSON.stringify({ c: changeId })).toString('base64url');
+}
+
+export function decodeSyncToken(token: string): number {
+  try {
+    const { c } = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+    if (Number.isSafeInteger(c) && c >= 0) return c;
+  } catch {
+    // Fall through to the error below
+  }
+  throw new SyncTokenError('Invalid sync token', 400);
+}
+
+function rowToSyncContact(row: ContactRow): SyncContact {
+  const category = categoryResolver.resolve(row);
+
+  return {
+    id: row.record_id.toString(),
+    name: `${row.f_name || ''} ${row.l_name || ''}`.trim(),
+    rank: row.rank || '',
+    phone: row.phone || '',
+    phone1: row.phone1 || '',
+    phone2: row.phone2 || '',
+    provinceId: row.province_id || null,
+    stateId: row.state_id || null,
+    categoryType: category ? category.group : null,
+    categoryId: category ? category.id : null,
+    hideFromPublic: Boolean(Number(row.hide_from_public)),
+    helpDesk: Boolean(Number(row.help_desk))
+  };
+}
+
+async function fetchProvinces(ids?: number[]): Promise<LookupEntry[]> {
+  const rows = await repositories().lookups.provinces(ids);
+  return rows.map(row => ({ id: row.province_id, name: row.province }));
+}
+
+async function fetchStates(ids?: number[]): Promise<LookupEntry[]> {
+  const rows = await repositories().lookups.states(ids);
+  return rows.map(row => ({ id: row.state_id, name: row.state_name }));
+}
+
+// Everything a client needs to start from scratch
+async function buildSnapshot(): Promise<SyncResponse> {
+  // Read the position first: changes made while the snapshot is read are sent again next time
+  const { settled } = await repositories().changes.bounds(config.syncSettleSeconds);
+
+  return {
+    token: encodeSyncToken(settled),
+    full: true,
+    hasMore: false,
+    contacts: { upserted: (await repositories().contacts.findAll({})).map(rowToSyncContact), deleted: [] },
+    provinces: { upserted: await fetchProvinces(), deleted: [] },
+    states: { upserted: await fetchStates(), deleted: [] },
+    categories: { upserted: categoryResolver.list(), deleted: [] }
+  };
+}
+
+// Changes after the given change_id
+async function buildDelta(since: number): Promise<SyncResponse> {
+  const { oldest, latest, settled } = await repositories().changes.bounds(config.syncSettleSeconds);
+
+  // The change log was trimmed past the token, or the token is from another database
+  if ((oldest !== null && since < oldest - 1) || since > latest) {
+    throw new SyncTokenError('Sync token has expired, start again without a token', 410);
+  }
+
+  const changeRows = (await repositories().changes.since(since, SYNC_MAX_CHANGES + 1))
+    .filter(change => change.change_id <= settled);
+  const changes = changeRows.slice(0, SYNC_MAX_CHANGES);
+  const hasMore = changeRows.length > SYNC_MAX_CHANGES;
+  const last = changes.length > 0 ? changes[changes.length - 1]!.change_id : since;
+
+  // Only the latest state of each row matters, so collect the changed ids per table
+  const changed = new Map<string, Set<number>>();
+  for (const change of changes) {
+    const ids = changed.get(change.table_name) || new Set<number>();
+    ids.add(change.row_id);
+    changed.set(change.table_name, ids);
+  }
+  const idsOf = (table: string): number[] => Array.from(changed.get(table) || []);
+
+  const categoryGroups = CATEGORY_GROUPS.filter(info => changed.has(info.table));
+  if (categoryGroups.length > 0) {
+    await categoryResolver.refresh();
+  }
+
+  // Contacts that changed, plus the ones showing a renamed province, state or category
+  const contactRows = await repositories().contacts.findReferencing([
+    { column: 'record_id', ids: idsOf('phone_record') },
+    { column: 'province_id', ids: idsOf('province_info') },
+    { column: 'state_id', ids: idsOf('state_info') },
+    ...categoryGroups.map(info => ({ column: info.idColumn, ids: idsOf(info.table) }))
+  ]);
+  const contacts = contactRows.map(rowToSyncContact);
+  const foundContacts = new Set(contacts.map(contact => contact.id));
+
+  const provinceIds = idsOf('province_info');
+  const provinces = provinceIds.length > 0 ? await fetchProvinces(provinceIds) : [];
+  const stateIds = idsOf('state_info');
+  const states = stateIds.length > 0 ? await fetchStates(stateIds) : [];
+
+  const categories: SyncResponse['categories'] = { upserted: [], deleted: [] };
+  for (const info of categoryGroups) {
+    const current = new Map(categoryResolver.list([info]).map(category => [category.id, category]));
+    for (const id of idsOf(info.table)) {
+      const category = current.get(id);
+      if (category) {
+        categories.upserted.push(category);
+      } else {
+        categories.deleted.push({ group: info.group, id });
+      }
+    }
+  }
+
+  return {
+    token: encodeSyncToken(last),
+    full: false,
+    hasMore,
+    contacts: {
+      upserted: contacts,
+      deleted: idsOf('phone_record').map(String).filter(id => !foundContacts.has(id))
+    },
+    provinces: {
+      upserted: provinces,
+      deleted: provinceIds.filter(id => !provinces.some(province => province.id === id))
+    },
+    states: {
+      upserted: states,
+      deleted: stateIds.filter(id => !states.some(state => state.id === id))
+    },
+    categories
+  };
+}
+
+export const syncRouter = Router();
+
+// Delta sync: without a token a full snapshot, with a token the changes since it.
+// A snapshot is a download of the whole directory, so it counts against the export budget.
+syncRouter.get('/api/sync', requireRole('viewer'), rateLimit(req => (req.query.since ? 'list' : 'export')), validate('GET /api/sync'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const since = req.query.since as string | undefined;
+    const data = since ? await buildDelta(decodeSyncToken(since)) : await buildSnapshot();
+
+    res.json({
+      success: true,
+      data
+    });
+
+  } catch (error) {
+    if (error instanceof SyncTokenError) {
+      res.status(error.status).json({
+        success: false,
+        error: error.message
+      });
+      return;
+    }
+    req.log.error('Error building sync response', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+});
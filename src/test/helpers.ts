@@ -0,0 +1,36 @@
+import fs from 'fs';
+import path from 'path';
+import { issueToken, Role } from '../auth';
+import { categoryResolver } from '../categories';
+import { createMemoryRepositories, Fixture } from '../memoryRepositories';
+import { referenceCache } from '../referenceCache';
+import { Repositories, setRepositories } from '../repositories';
+import { searchIndex } from '../search';
+
+// Shared setup for the route tests: every test file runs the exported app on the
+// in-memory backend, loaded from the development fixture.
+
+export const FIXTURE_PATH = path.join(__dirname, '../../fixtures/directory.json');
+
+// The development fixture as an object, for tests that need data it doesn't have
+export function readFixture(): Fixture {
+  return JSON.parse(fs.readFileSync(FIXTURE_PATH, 'utf8'));
+}
+
+// A fresh copy of the fixture (or the given one), with the category cache and search index
+// loaded from it. Call it before each test that writes, so tests don't see each other's changes.
+export async function loadFixture(fixture: string | Fixture = FIXTURE_PATH): Promise<Repositories> {
+  const repos = createMemoryRepositories(fixture);
+  setRepositories(repos);
+  await repos.connect();
+  await categoryResolver.refresh();
+  await searchIndex.rebuild();
+  referenceCache.invalidate();
+  return repos;
+}
+
+// Authorization header of a logged in user with the given role
+export function authHeader(role: Role): { Authorization: string } {
+  const { token } = issueToken(1, `test-${role}`, role);
+  return { Authorization: `Bearer ${token}` };
+}
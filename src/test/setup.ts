@@ -0,0 +1,7 @@
+// Environment for the test run, set before the app's modules read it
+process.env.NODE_ENV = 'test';
+process.env.DATA_BACKEND = 'memory';
+process.env.AUTH_TOKEN_SECRET = 'test-secret';
+process.env.RATE_LIMIT_ENABLED = 'false';
+process.env.LOG_LEVEL = 'error';
+process.env.SYNC_SETTLE_SECONDS = '0';
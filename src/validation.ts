@@ -0,0 +1,191 @@
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
+import { Request, Response, NextFunction } from 'express';
+import type { Role } from './auth';
+import { config } from './config';
+
+// Request (and, outside production, response) validation against the route schemas in
+// schemas.ts. Routes opt in with validate('<METHOD> <path>'); the schemas themselves are
+// registered once at startup by openapi.ts, which keeps this module free of imports
+// from the feature modules that use it.
+
+// A JSON Schema (2020-12, as used by OpenAPI 3.1)
+export type Schema = Record<string, any>;
+
+export interface ApiResponse {
+  description: string;
+  schema?: Schema;
+  // Defaults to application/json
+  contentType?: string;
+}
+
+export interface ApiRoute {
+  method: 'get' | 'post' | 'patch' | 'delete';
+  // Express style path, e.g. /api/contacts/:id
+  path: string;
+  operationId: string;
+  summary: string;
+  tag: string;
+  // Minimum role, null for public routes
+  role: Role | null;
+  // Public routes that authenticate the caller when credentials are given
+  optionalAuth?: boolean;
+  deprecated?: boolean;
+  query?: Schema;
+  params?: Schema;
+  body?: Schema;
+  // Bodies other than JSON are documented but not validated
+  bodyContentType?: string;
+  responses: Record<number, ApiResponse>;
+}
+
+export interface ValidationErrorDetail {
+  field: string;
+  message: string;
+}
+
+const VALIDATE_RESPONSES = config.validateResponses;
+
+// Query strings and route params are text, so their values are coerced to the schema types
+// and defaults filled in. JSON bodies must already have the right types.
+const ajvOptions = {
+  allErrors: true,
+  allowUnionTypes: true,
+  formats: { 'date-time': /^\d{4}-\d\d-\d\dT\d\d:\d\d:\d\d(\.\d+)?(Z|[+-]\d\d:\d\d)$/ }
+};
+const coercingAjv = new Ajv({ ...ajvOptions, coerceTypes: true, useDefaults: true });
+const strictAjv = new Ajv({ ...ajvOptions, useDefaults: true });
+
+let registeredRoutes: Record<string, ApiRoute> | null = null;
+const requestedRoutes = new Set<string>();
+
+// Component refs (#/components/schemas/X) point into the schema registered as 'components'
+function rewriteRefs(schema: any): any {
+  if (Array.isArray(schema)) return schema.map(rewriteRefs);
+  if (!schema || typeof schema !== 'object') return schema;
+  return Object.fromEntries(
+    Object.entries(schema).map(([key, value]) => [
+      key,
+      key === '$ref' && typeof value === 'string'
+        ? value.replace('#/components/schemas/', 'components#/definitions/')
+        : rewriteRefs(value)
+    ])
+  );
+}
+
+// Register the API description; every route already asking for validation must be in it
+export function registerApiRoutes(routes: Record<string, ApiRoute>, components: Record<string, Schema>): void {
+  for (const ajv of [coercingAjv, strictAjv]) {
+    ajv.addSchema({ $id: 'components', definitions: rewriteRefs(components) });
+  }
+  registeredRoutes = routes;
+
+  const missing = Array.from(requestedRoutes).filter(key => !routes[key]);
+  if (missing.length > 0) {
+    throw new Error(`No schema for validated routes: ${missing.join(', ')}`);
+  }
+}
+
+function compile(ajv: Ajv, schema: Schema | undefined): ValidateFunction | null {
+  return schema ? ajv.compile(rewriteRefs(schema)) : null;
+}
+
+function toDetails(errors: ErrorObject[] | null | undefined, location: string): ValidationErrorDetail[] {
+  return (errors || []).map(error => {
+    const path = error.instancePath.split('/').filter(Boolean).join('.');
+    if (error.keyword === 'required') {
+      const field = [path, error.params.missingProperty].filter(Boolean).join('.');
+      return { field, message: `${field} is required` };
+    }
+    if (error.keyword === 'additionalProperties') {
+      const field = [path, error.params.additionalProperty].filter(Boolean).join('.');
+      return { field, message: `Unknown field '${field}'` };
+    }
+    const field = path || location;
+    const allowed = error.keyword === 'enum' ? ` (${error.params.allowedValues.join(', ')})` : '';
+    return { field, message: `${field} ${error.message}${allowed}` };
+  });
+}
+
+interface CompiledRoute {
+  query: ValidateFunction | null;
+  params: ValidateFunction | null;
+  body: ValidateFunction | null;
+  responses: Map<number, ValidateFunction>;
+}
+
+function compileRoute(key: string): CompiledRoute {
+  const route = registeredRoutes && registeredRoutes[key];
+  if (!route) {
+    throw new Error(`No schema for route ${key}`);
+  }
+
+  const responses = new Map<number, ValidateFunction>();
+  if (VALIDATE_RESPONSES) {
+    for (const [status, response] of Object.entries(route.responses)) {
+      if (response.schema && !response.contentType) {
+        responses.set(Number(status), compile(strictAjv, response.schema)!);
+      }
+    }
+  }
+
+  return {
+    query: compile(coercingAjv, route.query),
+    params: compile(coercingAjv, route.params),
+    body: route.bodyContentType ? null : compile(strictAjv, route.body),
+    responses
+  };
+}
+
+// Middleware validating a request against the schemas of the given route. Query and params
+// are replaced by their coerced values with defaults, so handlers can read e.g.
+// req.query.limit as a number. Invalid requests get a 400 listing every problem.
+export function validate(key: string) {
+  requestedRoutes.add(key);
+  if (registeredRoutes && !registeredRoutes[key]) {
+    throw new Error(`No schema for route ${key}`);
+  }
+  let compiled: CompiledRoute | null = null;
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    compiled = compiled || compileRoute(key);
+    const details: ValidationErrorDetail[] = [];
+
+    if (compiled.params && !compiled.params(req.params)) {
+      details.push(...toDetails(compiled.params.errors, 'params'));
+    }
+    if (compiled.query && !compiled.query(req.query)) {
+      details.push(...toDetails(compiled.query.errors, 'query'));
+    }
+    if (compiled.body && !compiled.body(req.body === undefined ? {} : req.body)) {
+      details.push(...toDetails(compiled.body.errors, 'body'));
+    }
+
+    if (details.length > 0) {
+      res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details
+      });
+      return;
+    }
+
+    // Responses that don't match the documented shape are a bug on our side: log, don't fail
+    const responses = compiled.responses;
+    if (responses.size > 0) {
+      const json = res.json.bind(res);
+      res.json = (body?: any) => {
+        const validator = responses.get(res.statusCode);
+        if (validator && !validator(body)) {
+          req.log.warn('Response does not match its schema', {
+            route: key,
+            status: res.statusCode,
+            details: toDetails(validator.errors, 'response')
+          });
+        }
+        return json(body);
+      };
+    }
+
+    next();
+  };
+}